@@ -18,6 +18,14 @@ const app = fastify({
 // In-memory storage
 const connections = new Map<string, any>();
 const chatSessions = new Map<string, any>();
+// Generation stream items, keyed by "generationId#sequence"
+const generationStreams = new Map<string, any>();
+const rooms = new Map<string, any>();
+const rateLimits = new Map<string, any>();
+// Usage records, keyed by "userId#usageKey"
+const usage = new Map<string, any>();
+// Generation queue items, keyed by "queueName#entryId"
+const generationQueue = new Map<string, any>();
 const sockets = new Map<string, WebSocket>();
 
 // Import handlers
@@ -25,6 +33,7 @@ import { handler as connectHandler } from "./src/handlers/connect";
 import { handler as disconnectHandler } from "./src/handlers/disconnect";
 import { handler as messageHandler } from "./src/handlers/message";
 import { handler as defaultHandler } from "./src/handlers/default";
+import { createEvent } from "./src/protocol/events";
 
 // Mock AWS SDK calls
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
@@ -39,8 +48,215 @@ import {
 import {
   ApiGatewayManagementApiClient,
   PostToConnectionCommand,
+  GetConnectionCommand,
 } from "@aws-sdk/client-apigatewaymanagementapi";
 
+// Actions routed to the message handler, mirroring the routes in template.yaml
+const MESSAGE_ROUTES = new Set([
+  "message",
+  "stop_generation",
+  "new_conversation",
+  "resume_conversation",
+  "list_conversations",
+  "delete_conversation",
+  "set_system_prompt",
+  "regenerate",
+  "edit_message",
+  "list_siblings",
+  "switch_branch",
+  "fork",
+  "list_models",
+  "resume_generation",
+  "create_room",
+  "join_room",
+  "leave_room",
+  "list_room_members",
+  "get_usage",
+  "leave_queue",
+]);
+
+// Resolve an "a.#b" document path against the expression attribute names
+function resolvePath(path: string, input: any): string[] {
+  const names = input.ExpressionAttributeNames || {};
+  return path
+    .trim()
+    .split(".")
+    .map((part) => names[part] || part);
+}
+
+function getPath(item: any, path: string[]) {
+  return path.reduce((value, key) => value?.[key], item);
+}
+
+// Split on commas that aren't inside function call parentheses
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+    current += char;
+  }
+
+  return [...parts, current.trim()];
+}
+
+// Evaluate a SET operand: a value, a path, list_append(), if_not_exists() or
+// the sum of two of them
+function evaluateOperand(item: any, operand: string, input: any): any {
+  const values = input.ExpressionAttributeValues || {};
+  const sum = operand.match(/^([^+]+?)\s*\+\s*([^+]+)$/);
+  if (sum) {
+    return (
+      evaluateOperand(item, sum[1], input) +
+      evaluateOperand(item, sum[2], input)
+    );
+  }
+
+  const call = operand.match(/^(list_append|if_not_exists)\((.*)\)$/);
+
+  if (call) {
+    const [first, second] = splitTopLevel(call[2]);
+    if (call[1] === "list_append") {
+      return [
+        ...evaluateOperand(item, first, input),
+        ...evaluateOperand(item, second, input),
+      ];
+    }
+    const existing = getPath(item, resolvePath(first, input));
+    return existing !== undefined
+      ? existing
+      : evaluateOperand(item, second, input);
+  }
+
+  return operand.startsWith(":")
+    ? values[operand]
+    : getPath(item, resolvePath(operand, input));
+}
+
+// Apply a simple "SET a = :a, b.#c = list_append(b.#c, :b) REMOVE d" update
+// expression to an item
+function applyUpdateExpression(item: any, input: any) {
+  const expression: string = input.UpdateExpression || "";
+
+  const setMatch = expression.match(/SET\s+(.*?)(?=\s+REMOVE\s+|$)/);
+  if (setMatch) {
+    for (const assignment of splitTopLevel(setMatch[1])) {
+      const separator = assignment.indexOf("=");
+      const path = resolvePath(assignment.substring(0, separator), input);
+      const value = evaluateOperand(
+        item,
+        assignment.substring(separator + 1).trim(),
+        input
+      );
+      getPath(item, path.slice(0, -1))[path[path.length - 1]] = value;
+    }
+  }
+
+  const removeMatch = expression.match(/REMOVE\s+(.*?)(?=\s+SET\s+|$)/);
+  if (removeMatch) {
+    for (const name of removeMatch[1].split(",")) {
+      const path = resolvePath(name, input);
+      const parent = getPath(item, path.slice(0, -1));
+      if (parent) {
+        delete parent[path[path.length - 1]];
+      }
+    }
+  }
+
+  return item;
+}
+
+// Evaluate "attribute_exists(a)", "attribute_not_exists(a)", "a = :a" and
+// "a < :a" conditions joined by AND / OR; other terms are assumed to hold
+function checkCondition(item: any, input: any): boolean {
+  const expression: string | undefined = input.ConditionExpression;
+  const values = input.ExpressionAttributeValues || {};
+  if (!expression) {
+    return true;
+  }
+
+  const evaluateTerm = (term: string): boolean => {
+    const existsMatch = term.match(/^attribute_(not_)?exists\((.+)\)$/);
+    if (existsMatch) {
+      const exists =
+        getPath(item, resolvePath(existsMatch[2], input)) !== undefined;
+      return existsMatch[1] ? !exists : exists;
+    }
+
+    const compareMatch = term.match(/^(.+?)\s*(=|<)\s*(:\w+)$/);
+    if (compareMatch) {
+      const current = getPath(item, resolvePath(compareMatch[1], input));
+      const expected = values[compareMatch[3]];
+      return compareMatch[2] === "="
+        ? current === expected
+        : current !== undefined && current < expected;
+    }
+
+    return true;
+  };
+
+  return expression
+    .split(/\s+OR\s+/)
+    .some((clause) =>
+      clause.split(/\s+AND\s+/).every((term) => evaluateTerm(term.trim()))
+    );
+}
+
+function isGenerationQueueTable(tableName?: string): boolean {
+  return (
+    tableName === process.env.GENERATION_QUEUE_TABLE ||
+    !!tableName?.toLowerCase().includes("queue")
+  );
+}
+
+function generationQueueKey(key: any): string {
+  return `${key?.queueName}#${key?.entryId}`;
+}
+
+function isGenerationStreamsTable(tableName?: string): boolean {
+  return (
+    !isGenerationQueueTable(tableName) &&
+    (tableName === process.env.GENERATION_STREAMS_TABLE ||
+      !!tableName?.toLowerCase().includes("generation"))
+  );
+}
+
+function generationStreamKey(key: any): string {
+  return `${key?.generationId}#${key?.sequence}`;
+}
+
+function isRateLimitsTable(tableName?: string): boolean {
+  return (
+    tableName === process.env.RATE_LIMITS_TABLE ||
+    !!tableName?.toLowerCase().includes("ratelimit")
+  );
+}
+
+function isUsageTable(tableName?: string): boolean {
+  return (
+    tableName === process.env.USAGE_TABLE ||
+    !!tableName?.toLowerCase().includes("usage")
+  );
+}
+
+function usageKey(key: any): string {
+  return `${key?.userId}#${key?.usageKey}`;
+}
+
+function isRoomsTable(tableName?: string): boolean {
+  return (
+    tableName === process.env.ROOMS_TABLE ||
+    !!tableName?.toLowerCase().includes("room")
+  );
+}
+
 // Debug helper to print the current state
 function debugState() {
   console.log(
@@ -65,7 +281,14 @@ DynamoDBDocumentClient.prototype.send = async function (command) {
 
     console.log(`PutCommand for table: ${tableName}`);
 
-    if (
+    if (isGenerationQueueTable(tableName)) {
+      generationQueue.set(generationQueueKey(item), item);
+    } else if (isGenerationStreamsTable(tableName)) {
+      generationStreams.set(generationStreamKey(item), item);
+    } else if (isRoomsTable(tableName)) {
+      console.log(`Saving room: ${item?.roomId}`);
+      rooms.set(item?.roomId, item);
+    } else if (
       tableName === process.env.CONNECTIONS_TABLE ||
       tableName?.toLowerCase().includes("connection")
     ) {
@@ -75,39 +298,31 @@ DynamoDBDocumentClient.prototype.send = async function (command) {
       tableName === process.env.CHAT_SESSIONS_TABLE ||
       tableName?.toLowerCase().includes("chat")
     ) {
-      console.log(`Saving chat session: ${item?.connectionId}`);
-
-      // Check if session already exists to prevent duplication
-      if (!chatSessions.has(item?.connectionId)) {
-        chatSessions.set(item?.connectionId, item);
-        console.log(`Created new chat session for: ${item?.connectionId}`);
-      } else {
-        console.log(
-          `Chat session already exists for: ${item?.connectionId}, updating instead of creating new`
-        );
-        const existingSession = chatSessions.get(item?.connectionId);
-        chatSessions.set(item?.connectionId, {
-          ...existingSession,
-          ...item,
-          // Preserve conversation history if it exists
-          conversationHistory:
-            item?.conversationHistory ||
-            existingSession?.conversationHistory ||
-            [],
-        });
-      }
+      console.log(`Saving chat session: ${item?.conversationId}`);
+      chatSessions.set(item?.conversationId, item);
       debugState();
     }
     return {};
   }
 
   if (command instanceof GetCommand) {
-    const key = command.input.Key?.connectionId;
     const tableName = command.input.TableName;
+    const key = isGenerationStreamsTable(tableName)
+      ? generationStreamKey(command.input.Key)
+      : command.input.Key?.connectionId ||
+        command.input.Key?.conversationId ||
+        command.input.Key?.roomId ||
+        command.input.Key?.userId;
 
     console.log(`GetCommand for table: ${tableName}, key: ${key}`);
 
-    if (
+    if (isGenerationStreamsTable(tableName)) {
+      return { Item: generationStreams.get(key) };
+    } else if (isRoomsTable(tableName)) {
+      return { Item: rooms.get(key) };
+    } else if (isRateLimitsTable(tableName)) {
+      return { Item: rateLimits.get(key) };
+    } else if (
       tableName === process.env.CONNECTIONS_TABLE ||
       tableName?.toLowerCase().includes("connection")
     ) {
@@ -133,12 +348,15 @@ DynamoDBDocumentClient.prototype.send = async function (command) {
   }
 
   if (command instanceof DeleteCommand) {
-    const key = command.input.Key?.connectionId;
+    const key =
+      command.input.Key?.connectionId || command.input.Key?.conversationId;
     const tableName = command.input.TableName;
 
     console.log(`DeleteCommand for table: ${tableName}, key: ${key}`);
 
-    if (
+    if (isGenerationQueueTable(tableName)) {
+      generationQueue.delete(generationQueueKey(command.input.Key));
+    } else if (
       tableName === process.env.CONNECTIONS_TABLE ||
       tableName?.toLowerCase().includes("connection")
     ) {
@@ -156,49 +374,139 @@ DynamoDBDocumentClient.prototype.send = async function (command) {
   }
 
   if (command instanceof UpdateCommand) {
-    const key = command.input.Key?.connectionId;
     const tableName = command.input.TableName;
+    const key = isGenerationStreamsTable(tableName)
+      ? generationStreamKey(command.input.Key)
+      : isUsageTable(tableName)
+      ? usageKey(command.input.Key)
+      : isGenerationQueueTable(tableName)
+      ? generationQueueKey(command.input.Key)
+      : command.input.Key?.connectionId ||
+        command.input.Key?.conversationId ||
+        command.input.Key?.roomId ||
+        command.input.Key?.userId;
 
     console.log(`UpdateCommand for table: ${tableName}, key: ${key}`);
     console.log(`UpdateExpression: ${command.input.UpdateExpression}`);
 
-    if (
-      tableName === process.env.CHAT_SESSIONS_TABLE ||
-      tableName?.toLowerCase().includes("chat")
-    ) {
-      const session = chatSessions.get(key);
-      if (session) {
-        console.log(`Found chat session for update: ${key}`);
-        if (command.input.UpdateExpression?.includes("conversationHistory")) {
-          console.log("Updating conversation history");
-          session.conversationHistory =
-            command.input.ExpressionAttributeValues?.[":history"];
-          session.updatedAt =
-            command.input.ExpressionAttributeValues?.[":updatedAt"];
-        } else if (command.input.UpdateExpression?.includes("empty")) {
-          console.log("Clearing conversation history");
-          session.conversationHistory = [];
-          session.updatedAt =
-            command.input.ExpressionAttributeValues?.[":updatedAt"];
-        }
-        chatSessions.set(key, session);
+    const store =
+      tableName === process.env.CONNECTIONS_TABLE ||
+      tableName?.toLowerCase().includes("connection")
+        ? connections
+        : tableName === process.env.CHAT_SESSIONS_TABLE ||
+          tableName?.toLowerCase().includes("conversation") ||
+          tableName?.toLowerCase().includes("chat")
+        ? chatSessions
+        : isGenerationStreamsTable(tableName)
+        ? generationStreams
+        : isRoomsTable(tableName)
+        ? rooms
+        : isRateLimitsTable(tableName)
+        ? rateLimits
+        : isUsageTable(tableName)
+        ? usage
+        : isGenerationQueueTable(tableName)
+        ? generationQueue
+        : null;
+
+    const item = store?.get(key);
+    if (item) {
+      if (!checkCondition(item, command.input)) {
+        throw { name: "ConditionalCheckFailedException" };
+      }
+      applyUpdateExpression(item, command.input);
+      if (store === chatSessions) {
         debugState();
-        return { Attributes: session };
-      } else {
-        console.log(`Chat session not found for update: ${key}`);
-        return {};
       }
+      return { Attributes: item };
+    }
+
+    // Mirror DynamoDB conditional updates against a missing item, which
+    // create it when the condition holds for an empty item; usage records are
+    // always created by their first update
+    if (command.input.ConditionExpression || store === usage) {
+      if (store && checkCondition({}, command.input)) {
+        const created = applyUpdateExpression(
+          { ...command.input.Key },
+          command.input
+        );
+        store.set(key, created);
+        return { Attributes: created };
+      }
+      throw { name: "ConditionalCheckFailedException" };
     }
+    console.log(`Item not found for update: ${key}`);
     return {};
   }
 
   if (command instanceof QueryCommand) {
-    console.log(`QueryCommand for table: ${command.input.TableName}`);
+    const tableName = command.input.TableName;
+    console.log(`QueryCommand for table: ${tableName}`);
     console.log(`IndexName: ${command.input.IndexName}`);
     console.log(
       `KeyConditionExpression: ${command.input.KeyConditionExpression}`
     );
-    return { Items: [] };
+
+    // A generation's items from a sequence number on
+    if (isGenerationStreamsTable(tableName)) {
+      const values = command.input.ExpressionAttributeValues || {};
+      const items = Array.from(generationStreams.values())
+        .filter(
+          (item) =>
+            item.generationId === values[":generationId"] &&
+            item.sequence >= values[":fromSequence"]
+        )
+        .sort((a, b) => a.sequence - b.sequence);
+
+      return { Items: items };
+    }
+
+    // Every item of a generation queue
+    if (isGenerationQueueTable(tableName)) {
+      const queueName = command.input.ExpressionAttributeValues?.[":queueName"];
+      return {
+        Items: Array.from(generationQueue.values()).filter(
+          (item) => item.queueName === queueName
+        ),
+      };
+    }
+
+    // A user's usage records for a day or month
+    if (isUsageTable(tableName)) {
+      const values = command.input.ExpressionAttributeValues || {};
+      const items = Array.from(usage.values())
+        .filter(
+          (item) =>
+            item.userId === values[":userId"] &&
+            item.usageKey.startsWith(values[":prefix"])
+        )
+        .sort((a, b) => a.usageKey.localeCompare(b.usageKey));
+
+      return { Items: items };
+    }
+
+    // Connections that have joined a room
+    if (command.input.IndexName === "RoomIdIndex") {
+      const roomId = command.input.ExpressionAttributeValues?.[":roomId"];
+      return {
+        Items: Array.from(connections.values()).filter(
+          (item) => item.roomId === roomId
+        ),
+      };
+    }
+
+    // Otherwise only the UserIdIndex lookups are supported locally
+    const userId = command.input.ExpressionAttributeValues?.[":userId"];
+    const store =
+      tableName === process.env.CONNECTIONS_TABLE ||
+      tableName?.toLowerCase().includes("connection")
+        ? connections
+        : chatSessions;
+    const items = Array.from(store.values())
+      .filter((item) => item.userId === userId)
+      .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+
+    return { Items: items };
   }
 
   console.log(`Unhandled command type: ${command.constructor.name}`);
@@ -225,6 +533,14 @@ ApiGatewayManagementApiClient.prototype.send = async function (command) {
     }
   }
 
+  if (command instanceof GetConnectionCommand) {
+    const socket = sockets.get(command.input.ConnectionId as string);
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      throw { name: "GoneException" };
+    }
+    return { ConnectedAt: new Date() };
+  }
+
   return {};
 };
 
@@ -254,6 +570,7 @@ function createApiGatewayEvent(
       authorizer: {
         userId: `user-${connectionId.substring(0, 8)}`,
         email: `user-${connectionId.substring(0, 6)}@example.com`,
+        groups: "[]",
       },
       messageId: uuidv4(),
       eventType: "MESSAGE",
@@ -289,26 +606,6 @@ wss.on("connection", async (ws: WebSocket, connectionId: string) => {
     // Handle connect
     await connectHandler(createApiGatewayEvent("$connect", connectionId));
 
-    // Create a chat session only if it doesn't already exist
-    // This prevents duplicate session creation
-    if (!chatSessions.has(connectionId)) {
-      console.log(`Creating chat session for connection: ${connectionId}`);
-      const userId = `user-${connectionId.substring(0, 8)}`;
-      const timestamp = Date.now();
-      chatSessions.set(connectionId, {
-        connectionId,
-        userId,
-        conversationHistory: [],
-        createdAt: timestamp,
-        updatedAt: timestamp,
-        ttl: Math.floor(timestamp / 1000) + 14400, // 4 hours
-      });
-    } else {
-      console.log(
-        `Chat session already exists for connection: ${connectionId}`
-      );
-    }
-
     debugState();
 
     // Handle messages
@@ -331,7 +628,7 @@ wss.on("connection", async (ws: WebSocket, connectionId: string) => {
           dataString
         );
 
-        if (message.action === "message") {
+        if (MESSAGE_ROUTES.has(message.action)) {
           await messageHandler(event);
         } else {
           await defaultHandler(event);
@@ -351,9 +648,8 @@ wss.on("connection", async (ws: WebSocket, connectionId: string) => {
           createApiGatewayEvent("$disconnect", connectionId)
         );
 
-        // Clean up all resources associated with this connection
+        // Clean up the connection; chat sessions outlive it so they can be resumed
         connections.delete(connectionId);
-        chatSessions.delete(connectionId);
         sockets.delete(connectionId);
 
         console.log(`All resources cleaned up for connection: ${connectionId}`);
@@ -365,10 +661,9 @@ wss.on("connection", async (ws: WebSocket, connectionId: string) => {
 
     // Welcome message
     ws.send(
-      JSON.stringify({
-        message: "Connected",
-        connectionId,
-      })
+      JSON.stringify(
+        createEvent("connected", { connectionId, timestamp: Date.now() })
+      )
     );
   } catch (error) {
     console.error("Connection error:", error);
@@ -391,13 +686,10 @@ app.get("/debug/sessions", (_, reply) => {
     ([id, session]) => ({
       id,
       userId: session.userId,
-      messagesCount: session.conversationHistory?.length || 0,
-      lastMessage:
-        session.conversationHistory?.length > 0
-          ? session.conversationHistory[
-              session.conversationHistory.length - 1
-            ].content.substring(0, 50)
-          : "None",
+      messagesCount: Object.keys(session.messages || {}).length,
+      lastMessage: session.messages?.[session.activeLeafId]
+        ? session.messages[session.activeLeafId].content.substring(0, 50)
+        : "None",
       session: session, // Include the full session for debugging
     })
   );
@@ -409,27 +701,32 @@ app.get("/debug/sessions", (_, reply) => {
 });
 
 // Endpoint to manually add a test message to a session
-app.get("/debug/add-test-message/:connectionId", (request, reply) => {
-  const params = request.params as { connectionId: string };
-  const session = chatSessions.get(params.connectionId);
+app.get("/debug/add-test-message/:conversationId", (request, reply) => {
+  const params = request.params as { conversationId: string };
+  const session = chatSessions.get(params.conversationId);
 
   if (!session) {
     reply.status(404).send({ error: "Chat session not found" });
     return;
   }
 
-  if (!session.conversationHistory) {
-    session.conversationHistory = [];
+  if (!session.messages) {
+    session.messages = {};
   }
 
-  session.conversationHistory.push({
+  // Continue the active branch
+  const id = uuidv4();
+  session.messages[id] = {
+    id,
+    parentId: session.activeLeafId || null,
     role: "user",
     content: "This is a test message",
     timestamp: Date.now(),
-  });
+  };
+  session.activeLeafId = id;
 
   session.updatedAt = Date.now();
-  chatSessions.set(params.connectionId, session);
+  chatSessions.set(params.conversationId, session);
 
   reply.send({
     message: "Test message added",
@@ -2,20 +2,105 @@ export const config = {
   // DynamoDB
   connectionsTable: process.env.CONNECTIONS_TABLE || "ConnectionsTable",
   chatSessionsTable: process.env.CHAT_SESSIONS_TABLE || "ChatSessionsTable",
+  generationStreamsTable:
+    process.env.GENERATION_STREAMS_TABLE || "GenerationStreamsTable",
+  roomsTable: process.env.ROOMS_TABLE || "RoomsTable",
+  rateLimitsTable: process.env.RATE_LIMITS_TABLE || "RateLimitsTable",
+  usageTable: process.env.USAGE_TABLE || "UsageTable",
+  generationQueueTable:
+    process.env.GENERATION_QUEUE_TABLE || "GenerationQueueTable",
   frontendUrl: process.env.FRONTEND_URL || "ai.jonathanmau.com",
   // Connection TTL in seconds (default: 2 weeks)
   connectionTtl: 1209600,
   chatSessionTtl: 1209600,
+  // A conversation is stored as one DynamoDB item, which can't pass 400KB; it
+  // stops taking messages at this size so the answer to the last one fits
+  chatSessionMaxBytes: parseInt(
+    process.env.CHAT_SESSION_MAX_BYTES || "320000",
+    10
+  ),
+  // How long daily usage records are kept (seconds, default: 400 days)
+  usageTtl: parseInt(process.env.USAGE_TTL || "34560000", 10),
+  // How long the events of a generation can be replayed (seconds)
+  generationStreamTtl: parseInt(
+    process.env.GENERATION_STREAM_TTL || "3600",
+    10
+  ),
+  // Longest a turn can hold a shared room before it is assumed to have died
+  // with its invocation; matches the message function timeout (milliseconds)
+  roomTurnTimeoutMs: parseInt(process.env.ROOM_TURN_TIMEOUT_MS || "900000", 10),
+  // Time an invocation must have left to start another queued room turn;
+  // with less, the queue waits for the next message to the room (milliseconds)
+  roomTurnMinRemainingMs: parseInt(
+    process.env.ROOM_TURN_MIN_REMAINING_MS || "300000",
+    10
+  ),
+  // Most messages a room queues behind its running turn
+  roomQueueMaxLength: parseInt(process.env.ROOM_QUEUE_MAX_LENGTH || "20", 10),
+  // A room and its queue are stored as one DynamoDB item, which can't pass
+  // 400KB; messages that would take it past this size aren't queued
+  roomMaxBytes: parseInt(process.env.ROOM_MAX_BYTES || "320000", 10),
+  // Client message ids remembered per conversation to deduplicate retries
+  processedMessageIdLimit: parseInt(
+    process.env.PROCESSED_MESSAGE_ID_LIMIT || "100",
+    10
+  ),
+
+  // Per-user limits on how hard the model server can be driven; see
+  // rate-limits.ts for overrides per Cognito group. A limit of 0 is no limit
+  rateLimits: {
+    enabled: process.env.RATE_LIMITING_ENABLED !== "false",
+    messagesPerMinute: parseInt(
+      process.env.RATE_LIMIT_MESSAGES_PER_MINUTE || "10",
+      10
+    ),
+    concurrentGenerations: parseInt(
+      process.env.RATE_LIMIT_CONCURRENT_GENERATIONS || "1",
+      10
+    ),
+    promptCharactersPerHour: parseInt(
+      process.env.RATE_LIMIT_PROMPT_CHARACTERS_PER_HOUR || "200000",
+      10
+    ),
+    // Prompt and completion tokens a user may spend per UTC day and month
+    dailyTokens: parseInt(process.env.RATE_LIMIT_DAILY_TOKENS || "0", 10),
+    monthlyTokens: parseInt(process.env.RATE_LIMIT_MONTHLY_TOKENS || "0", 10),
+    // Longest a generation can count against the concurrency limit, in case
+    // its invocation dies without releasing it (milliseconds)
+    generationLeaseMs: parseInt(
+      process.env.RATE_LIMIT_GENERATION_LEASE_MS || "900000",
+      10
+    ),
+  },
 
   // AWS region
   region: process.env.AWS_REGION || "us-east-1",
 
   webSocket: {
-    // Whether to enable broadcasting messages to all connections
+    // Whether to mirror a streaming answer to the user's other connections,
+    // e.g. other open tabs
     enableBroadcast: process.env.ENABLE_BROADCAST === "true",
 
+    // Most sends a broadcast runs at once
+    broadcastConcurrency: parseInt(
+      process.env.BROADCAST_CONCURRENCY || "10",
+      10
+    ),
+
     // Default stage name for API Gateway
     defaultStage: "Prod",
+
+    // Id of the WebSocket API, for building Management API endpoints outside
+    // of a request, e.g. in the connection sweeper
+    apiId: process.env.API_ID || undefined,
+
+    // Coalescing of streamed chunks into fewer PostToConnection calls
+    chunkBatching: {
+      // Longest a chunk is held back (milliseconds); 0 sends every chunk
+      windowMs: parseInt(process.env.CHUNK_BATCH_WINDOW_MS || "75", 10),
+      // Buffered size that is sent without waiting for the window (bytes)
+      maxBytes: parseInt(process.env.CHUNK_BATCH_MAX_BYTES || "4096", 10),
+    },
   },
   // Cognito configuration
   cognito: {
@@ -26,6 +111,8 @@ export const config = {
     // Use private ALB custom domain for the DeepSeek LLM service in VPC
     // The MessageFunction Lambda is inside the VPC and connects directly to the ALB
     endpoint: process.env.LLM_ENDPOINT || "deepseek.jonathanmau.com",
+    // Model used when a request doesn't pick one; see models.ts for the registry
+    defaultModel: process.env.LLM_DEFAULT_MODEL || "deepseek",
     defaultTemperature: parseFloat(
       process.env.LLM_DEFAULT_TEMPERATURE || "0.7"
     ),
@@ -34,11 +121,110 @@ export const config = {
       10
     ),
     defaultTopP: parseFloat(process.env.LLM_DEFAULT_TOP_P || "0.95"),
+    defaultTopK: parseInt(process.env.LLM_DEFAULT_TOP_K || "40", 10),
+    defaultRepetitionPenalty: parseFloat(
+      process.env.LLM_DEFAULT_REPETITION_PENALTY || "1.0"
+    ),
     defaultPresencePenalty: parseFloat(
       process.env.LLM_DEFAULT_PRESENCE_PENALTY || "0"
     ),
     defaultFrequencyPenalty: parseFloat(
       process.env.LLM_DEFAULT_FREQUENCY_PENALTY || "0"
     ),
+    // System prompt used when a conversation has no persona of its own
+    defaultSystemPrompt:
+      process.env.LLM_DEFAULT_SYSTEM_PROMPT ||
+      "You are a helpful assistant. Answer accurately and put code in fenced code blocks with a language tag.",
+    // Maximum length of a custom system prompt set by a user (characters)
+    maxSystemPromptLength: parseInt(
+      process.env.LLM_MAX_SYSTEM_PROMPT_LENGTH || "4000",
+      10
+    ),
+    // Prompt template the model was trained on: "deepseek", "chatml" or "legacy"
+    promptTemplate: process.env.LLM_PROMPT_TEMPLATE || "deepseek",
+    // Total context size of the model in tokens (prompt + completion)
+    contextWindowTokens: parseInt(
+      process.env.LLM_CONTEXT_WINDOW_TOKENS || "32768",
+      10
+    ),
+    // Rolling summarization of long conversations
+    summarization: {
+      enabled: process.env.LLM_SUMMARIZATION_ENABLED === "true",
+      // Summarize once this many messages are not yet covered by the summary
+      thresholdMessages: parseInt(
+        process.env.LLM_SUMMARIZATION_THRESHOLD_MESSAGES || "30",
+        10
+      ),
+      // Most recent messages that are always kept verbatim
+      keepRecentMessages: parseInt(
+        process.env.LLM_SUMMARIZATION_KEEP_RECENT_MESSAGES || "10",
+        10
+      ),
+      maxTokens: parseInt(
+        process.env.LLM_SUMMARIZATION_MAX_TOKENS || "512",
+        10
+      ),
+      // Longest a summary waits for a backend slot; a busy backend skips it
+      // and a later answer summarizes instead (milliseconds)
+      maxQueueWaitMs: parseInt(
+        process.env.LLM_SUMMARIZATION_MAX_QUEUE_WAIT_MS || "30000",
+        10
+      ),
+    },
+    // How often a streaming invocation checks the connections table for a
+    // stop_generation request (milliseconds)
+    cancellationPollIntervalMs: parseInt(
+      process.env.LLM_CANCELLATION_POLL_INTERVAL_MS || "1000",
+      10
+    ),
+    // How long a generation keeps going with no connection to send to before
+    // it is stopped; the client can resume it until then (milliseconds)
+    detachedGenerationTimeoutMs: parseInt(
+      process.env.LLM_DETACHED_GENERATION_TIMEOUT_MS || "120000",
+      10
+    ),
+    // Queue in front of the model server; see generation-queue.service.ts
+    queue: {
+      // Generations streaming from the backend at once; 0 turns the queue off
+      maxConcurrentGenerations: parseInt(
+        process.env.LLM_QUEUE_MAX_CONCURRENT_GENERATIONS || "4",
+        10
+      ),
+      // How often a waiting generation looks at the queue (milliseconds)
+      pollIntervalMs: parseInt(
+        process.env.LLM_QUEUE_POLL_INTERVAL_MS || "1000",
+        10
+      ),
+      // A waiting entry not refreshed for this long was left behind by an
+      // invocation that died, and no longer holds its place (milliseconds)
+      staleEntryMs: parseInt(
+        process.env.LLM_QUEUE_STALE_ENTRY_MS || "30000",
+        10
+      ),
+      // Longest a slot is held without being renewed; running generations
+      // renew it, so this is how long a dead invocation keeps its slot
+      // (milliseconds)
+      slotLeaseMs: parseInt(process.env.LLM_QUEUE_SLOT_LEASE_MS || "60000", 10),
+      // Longest a generation waits for a slot before failing with
+      // queue_timeout; leaves most of the message function timeout for the
+      // answer itself (milliseconds)
+      maxWaitMs: parseInt(process.env.LLM_QUEUE_MAX_WAIT_MS || "300000", 10),
+    },
+    // Endpoint the default model fails over to while its primary is down
+    fallbackEndpoint: process.env.LLM_FALLBACK_ENDPOINT || "",
+    // Per-endpoint circuit breaker; see circuit-breaker.service.ts
+    circuitBreaker: {
+      // Consecutive failures that open the breaker
+      failureThreshold: parseInt(
+        process.env.LLM_CIRCUIT_BREAKER_FAILURE_THRESHOLD || "3",
+        10
+      ),
+      // How long an open breaker fails fast before letting a trial request
+      // through (milliseconds)
+      openDurationMs: parseInt(
+        process.env.LLM_CIRCUIT_BREAKER_OPEN_DURATION_MS || "30000",
+        10
+      ),
+    },
   },
-};
\ No newline at end of file
+};
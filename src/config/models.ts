@@ -0,0 +1,244 @@
+/**
+ * Registry of the models users can chat with
+ *
+ * The default model comes from the LLM_* settings in config.ts. Admins can add
+ * models or override the default without a code change by setting LLM_MODELS
+ * to a JSON object keyed by model id, e.g.
+ * {"qwen-coder": {"name": "Qwen Coder", "endpoint": "qwen.internal",
+ *   "promptTemplate": "chatml", "contextWindowTokens": 32768,
+ *   "defaultParameters": {"temperature": 0.2}, "allowedGroups": ["developers"]}}
+ *
+ * Models are served over gRPC by default. Set "provider": "openai" to use an
+ * OpenAI-compatible chat completions API instead, with "endpoint" as its base
+ * URL (e.g. "http://vllm.internal:8000/v1") and an optional "apiKey".
+ */
+import { config } from "./config";
+import {
+  GenerationParameters,
+  getDefaultGenerationParameters,
+} from "../utils/generation-parameters";
+import { sanitizeLLMParameters } from "../utils/sanitization";
+
+// Backends a model can be served by
+export const MODEL_PROVIDERS = ["grpc", "openai"] as const;
+export type ModelProviderName = (typeof MODEL_PROVIDERS)[number];
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  // Backend serving the model
+  provider: ModelProviderName;
+  // gRPC host, or base URL of an OpenAI-compatible API
+  endpoint: string;
+  // Same kind of endpoint, used while the primary's circuit breaker is open
+  fallbackEndpoint?: string;
+  // Model name sent upstream, for servers hosting several models
+  upstreamModel: string;
+  // Bearer token for OpenAI-compatible APIs
+  apiKey?: string;
+  // Total context size in tokens (prompt + completion)
+  contextWindowTokens: number;
+  // Prompt template the model was trained on: "deepseek", "chatml" or "legacy"
+  promptTemplate: string;
+  // Overrides of the global defaults for requests that don't set them
+  defaultParameters: Partial<GenerationParameters>;
+  // Cognito groups that may use the model; everyone when empty
+  allowedGroups: string[];
+}
+
+const BUILT_IN_MODELS: Record<string, ModelDefinition> = {
+  [config.llm.defaultModel]: {
+    id: config.llm.defaultModel,
+    name: "DeepSeek",
+    provider: "grpc",
+    endpoint: config.llm.endpoint,
+    fallbackEndpoint: config.llm.fallbackEndpoint || undefined,
+    upstreamModel: config.llm.defaultModel,
+    contextWindowTokens: config.llm.contextWindowTokens,
+    promptTemplate: config.llm.promptTemplate,
+    defaultParameters: {},
+    allowedGroups: [],
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isModelProvider = (value: unknown): value is ModelProviderName =>
+  MODEL_PROVIDERS.includes(value as ModelProviderName);
+
+/**
+ * Validate a model's default parameters
+ * Values above a limit are clamped to it; unknown names and unusable values
+ * are logged and left out, so the global default applies instead
+ */
+const parseDefaultParameters = (
+  id: string,
+  raw: Record<string, unknown>
+): Partial<GenerationParameters> => {
+  const defaults = getDefaultGenerationParameters();
+  const sanitized = sanitizeLLMParameters(raw, defaults);
+  const parameters: Partial<Record<keyof GenerationParameters, unknown>> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (!(name in defaults) && name !== "seed") {
+      console.warn(`Ignoring unknown default parameter "${name}" of "${id}"`);
+      continue;
+    }
+
+    const key = name as keyof GenerationParameters;
+    const usable =
+      key === "stop"
+        ? Array.isArray(value)
+        : sanitized[key] !== undefined &&
+          (sanitized[key] !== defaults[key] || value === defaults[key]);
+    if (!usable) {
+      console.warn(
+        `Ignoring invalid default ${name} ${JSON.stringify(value)} of "${id}"`
+      );
+      continue;
+    }
+
+    if (key !== "stop" && sanitized[key] !== value) {
+      console.warn(
+        `Clamped default ${name} of "${id}" from ${value} to ${sanitized[key]}`
+      );
+    }
+    parameters[key] = sanitized[key];
+  }
+
+  return parameters as Partial<GenerationParameters>;
+};
+
+/**
+ * Parse admin-defined models from the environment
+ * Invalid JSON or entries are ignored so a bad value can't take the service down
+ */
+const loadAdminModels = (): Record<string, ModelDefinition> => {
+  const raw = process.env.LLM_MODELS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const models: Record<string, ModelDefinition> = {};
+
+    for (const [id, value] of Object.entries(
+      parsed as Record<string, unknown>
+    )) {
+      if (!isPlainObject(value)) {
+        console.warn(`Ignoring model "${id}" that isn't an object`);
+        continue;
+      }
+
+      const builtIn = BUILT_IN_MODELS[id];
+      const endpoint = value.endpoint ?? builtIn?.endpoint;
+
+      if (typeof endpoint !== "string" || !endpoint.trim()) {
+        console.warn(`Ignoring model "${id}" without an endpoint`);
+        continue;
+      }
+
+      if (value.provider !== undefined && !isModelProvider(value.provider)) {
+        console.warn(
+          `Ignoring model "${id}" with unknown provider "${value.provider}"`
+        );
+        continue;
+      }
+
+      models[id] = {
+        id,
+        name: typeof value.name === "string" ? value.name : builtIn?.name || id,
+        provider: isModelProvider(value.provider)
+          ? value.provider
+          : builtIn?.provider ?? "grpc",
+        endpoint,
+        fallbackEndpoint:
+          typeof value.fallbackEndpoint === "string" &&
+          value.fallbackEndpoint.trim()
+            ? value.fallbackEndpoint
+            : builtIn?.fallbackEndpoint,
+        upstreamModel:
+          typeof value.upstreamModel === "string" && value.upstreamModel.trim()
+            ? value.upstreamModel
+            : builtIn?.upstreamModel || id,
+        apiKey:
+          typeof value.apiKey === "string" ? value.apiKey : builtIn?.apiKey,
+        contextWindowTokens:
+          typeof value.contextWindowTokens === "number" &&
+          Number.isInteger(value.contextWindowTokens)
+            ? value.contextWindowTokens
+            : builtIn?.contextWindowTokens || config.llm.contextWindowTokens,
+        promptTemplate:
+          typeof value.promptTemplate === "string"
+            ? value.promptTemplate
+            : builtIn?.promptTemplate || config.llm.promptTemplate,
+        defaultParameters: isPlainObject(value.defaultParameters)
+          ? parseDefaultParameters(id, value.defaultParameters)
+          : builtIn?.defaultParameters || {},
+        allowedGroups: isStringArray(value.allowedGroups)
+          ? value.allowedGroups
+          : builtIn?.allowedGroups || [],
+      };
+    }
+
+    return models;
+  } catch (error) {
+    console.error("Error parsing LLM_MODELS:", error);
+    return {};
+  }
+};
+
+export const modelRegistry: Record<string, ModelDefinition> = {
+  ...BUILT_IN_MODELS,
+  ...loadAdminModels(),
+};
+
+/**
+ * Get a model by id
+ */
+export const getModel = (modelId: string): ModelDefinition | null => {
+  return Object.prototype.hasOwnProperty.call(modelRegistry, modelId)
+    ? modelRegistry[modelId]
+    : null;
+};
+
+/**
+ * The model used when a request doesn't name one
+ */
+export const getDefaultModel = (): ModelDefinition =>
+  modelRegistry[config.llm.defaultModel];
+
+/**
+ * Whether a user in the given Cognito groups may use a model
+ */
+export const canUseModel = (
+  model: ModelDefinition,
+  userGroups: string[] = []
+): boolean =>
+  model.allowedGroups.length === 0 ||
+  model.allowedGroups.some((group) => userGroups.includes(group));
+
+/**
+ * Models a user in the given Cognito groups may use
+ */
+export const getModelsForUser = (
+  userGroups: string[] = []
+): ModelDefinition[] =>
+  Object.values(modelRegistry).filter((model) =>
+    canUseModel(model, userGroups)
+  );
+
+/**
+ * The global defaults with the model's own defaults applied on top
+ */
+export const getModelDefaultParameters = (
+  model: ModelDefinition
+): GenerationParameters => ({
+  ...getDefaultGenerationParameters(),
+  ...model.defaultParameters,
+});
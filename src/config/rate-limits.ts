@@ -0,0 +1,128 @@
+/**
+ * Rate limits per Cognito group
+ *
+ * Everyone gets the RATE_LIMIT_* defaults from config.ts. Admins can raise or
+ * lower them for a group by setting RATE_LIMITS to a JSON object keyed by
+ * group name, e.g.
+ * {"premium": {"messagesPerMinute": 60, "concurrentGenerations": 3},
+ *  "trial": {"promptCharactersPerHour": 20000, "monthlyTokens": 1000000}}
+ *
+ * A user in several groups gets the most generous value of each limit among
+ * them; limits a group doesn't set keep the default. 0 means no limit.
+ */
+import { config } from "./config";
+
+export interface RateLimits {
+  messagesPerMinute: number;
+  concurrentGenerations: number;
+  promptCharactersPerHour: number;
+  // Token quotas, counting prompt and completion tokens
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+const RATE_LIMIT_NAMES: (keyof RateLimits)[] = [
+  "messagesPerMinute",
+  "concurrentGenerations",
+  "promptCharactersPerHour",
+  "dailyTokens",
+  "monthlyTokens",
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  messagesPerMinute: config.rateLimits.messagesPerMinute,
+  concurrentGenerations: config.rateLimits.concurrentGenerations,
+  promptCharactersPerHour: config.rateLimits.promptCharactersPerHour,
+  dailyTokens: config.rateLimits.dailyTokens,
+  monthlyTokens: config.rateLimits.monthlyTokens,
+};
+
+/**
+ * Parse the per-group limits from the environment
+ * Invalid JSON or values are ignored so a bad value can't take the service down
+ */
+const loadGroupRateLimits = (): Record<string, Partial<RateLimits>> => {
+  const raw = process.env.RATE_LIMITS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const groups: Record<string, Partial<RateLimits>> = {};
+
+    for (const [group, value] of Object.entries(
+      parsed as Record<string, unknown>
+    )) {
+      if (!isPlainObject(value)) {
+        console.warn(`Ignoring invalid limits for group "${group}"`);
+        continue;
+      }
+
+      const limits: Partial<RateLimits> = {};
+
+      for (const name of RATE_LIMIT_NAMES) {
+        const limit = value[name];
+        if (limit === undefined) {
+          continue;
+        }
+        if (
+          typeof limit !== "number" ||
+          !Number.isInteger(limit) ||
+          limit < 0
+        ) {
+          console.warn(`Ignoring invalid ${name} for group "${group}"`);
+          continue;
+        }
+        limits[name] = limit;
+      }
+
+      groups[group] = limits;
+    }
+
+    return groups;
+  } catch (error) {
+    console.error("Error parsing RATE_LIMITS:", error);
+    return {};
+  }
+};
+
+export const groupRateLimits: Record<
+  string,
+  Partial<RateLimits>
+> = loadGroupRateLimits();
+
+// The more generous of two values of a limit, where 0 is no limit
+const moreGenerous = (a: number, b: number) =>
+  a === 0 || b === 0 ? 0 : Math.max(a, b);
+
+/**
+ * The limits of a user in the given Cognito groups
+ */
+export const getRateLimits = (userGroups: string[] = []): RateLimits => {
+  const limits: Partial<RateLimits> = {};
+
+  for (const group of userGroups) {
+    const overrides = Object.prototype.hasOwnProperty.call(
+      groupRateLimits,
+      group
+    )
+      ? groupRateLimits[group]
+      : {};
+
+    for (const name of RATE_LIMIT_NAMES) {
+      const value = overrides[name];
+      if (value !== undefined) {
+        limits[name] =
+          limits[name] === undefined
+            ? value
+            : moreGenerous(limits[name]!, value);
+      }
+    }
+  }
+
+  return { ...DEFAULT_RATE_LIMITS, ...limits };
+};
@@ -0,0 +1,87 @@
+/**
+ * System prompt presets (personas) that users can pick by id
+ *
+ * Admins can add or override presets without a code change by setting
+ * LLM_SYSTEM_PROMPT_PRESETS to a JSON object, e.g.
+ * {"sql-helper": {"name": "SQL helper", "prompt": "You are ..."}}
+ */
+
+export interface SystemPromptPreset {
+  name: string;
+  prompt: string;
+}
+
+const BUILT_IN_PRESETS: Record<string, SystemPromptPreset> = {
+  "code-reviewer": {
+    name: "Code reviewer",
+    prompt:
+      "You are a senior software engineer reviewing code. Point out bugs, security issues and unclear code first, then suggest concrete improvements with short code examples. Be direct and specific.",
+  },
+  "sql-helper": {
+    name: "SQL helper",
+    prompt:
+      "You are an expert in SQL and relational databases. Write correct, readable queries, explain how they work, and mention indexing or performance concerns when they matter. Ask which SQL dialect is used if it changes the answer.",
+  },
+  concise: {
+    name: "Concise",
+    prompt:
+      "You are a helpful assistant. Answer as briefly as possible without leaving out anything important.",
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parse admin-defined presets from the environment
+ * Invalid JSON or entries are ignored so a bad value can't take the service down
+ */
+const loadAdminPresets = (): Record<string, SystemPromptPreset> => {
+  const raw = process.env.LLM_SYSTEM_PROMPT_PRESETS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const presets: Record<string, SystemPromptPreset> = {};
+
+    for (const [id, value] of Object.entries(
+      parsed as Record<string, unknown>
+    )) {
+      if (
+        isPlainObject(value) &&
+        typeof value.prompt === "string" &&
+        value.prompt.trim()
+      ) {
+        presets[id] = {
+          name: typeof value.name === "string" ? value.name : id,
+          prompt: value.prompt,
+        };
+      } else {
+        console.warn(`Ignoring invalid system prompt preset "${id}"`);
+      }
+    }
+
+    return presets;
+  } catch (error) {
+    console.error("Error parsing LLM_SYSTEM_PROMPT_PRESETS:", error);
+    return {};
+  }
+};
+
+export const systemPromptPresets: Record<string, SystemPromptPreset> = {
+  ...BUILT_IN_PRESETS,
+  ...loadAdminPresets(),
+};
+
+/**
+ * Get a system prompt preset by id
+ */
+export const getSystemPromptPreset = (
+  presetId: string
+): SystemPromptPreset | null => {
+  return Object.prototype.hasOwnProperty.call(systemPromptPresets, presetId)
+    ? systemPromptPresets[presetId]
+    : null;
+};
@@ -4,7 +4,25 @@ import {
 } from "aws-lambda";
 import { extractConnectionInfo, createResponse } from "../utils/lambda";
 import { saveConnection } from "../services/connection.service";
-import { createChatSession } from "../services/chat-session.service";
+
+/**
+ * Read the Cognito groups the authorizer passed on as a JSON string
+ */
+const parseUserGroups = (groups: unknown): string[] => {
+  if (typeof groups !== "string") {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(groups);
+    return Array.isArray(parsed)
+      ? parsed.filter((group): group is string => typeof group === "string")
+      : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable user groups:", groups);
+    return [];
+  }
+};
 
 /**
  * Handle WebSocket $connect event
@@ -61,8 +79,9 @@ export const handler = async (
       authorizer.principalId ||
       "anonymous") as string;
     const userEmail = (authorizer.email || "") as string;
+    const userGroups = parseUserGroups(authorizer.groups);
 
-    console.log("Authenticated user:", { userId, userEmail });
+    console.log("Authenticated user:", { userId, userEmail, userGroups });
 
     // Save the connection to DynamoDB with user info
     await saveConnection({
@@ -72,18 +91,13 @@ export const handler = async (
       timestamp: Date.now(),
       userId,
       userEmail,
+      userGroups,
       isAuthenticated: true,
       origin, // Store the origin for auditing/debugging
     });
 
-    // Create a new chat session for this connection
-    try {
-      await createChatSession(connectionId, userId);
-      console.log(`Chat session created for connection ${connectionId}`);
-    } catch (error) {
-      // Log error but continue with connection process
-      console.error("Error creating chat session:", error);
-    }
+    // No chat session is created here: the first message starts a new
+    // conversation, or the client reattaches one with resume_conversation
 
     // Return a successful response
     return createResponse(200, { message: "Connected" });
@@ -91,4 +105,4 @@ export const handler = async (
     console.error("Error handling connect event:", error);
     return createResponse(500, { message: "Internal Server Error" });
   }
-};
\ No newline at end of file
+};
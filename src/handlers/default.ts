@@ -9,9 +9,9 @@ import {
 } from "../utils/lambda";
 import {
   createApiGatewayClient,
-  sendMessageToClient,
   getWebSocketEndpoint,
 } from "../utils/websocket";
+import { createEventSender, resolveRequestId } from "../protocol/events";
 
 /**
  * Handle WebSocket $default event
@@ -38,8 +38,16 @@ export const handler = async (
     //@ts-ignore
     const endpoint = getWebSocketEndpoint(domainName, stage);
     const apiGatewayClient = createApiGatewayClient(endpoint);
-    //@ts-ignore
-    await sendMessageToClient(apiGatewayClient, connectionId, response);
+    const events = createEventSender(
+      apiGatewayClient,
+      connectionId,
+      resolveRequestId(message)
+    );
+    await events.send("error", {
+      code: "unknown_action",
+      message: `${response.message} Received "${response.receivedAction}".`,
+      timestamp: Date.now(),
+    });
 
     // Return a successful response
     return createResponse(200, response);
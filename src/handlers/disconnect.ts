@@ -3,8 +3,7 @@ import {
   APIGatewayProxyResult,
 } from "aws-lambda";
 import { extractConnectionInfo, createResponse } from "../utils/lambda";
-import { deleteConnection } from "../services/connection.service";
-import { deleteChatSession } from "../services/chat-session.service";
+import { cleanupConnection } from "../services/connection-cleanup.service";
 
 /**
  * Handle WebSocket $disconnect event
@@ -18,17 +17,9 @@ export const handler = async (
     // Extract connection ID from the event
     const { connectionId } = extractConnectionInfo(event);
 
-    // Delete the connection from DynamoDB
-    //@ts-ignore
-    await deleteConnection(connectionId);
-    // Delete the chat session for this connection
-    // try {
-    //   await deleteChatSession(connectionId);
-    //   console.log(`Chat session for ${connectionId} deleted`);
-    // } catch (error) {
-    //   console.warn(`Error deleting chat session for ${connectionId}:`, error);
-    //   // Continue with disconnect process even if chat session deletion fails
-    // }
+    // Delete the connection from DynamoDB and detach any generation streaming
+    // to it
+    await cleanupConnection(connectionId, "disconnect");
 
     // Return a successful response
     return createResponse(200, { message: "Disconnected" });
@@ -6,4 +6,5 @@
 export { handler as connect } from './connect';
 export { handler as disconnect } from './disconnect';
 export { handler as message } from './message';
-export { handler as default } from './default';
\ No newline at end of file
+export { handler as default } from './default';
+export { handler as sweeper } from './sweeper';
\ No newline at end of file
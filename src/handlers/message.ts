@@ -1,6 +1,7 @@
 import {
   APIGatewayProxyWebsocketEventV2,
   APIGatewayProxyResult,
+  Context,
 } from "aws-lambda";
 import {
   extractConnectionInfo,
@@ -13,7 +14,8 @@ import { handleMessage } from "../services/message.service";
  * Handle WebSocket message event
  */
 export const handler = async (
-  event: APIGatewayProxyWebsocketEventV2
+  event: APIGatewayProxyWebsocketEventV2,
+  context?: Context
 ): Promise<APIGatewayProxyResult> => {
   try {
     console.log("Message event:", JSON.stringify(event));
@@ -32,7 +34,9 @@ export const handler = async (
       domainName,
       stage,
       apiId,
-      region
+      region,
+      // Room turns are only started while there is time to finish them
+      context && (() => context.getRemainingTimeInMillis())
     );
 
     // Return a successful response
@@ -0,0 +1,19 @@
+import { ScheduledEvent } from "aws-lambda";
+import {
+  sweepStaleConnections,
+  SweepResult,
+} from "../services/connection-sweeper.service";
+
+/**
+ * Handle the scheduled sweep of stale connections
+ */
+export const handler = async (event: ScheduledEvent): Promise<SweepResult> => {
+  try {
+    console.log("Connection sweep triggered:", event.time);
+
+    return await sweepStaleConnections();
+  } catch (error) {
+    console.error("Error sweeping stale connections:", error);
+    throw error;
+  }
+};
@@ -8,14 +8,20 @@ export { handler as connectHandler } from "./handlers/connect";
 export { handler as disconnectHandler } from "./handlers/disconnect";
 export { handler as messageHandler } from "./handlers/message";
 export { handler as defaultHandler } from "./handlers/default";
+export { handler as sweeperHandler } from "./handlers/sweeper";
 
 // Export services
 export * from "./services/connection.service";
 export * from "./services/message.service";
 
+// Export protocol
+export * from "./protocol/messages";
+export * from "./protocol/events";
+
 // Export utilities
 export * from "./utils/lambda";
 export * from "./utils/websocket";
+export * from "./utils/generation-parameters";
 
 // Export config
 export * from "./config/config";
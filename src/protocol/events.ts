@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from "uuid";
+import { ApiGatewayManagementApiClient } from "@aws-sdk/client-apigatewaymanagementapi";
+import { sendMessageToClient } from "../utils/websocket";
+import {
+  PROTOCOL_VERSION,
+  OutboundEvent,
+  OutboundEventName,
+  OutboundEventDataMap,
+} from "./messages";
+
+// Longest client-supplied request id we echo back
+const MAX_REQUEST_ID_LENGTH = 128;
+
+/**
+ * Sends protocol events for one request, numbering them in order
+ */
+export interface EventSender {
+  readonly requestId?: string;
+  send<E extends OutboundEventName>(
+    event: E,
+    data: OutboundEventDataMap[E]
+  ): Promise<OutboundEvent<E>>;
+  /**
+   * Post an event built earlier, e.g. one replayed from storage, to this
+   * connection or another one of the same API
+   */
+  forward(outbound: OutboundEvent, connectionId?: string): Promise<void>;
+  /**
+   * A sender numbering events together with this one that hands them to
+   * deliver instead of posting them
+   */
+  withDelivery(
+    deliver: (outbound: OutboundEvent) => Promise<void>
+  ): EventSender;
+}
+
+/**
+ * Wrap an event payload in the protocol envelope
+ */
+export const createEvent = <E extends OutboundEventName>(
+  event: E,
+  data: OutboundEventDataMap[E],
+  requestId?: string,
+  sequence = 0
+): OutboundEvent<E> =>
+  ({
+    version: PROTOCOL_VERSION,
+    event,
+    requestId,
+    sequence,
+    data,
+  } as OutboundEvent<E>);
+
+/**
+ * Use the client's request id when it sent a usable one, otherwise make one up
+ * so every reply can still be correlated in logs
+ */
+export const resolveRequestId = (message: unknown): string => {
+  const requestId = (message as { requestId?: unknown } | null)?.requestId;
+
+  if (
+    typeof requestId === "string" &&
+    requestId.length > 0 &&
+    requestId.length <= MAX_REQUEST_ID_LENGTH
+  ) {
+    return requestId;
+  }
+
+  return uuidv4();
+};
+
+/**
+ * Create a sender that posts events for one request to a connection
+ * sequence is the number of the first event, for a request whose earlier
+ * events were sent by another sender
+ */
+export const createEventSender = (
+  apiGatewayClient: ApiGatewayManagementApiClient,
+  connectionId: string,
+  requestId?: string,
+  sequence = 0
+): EventSender => {
+  const forward = async (
+    outbound: OutboundEvent,
+    targetConnectionId = connectionId
+  ) => {
+    await sendMessageToClient(apiGatewayClient, targetConnectionId, outbound);
+  };
+
+  const withDelivery = (
+    deliver: (outbound: OutboundEvent) => Promise<void>
+  ): EventSender => ({
+    requestId,
+    send: async (event, data) => {
+      // Take the number before sending so concurrent sends stay distinct
+      const outbound = createEvent(event, data, requestId, sequence++);
+      await deliver(outbound as OutboundEvent);
+      return outbound;
+    },
+    forward,
+    withDelivery,
+  });
+
+  return withDelivery((outbound) => forward(outbound));
+};
@@ -0,0 +1,519 @@
+/**
+ * WebSocket message protocol
+ * Types for every inbound action and outbound event; schema.json describes
+ * the same shapes so clients can generate their own types from it
+ */
+
+import { GenerationParameters } from "../utils/generation-parameters";
+
+// Bump when a change would break existing clients
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Fields shared by every inbound request
+ */
+interface InboundEnvelope<A extends string> {
+  action: A;
+  // Protocol version the client was written against
+  version?: number;
+  // Client-chosen id echoed on every event sent in reply
+  requestId?: string;
+}
+
+export type EmptyData = Record<string, never>;
+
+export interface SendMessageRequest extends InboundEnvelope<"message"> {
+  data: {
+    message: string;
+    // Registry id of the model to answer with; the default model when absent
+    model?: string;
+    parameters?: Partial<GenerationParameters>;
+    sender?: string;
+    // Client-chosen id used to recognise retries of the same message
+    clientMessageId?: string;
+    // Don't stream <think> reasoning, only the answer
+    hideReasoning?: boolean;
+  };
+}
+
+export interface NewConversationRequest
+  extends InboundEnvelope<"new_conversation"> {
+  data?: EmptyData;
+}
+
+export interface ResumeConversationRequest
+  extends InboundEnvelope<"resume_conversation"> {
+  data: { conversationId: string };
+}
+
+export interface ListConversationsRequest
+  extends InboundEnvelope<"list_conversations"> {
+  data?: EmptyData;
+}
+
+export interface DeleteConversationRequest
+  extends InboundEnvelope<"delete_conversation"> {
+  data: { conversationId: string };
+}
+
+export interface SetSystemPromptRequest
+  extends InboundEnvelope<"set_system_prompt"> {
+  data?: { presetId?: string; systemPrompt?: string };
+}
+
+export interface StopGenerationRequest
+  extends InboundEnvelope<"stop_generation"> {
+  data?: EmptyData;
+}
+
+export interface ResumeGenerationRequest
+  extends InboundEnvelope<"resume_generation"> {
+  data: {
+    generationId: string;
+    // Sequence of the first event to send again; 0 replays everything
+    fromSequence?: number;
+  };
+}
+
+export interface RegenerateRequest extends InboundEnvelope<"regenerate"> {
+  data?: {
+    model?: string;
+    parameters?: Partial<GenerationParameters>;
+    clientMessageId?: string;
+    hideReasoning?: boolean;
+  };
+}
+
+export interface EditMessageRequest extends InboundEnvelope<"edit_message"> {
+  data: {
+    // Id of the user message to replace; the edit becomes a new branch
+    messageId: string;
+    message: string;
+    model?: string;
+    parameters?: Partial<GenerationParameters>;
+    clientMessageId?: string;
+    hideReasoning?: boolean;
+  };
+}
+
+export interface ListSiblingsRequest extends InboundEnvelope<"list_siblings"> {
+  data: { messageId: string };
+}
+
+export interface SwitchBranchRequest extends InboundEnvelope<"switch_branch"> {
+  // Any message of the branch to show; its latest continuation becomes active
+  data: { messageId: string };
+}
+
+export interface ForkRequest extends InboundEnvelope<"fork"> {
+  // The message to continue from; the next message becomes its reply
+  data: { messageId: string };
+}
+
+export interface ListModelsRequest extends InboundEnvelope<"list_models"> {
+  data?: EmptyData;
+}
+
+export interface CreateRoomRequest extends InboundEnvelope<"create_room"> {
+  data?: { name?: string };
+}
+
+export interface JoinRoomRequest extends InboundEnvelope<"join_room"> {
+  data: { roomId: string };
+}
+
+export interface LeaveRoomRequest extends InboundEnvelope<"leave_room"> {
+  data?: EmptyData;
+}
+
+export interface ListRoomMembersRequest
+  extends InboundEnvelope<"list_room_members"> {
+  data?: EmptyData;
+}
+
+export interface GetUsageRequest extends InboundEnvelope<"get_usage"> {
+  data?: EmptyData;
+}
+
+export interface LeaveQueueRequest extends InboundEnvelope<"leave_queue"> {
+  data?: EmptyData;
+}
+
+export type InboundMessage =
+  | SendMessageRequest
+  | NewConversationRequest
+  | ResumeConversationRequest
+  | ListConversationsRequest
+  | DeleteConversationRequest
+  | SetSystemPromptRequest
+  | StopGenerationRequest
+  | ResumeGenerationRequest
+  | RegenerateRequest
+  | EditMessageRequest
+  | ListSiblingsRequest
+  | SwitchBranchRequest
+  | ForkRequest
+  | ListModelsRequest
+  | CreateRoomRequest
+  | JoinRoomRequest
+  | LeaveRoomRequest
+  | ListRoomMembersRequest
+  | GetUsageRequest
+  | LeaveQueueRequest;
+
+export type InboundAction = InboundMessage["action"];
+
+/**
+ * A stored conversation turn as sent to clients
+ */
+export interface ConversationMessage {
+  id: string;
+  parentId: string | null;
+  role: "system" | "user" | "assistant";
+  content: string;
+  timestamp: number;
+  clientMessageId?: string;
+  // Model that wrote an assistant message
+  model?: string;
+  // Author of a user message in a shared room
+  userId?: string;
+  userEmail?: string;
+  // Number of alternatives of this message, itself included, and its position
+  // among them, oldest first
+  siblingCount: number;
+  siblingIndex: number;
+}
+
+export interface ConversationSummary {
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+  isActive: boolean;
+}
+
+/**
+ * A model as listed to clients
+ */
+export interface ModelSummary {
+  id: string;
+  name: string;
+  contextWindowTokens: number;
+  // Parameters used for anything a request doesn't set
+  defaultParameters: GenerationParameters;
+}
+
+/**
+ * A member of a shared room as listed to clients
+ */
+export interface RoomMemberSummary {
+  userId: string;
+  userEmail?: string;
+  joinedAt: number;
+  // Whether the member has a connection in the room right now
+  online: boolean;
+}
+
+/**
+ * Tokens a user spent with one model on one UTC day
+ */
+export interface UsageSummary {
+  // "YYYY-MM-DD"
+  day: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  generations: number;
+}
+
+export type ErrorCode =
+  | "invalid_message"
+  | "invalid_input"
+  | "invalid_system_prompt"
+  | "unknown_preset"
+  | "unknown_model"
+  | "unknown_action"
+  | "conversation_not_found"
+  | "conversation_changed"
+  | "conversation_full"
+  | "queue_timeout"
+  | "generation_in_progress"
+  | "generation_not_found"
+  | "room_not_found"
+  | "not_in_room"
+  | "not_available_in_room"
+  | "room_queue_full"
+  | "nothing_to_regenerate"
+  | "message_not_found"
+  | "invalid_message_id"
+  | "llm_error";
+
+/**
+ * Stable classification of a failed LLM request
+ */
+export type LLMErrorCode =
+  | "llm_unavailable"
+  | "llm_timeout"
+  | "llm_overloaded"
+  | "llm_invalid_request"
+  | "llm_cancelled"
+  | "llm_internal";
+
+// Limits a user can run into; see config/rate-limits.ts
+export type RateLimitName =
+  | "messages_per_minute"
+  | "prompt_characters_per_hour"
+  | "concurrent_generations"
+  | "daily_tokens"
+  | "monthly_tokens";
+
+export interface ErrorEventData {
+  code: ErrorCode;
+  message: string;
+  conversationId?: string;
+  clientMessageId?: string;
+  // Set on llm_error: what failed, and whether and when to retry
+  errorCode?: LLMErrorCode;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  availablePresets?: { id: string; name: string }[];
+  availableModels?: { id: string; name: string }[];
+  timestamp: number;
+}
+
+/**
+ * Payload of every outbound event, keyed by event name
+ */
+export interface OutboundEventDataMap {
+  connected: { connectionId: string; timestamp: number };
+  message_received: {
+    message: string;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  llm_response_chunk: {
+    text: string;
+    isComplete: boolean;
+    cancelled?: boolean;
+    // Position of the chunk in the generation, from 0; chunks are sent in order
+    index: number;
+    generationId: string;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  // <think> reasoning, streamed separately from the answer unless the request
+  // set hideReasoning; isComplete marks the end of a reasoning block
+  llm_reasoning_chunk: {
+    text: string;
+    isComplete: boolean;
+    // Position among the generation's reasoning chunks, from 0
+    index: number;
+    generationId: string;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  llm_response_complete: {
+    // The answer, without any reasoning
+    message: string;
+    sender: string;
+    conversationId: string;
+    isComplete: true;
+    cancelled: boolean;
+    generationId: string;
+    clientMessageId?: string;
+    // Set when this is the stored answer to a message that was already processed
+    replayed?: boolean;
+    // Stored answer and the message it replies to; absent when nothing was stored
+    messageId?: string;
+    parentMessageId?: string;
+    // Model and parameters the answer was generated with, after defaults
+    // and limits
+    model?: string;
+    parameters?: GenerationParameters;
+    // Size and duration of the reasoning, when the model reasoned
+    reasoning?: { tokens: number; durationMs: number };
+    // Tokens the generation used; estimated from characters when the backend
+    // doesn't count them
+    usage?: {
+      promptTokens: number;
+      completionTokens: number;
+      estimated: boolean;
+    };
+    timestamp: number;
+  };
+  // A retried message whose answer can't be replayed, usually because it is
+  // still being generated
+  duplicate_message: {
+    clientMessageId: string;
+    conversationId: string;
+    status: "processing" | "completed" | "failed";
+    generationId?: string;
+    timestamp: number;
+  };
+  conversation_started: { conversationId: string; timestamp: number };
+  conversation_resumed: {
+    conversationId: string;
+    title: string;
+    history: ConversationMessage[];
+    timestamp: number;
+  };
+  conversation_list: {
+    conversations: ConversationSummary[];
+    timestamp: number;
+  };
+  conversation_deleted: { conversationId: string; timestamp: number };
+  history_cleared: {
+    conversationId: string;
+    message: string;
+    timestamp: number;
+  };
+  system_prompt_updated: {
+    conversationId: string;
+    presetId: string | null;
+    systemPrompt: string;
+    isDefault: boolean;
+    timestamp: number;
+  };
+  sibling_list: {
+    conversationId: string;
+    messageId: string;
+    parentId: string | null;
+    siblings: ConversationMessage[];
+    // Position of the sibling on the active branch, if any
+    activeIndex: number | null;
+    timestamp: number;
+  };
+  branch_switched: {
+    conversationId: string;
+    activeLeafId: string | null;
+    history: ConversationMessage[];
+    timestamp: number;
+  };
+  model_list: {
+    models: ModelSummary[];
+    defaultModel: string;
+    timestamp: number;
+  };
+  // Every endpoint of the model is failing; sent instead of an llm_error
+  // without waiting on the backend
+  llm_unavailable: {
+    model: string;
+    message: string;
+    // When the backend will be tried again
+    retryAfterMs: number;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  // The request went over one of the user's rate limits and was not processed
+  rate_limited: {
+    limit: RateLimitName;
+    message: string;
+    // When the same request would be allowed, if nothing else is sent
+    retryAfterMs: number;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  generation_stop_requested: {
+    generationId: string | null;
+    stopping: boolean;
+    timestamp: number;
+  };
+  // The model server is busy and the generation waits for it; sent again
+  // whenever its place changes. Leaving the queue ends the generation as
+  // cancelled
+  queue_position: {
+    generationId: string;
+    // Place in the queue, from 1
+    position: number;
+    queueLength: number;
+    clientMessageId?: string;
+    timestamp: number;
+  };
+  queue_leave_requested: {
+    generationId: string | null;
+    // False when no generation was waiting, e.g. because it already started
+    leaving: boolean;
+    timestamp: number;
+  };
+  // Followed by the generation's own events from fromSequence on, with the
+  // requestId and sequence numbers they were first sent with
+  generation_resumed: {
+    generationId: string;
+    conversationId: string;
+    fromSequence: number;
+    // "streaming" when the rest of the answer follows live
+    status: "streaming" | "completed" | "failed";
+    timestamp: number;
+  };
+  room_created: {
+    roomId: string;
+    name: string;
+    conversationId: string;
+    timestamp: number;
+  };
+  room_joined: {
+    roomId: string;
+    name: string;
+    conversationId: string;
+    members: RoomMemberSummary[];
+    history: ConversationMessage[];
+    timestamp: number;
+  };
+  room_left: { roomId: string; timestamp: number };
+  room_member_list: {
+    roomId: string;
+    members: RoomMemberSummary[];
+    timestamp: number;
+  };
+  // A member's message, sent to everyone else in the room when its turn starts
+  room_message: {
+    roomId: string;
+    message: ConversationMessage;
+    timestamp: number;
+  };
+  // The room is answering another message; this one is answered after the
+  // messages ahead of it, under the same requestId
+  message_queued: {
+    roomId: string;
+    // Place in the queue, from 1
+    position: number;
+    clientMessageId?: string;
+    // The queue waits for the next message sent to the room
+    paused?: boolean;
+    timestamp: number;
+  };
+  // The user's token usage this UTC day and month, against their quotas
+  usage: {
+    // "YYYY-MM-DD" and "YYYY-MM"
+    day: string;
+    month: string;
+    dailyTokens: number;
+    monthlyTokens: number;
+    // 0 when there is no quota
+    dailyTokenQuota: number;
+    monthlyTokenQuota: number;
+    // This month's usage by day and model, oldest first
+    records: UsageSummary[];
+    timestamp: number;
+  };
+  error: ErrorEventData;
+}
+
+export type OutboundEventName = keyof OutboundEventDataMap;
+
+/**
+ * Envelope around every outbound event
+ * sequence counts up from 0 across the events sent for one request, so clients
+ * can order them and notice gaps
+ */
+export type OutboundEvent<E extends OutboundEventName = OutboundEventName> = {
+  [K in E]: {
+    version: typeof PROTOCOL_VERSION;
+    event: K;
+    // Absent on events that aren't a reply to a request, like "connected"
+    requestId?: string;
+    sequence: number;
+    data: OutboundEventDataMap[K];
+  };
+}[E];
@@ -0,0 +1,212 @@
+import schema from "./schema.json";
+import { PROTOCOL_VERSION } from "./messages";
+
+/**
+ * The subset of JSON Schema used by schema.json
+ */
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  oneOf?: JsonSchema[];
+}
+
+interface ProtocolSchema extends JsonSchema {
+  definitions: Record<string, JsonSchema>;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errorMessage?: string;
+}
+
+const protocolSchema = schema as ProtocolSchema;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Resolve a local "#/definitions/..." reference
+ */
+const resolveRef = (ref: string): JsonSchema => {
+  const name = ref.replace(/^#\/definitions\//, "");
+  const definition = protocolSchema.definitions[name];
+
+  if (!definition) {
+    throw new Error(`Unknown schema reference: ${ref}`);
+  }
+
+  return definition;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Validate a value against a schema
+ * @returns A description of the first problem found, or null when valid
+ */
+const validateValue = (
+  schema: JsonSchema,
+  value: unknown,
+  path: string
+): string | null => {
+  const label = path || "message";
+
+  if (schema.$ref) {
+    return validateValue(resolveRef(schema.$ref), value, path);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return `${label} must be ${types.join(" or ")}`;
+    }
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    return `${label} must be ${JSON.stringify(schema.const)}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${label} must be one of ${schema.enum
+      .map((option) => JSON.stringify(option))
+      .join(", ")}`;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${label} must be at least ${schema.minLength} characters`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${label} must be at most ${schema.maxLength} characters`;
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${label} must be at least ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${label} must be at most ${schema.maximum}`;
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        return `${joinPath(path, key)} is required`;
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        const error = validateValue(propertySchema, child, joinPath(path, key));
+        if (error) {
+          return error;
+        }
+      } else if (schema.additionalProperties === false) {
+        return `${joinPath(path, key)} is not allowed`;
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let index = 0; index < value.length; index++) {
+      const error = validateValue(
+        schema.items,
+        value[index],
+        joinPath(path, index)
+      );
+      if (error) {
+        return error;
+      }
+    }
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (option) => validateValue(option, value, path) === null
+    );
+    if (matches.length !== 1) {
+      return `${label} does not match exactly one allowed shape`;
+    }
+  }
+
+  return null;
+};
+
+// Inbound request schemas keyed by their action, so errors can name the field
+// at fault instead of reporting that no oneOf branch matched
+const inboundSchemas = new Map<string, JsonSchema>(
+  (protocolSchema.definitions.InboundMessage.oneOf || []).map((option) => {
+    const definition = option.$ref ? resolveRef(option.$ref) : option;
+    return [String(definition.properties?.action?.const), definition];
+  })
+);
+
+/**
+ * Validate an inbound WebSocket message against the protocol schema
+ * @param message - The parsed message body
+ */
+export const validateInboundMessage = (message: unknown): ValidationResult => {
+  if (!isPlainObject(message) || typeof message.action !== "string") {
+    return {
+      valid: false,
+      errorMessage: "Invalid message format: missing or invalid action",
+    };
+  }
+
+  if (
+    typeof message.version === "number" &&
+    message.version > PROTOCOL_VERSION
+  ) {
+    return {
+      valid: false,
+      errorMessage: `Unsupported protocol version ${message.version}; the server speaks version ${PROTOCOL_VERSION}`,
+    };
+  }
+
+  const requestSchema = inboundSchemas.get(message.action);
+  if (!requestSchema) {
+    return {
+      valid: false,
+      errorMessage: `Invalid message format: unknown action "${message.action}"`,
+    };
+  }
+
+  const error = validateValue(requestSchema, message, "");
+  if (error) {
+    return { valid: false, errorMessage: `Invalid message format: ${error}` };
+  }
+
+  return { valid: true };
+};
@@ -0,0 +1,145 @@
+import {
+  getConnectionsByUserId,
+  getConnectionsByRoomId,
+  getAllConnections,
+} from "./connection.service";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { isGoneError } from "../utils/websocket";
+import { config } from "../config/config";
+import { OutboundEvent } from "../protocol/messages";
+
+/**
+ * Fan-out of one event to many connections
+ *
+ * Sends run concurrently, at most config.webSocket.broadcastConcurrency at a
+ * time. A connection that turns out to be gone is cleaned up by
+ * sendMessageToClient and reported so callers can stop sending to it; other
+ * failures are counted but don't stop the rest of the broadcast.
+ */
+
+// Sends an event to one connection, e.g. EventSender.forward
+export type PostEvent = (
+  connectionId: string,
+  outbound: OutboundEvent
+) => Promise<void>;
+
+export interface BroadcastResult {
+  sent: number;
+  // Connections found closed; they have been removed from the table
+  gone: string[];
+  failed: number;
+}
+
+/**
+ * Send an event to every connection in connectionIds
+ */
+export const broadcastToConnections = async (
+  post: PostEvent,
+  connectionIds: string[],
+  outbound: OutboundEvent
+): Promise<BroadcastResult> => {
+  const result: BroadcastResult = { sent: 0, gone: [], failed: 0 };
+
+  await mapWithConcurrency(
+    connectionIds,
+    config.webSocket.broadcastConcurrency,
+    async (connectionId) => {
+      try {
+        await post(connectionId, outbound);
+        result.sent++;
+      } catch (error) {
+        if (isGoneError(error)) {
+          result.gone.push(connectionId);
+        } else {
+          result.failed++;
+        }
+      }
+    }
+  );
+
+  return result;
+};
+
+/**
+ * Send an event to every open connection of a user, e.g. all their tabs
+ */
+export const broadcastToUser = async (
+  post: PostEvent,
+  userId: string,
+  outbound: OutboundEvent,
+  excludeConnectionId?: string
+): Promise<BroadcastResult> => {
+  const connectionIds = (await getConnectionsByUserId(userId))
+    .map((connection) => connection.connectionId)
+    .filter((connectionId) => connectionId !== excludeConnectionId);
+  const result = await broadcastToConnections(post, connectionIds, outbound);
+
+  console.log({
+    event: "broadcast_completed",
+    target: "user",
+    userId,
+    eventName: outbound.event,
+    recipients: connectionIds.length,
+    sent: result.sent,
+    gone: result.gone.length,
+    failed: result.failed,
+    timestamp: Date.now(),
+  });
+
+  return result;
+};
+
+/**
+ * Send an event to every connection in a shared room
+ */
+export const broadcastToRoom = async (
+  post: PostEvent,
+  roomId: string,
+  outbound: OutboundEvent,
+  excludeConnectionId?: string
+): Promise<BroadcastResult> => {
+  const connectionIds = (await getConnectionsByRoomId(roomId))
+    .map((connection) => connection.connectionId)
+    .filter((connectionId) => connectionId !== excludeConnectionId);
+  const result = await broadcastToConnections(post, connectionIds, outbound);
+
+  console.log({
+    event: "broadcast_completed",
+    target: "room",
+    roomId,
+    eventName: outbound.event,
+    recipients: connectionIds.length,
+    sent: result.sent,
+    gone: result.gone.length,
+    failed: result.failed,
+    timestamp: Date.now(),
+  });
+
+  return result;
+};
+
+/**
+ * Send an event to every open connection, for notices from an administrator
+ */
+export const broadcastToAll = async (
+  post: PostEvent,
+  outbound: OutboundEvent
+): Promise<BroadcastResult> => {
+  const connectionIds = (await getAllConnections()).map(
+    (connection) => connection.connectionId
+  );
+  const result = await broadcastToConnections(post, connectionIds, outbound);
+
+  console.log({
+    event: "broadcast_completed",
+    target: "all",
+    eventName: outbound.event,
+    recipients: connectionIds.length,
+    sent: result.sent,
+    gone: result.gone.length,
+    failed: result.failed,
+    timestamp: Date.now(),
+  });
+
+  return result;
+};
@@ -5,51 +5,139 @@ import {
   GetCommand,
   DeleteCommand,
   UpdateCommand,
+  QueryCommand,
 } from "@aws-sdk/lib-dynamodb";
+import { v4 as uuidv4 } from "uuid";
 import { config } from "../config/config";
 
 export interface ChatMessage {
-  role: "user" | "assistant";
+  role: "system" | "user" | "assistant";
   content: string;
   timestamp: number;
+  // Client-supplied id of the message that produced this turn
+  clientMessageId?: string;
+  // Registry id of the model that wrote an assistant turn
+  model?: string;
+  // Author of a user turn in a shared room
+  userId?: string;
+  userEmail?: string;
+}
+
+/**
+ * A stored message
+ * Messages form a tree: replies to the same message are alternative branches
+ */
+export interface ChatMessageNode extends ChatMessage {
+  id: string;
+  // Message this one replies to; null for the first message
+  parentId: string | null;
+}
+
+/**
+ * A client message id seen on a conversation, used to deduplicate retries
+ */
+export interface ProcessedMessage {
+  status: "processing" | "completed" | "failed";
+  generationId?: string;
+  cancelled?: boolean;
+  processedAt: number;
 }
 
 export interface ChatSession {
-  connectionId: string;
+  conversationId: string;
   userId: string;
-  conversationHistory: ChatMessage[];
+  // Connection the conversation was started from
+  connectionId?: string;
+  // Room sharing the conversation; its members have access instead of userId
+  roomId?: string;
+  // Short title derived from the first user message
+  title?: string;
+  // Every message of the conversation, keyed by id
+  messages: Record<string, ChatMessageNode>;
+  // Last message of the branch being shown and continued
+  activeLeafId?: string;
+  // Persona for this conversation; the config default applies when unset
+  systemPrompt?: string;
+  // Preset the system prompt came from, if any
+  systemPromptPresetId?: string;
+  // Rolling summary of the oldest turns of a branch, used only to build prompts
+  summary?: string;
+  // Last message folded into the summary and its position in that branch
+  summaryThroughId?: string;
+  summarizedCount?: number;
+  // Recent client message ids and how far their processing got
+  processedMessages?: Record<string, ProcessedMessage>;
   createdAt: number;
   updatedAt: number;
   ttl?: number;
 }
 
+// Maximum title length derived from the first user message
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * A conversation too large to store another message
+ */
+export class ConversationFullError extends Error {
+  constructor(readonly conversationId: string) {
+    super(`Chat session ${conversationId} is too large to add messages`);
+    this.name = new.target.name;
+  }
+}
+
+// DynamoDB refuses a write that would take an item past 400KB
+const isItemTooLarge = (error: unknown) =>
+  (error as { name?: string }).name === "ValidationException" &&
+  /item size/i.test((error as Error).message);
+
 // Create DynamoDB clients
 const client = new DynamoDBClient({ region: config.region });
-const docClient = DynamoDBDocumentClient.from(client);
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
 
 /**
- * Create a new chat session for a connection
+ * Build a conversation title from the first user message
+ */
+const buildTitle = (content: string): string => {
+  const singleLine = content.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 3)}...`
+    : singleLine;
+};
+
+/**
+ * Whether a conversation is too large to take bytes more of messages
+ * The stored item is measured by its JSON, which is close to DynamoDB's count
+ */
+export const isChatSessionFull = (
+  chatSession: ChatSession,
+  bytes = 0
+): boolean =>
+  Buffer.byteLength(JSON.stringify(chatSession)) + bytes >
+  config.chatSessionMaxBytes;
+
+/**
+ * Create a new conversation owned by a user, or by a room when roomId is set
  */
 export const createChatSession = async (
-  connectionId: string,
-  userId: string
+  userId: string,
+  connectionId?: string,
+  roomId?: string,
+  conversationId: string = uuidv4()
 ): Promise<ChatSession> => {
   const timestamp = Date.now();
   const ttl = Math.floor(timestamp / 1000) + config.chatSessionTtl;
 
-  // First check if session already exists to prevent duplication
-  const existingSession = await getChatSession(connectionId);
-  if (existingSession) {
-    console.log(
-      `Chat session already exists for connection ${connectionId}, returning existing session`
-    );
-    return existingSession;
-  }
-
   const session: ChatSession = {
-    connectionId,
+    conversationId,
     userId,
-    conversationHistory: [],
+    connectionId,
+    roomId,
+    messages: {},
+    processedMessages: {},
     createdAt: timestamp,
     updatedAt: timestamp,
     ttl,
@@ -58,11 +146,15 @@ export const createChatSession = async (
   const params = {
     TableName: config.chatSessionsTable,
     Item: session,
+    // Never overwrite an existing conversation
+    ConditionExpression: "attribute_not_exists(conversationId)",
   };
 
   try {
     await docClient.send(new PutCommand(params));
-    console.log(`Chat session created for connection ${connectionId}`);
+    console.log(
+      `Chat session ${session.conversationId} created for user ${userId}`
+    );
     return session;
   } catch (error) {
     console.error("Error creating chat session:", error);
@@ -71,25 +163,29 @@ export const createChatSession = async (
 };
 
 /**
- * Get a chat session by connectionId
+ * Get a chat session by conversationId
  */
 export const getChatSession = async (
-  connectionId: string
+  conversationId: string
 ): Promise<ChatSession | null> => {
   const params = {
     TableName: config.chatSessionsTable,
     Key: {
-      connectionId,
+      conversationId,
     },
   };
 
   try {
-    console.log(`Getting chat session for connectionId: ${connectionId}`);
+    console.log(`Getting chat session for conversationId: ${conversationId}`);
     const { Item } = await docClient.send(new GetCommand(params));
     const found = Item ? true : false;
     console.log(
-      `Chat session ${found ? "found" : "not found"} for ${connectionId}`
+      `Chat session ${found ? "found" : "not found"} for ${conversationId}`
     );
+
+    if (Item && !Item.messages) {
+      return await migrateFlatHistory(Item as LegacyChatSession);
+    }
     return (Item as ChatSession) || null;
   } catch (error) {
     console.error("Error getting chat session:", error);
@@ -98,72 +194,367 @@ export const getChatSession = async (
 };
 
 /**
- * Add a message to the chat session history
+ * A session stored before messages became a tree
  */
-export const addMessageToChatSession = async (
-  connectionId: string,
-  message: ChatMessage
+type LegacyChatSession = Omit<ChatSession, "messages"> & {
+  conversationHistory?: ChatMessage[];
+};
+
+/**
+ * Turn the flat history of an older session into a single branch
+ */
+const migrateFlatHistory = async (
+  legacySession: LegacyChatSession
 ): Promise<ChatSession | null> => {
+  const { conversationHistory = [], ...session } = legacySession;
+  const nodes: ChatMessageNode[] = [];
+
+  for (const message of conversationHistory) {
+    nodes.push({
+      ...message,
+      id: uuidv4(),
+      parentId: nodes.length > 0 ? nodes[nodes.length - 1].id : null,
+    });
+  }
+
+  const activeLeafId = nodes.length > 0 ? nodes[nodes.length - 1].id : null;
+  const summaryThroughId =
+    session.summarizedCount && nodes[session.summarizedCount - 1]
+      ? nodes[session.summarizedCount - 1].id
+      : null;
+
   try {
-    // First, check if the session exists
-    let session = await getChatSession(connectionId);
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId: session.conversationId,
+        },
+        UpdateExpression: [
+          "SET messages = :messages",
+          activeLeafId ? ", activeLeafId = :activeLeafId" : "",
+          summaryThroughId ? ", summaryThroughId = :summaryThroughId" : "",
+          " REMOVE conversationHistory",
+        ].join(""),
+        ConditionExpression: "attribute_not_exists(messages)",
+        ExpressionAttributeValues: {
+          ":messages": Object.fromEntries(nodes.map((node) => [node.id, node])),
+          ...(activeLeafId ? { ":activeLeafId": activeLeafId } : {}),
+          ...(summaryThroughId
+            ? { ":summaryThroughId": summaryThroughId }
+            : {}),
+        },
+        ReturnValues: "ALL_NEW" as const,
+      })
+    );
+    console.log(
+      `Migrated ${nodes.length} messages of ${session.conversationId} to a message tree`
+    );
+    return result.Attributes as ChatSession;
+  } catch (error) {
+    // Another invocation migrated it first
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return await getChatSession(session.conversationId);
+    }
+    throw error;
+  }
+};
 
-    // If session doesn't exist, we can't add a message
-    // The caller should handle this by creating a session first
-    if (!session) {
+/**
+ * Messages from the first message of the conversation down to messageId
+ */
+export const getPathTo = (
+  chatSession: ChatSession,
+  messageId: string | null
+): ChatMessageNode[] => {
+  const messages = chatSession.messages || {};
+  const path: ChatMessageNode[] = [];
+
+  let current = messageId ? messages[messageId] : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? messages[current.parentId] : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * Messages of the branch that is currently shown, first message first
+ */
+export const getActivePath = (chatSession: ChatSession): ChatMessageNode[] =>
+  getPathTo(chatSession, chatSession.activeLeafId || null);
+
+/**
+ * Replies to a message, oldest first; a null parentId gives the first messages
+ */
+export const getChildren = (
+  chatSession: ChatSession,
+  parentId: string | null
+): ChatMessageNode[] =>
+  Object.values(chatSession.messages || {})
+    .filter((message) => message.parentId === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * All alternatives of a message, including the message itself, oldest first
+ */
+export const getSiblings = (
+  chatSession: ChatSession,
+  messageId: string
+): ChatMessageNode[] => {
+  const message = chatSession.messages?.[messageId];
+  return message ? getChildren(chatSession, message.parentId) : [];
+};
+
+/**
+ * Follow the most recent reply from a message down to the end of its branch
+ */
+export const findLatestLeaf = (
+  chatSession: ChatSession,
+  messageId: string
+): string => {
+  let leafId = messageId;
+
+  for (;;) {
+    const children = getChildren(chatSession, leafId);
+    if (children.length === 0) {
+      return leafId;
+    }
+    leafId = children[children.length - 1].id;
+  }
+};
+
+/**
+ * The stored summary if it was made from the start of the given path
+ * A summary of another branch doesn't describe this one and is ignored
+ */
+export const getSummaryForPath = (
+  chatSession: ChatSession,
+  path: ChatMessageNode[]
+): { summary?: string; summarizedCount: number } => {
+  const summarizedCount = chatSession.summarizedCount || 0;
+
+  if (
+    chatSession.summary &&
+    summarizedCount > 0 &&
+    path[summarizedCount - 1]?.id === chatSession.summaryThroughId
+  ) {
+    return { summary: chatSession.summary, summarizedCount };
+  }
+
+  return { summarizedCount: 0 };
+};
+
+/**
+ * Get all chat sessions owned by a user, most recently updated first
+ */
+export const getChatSessionsByUserId = async (
+  userId: string
+): Promise<ChatSession[]> => {
+  try {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: config.chatSessionsTable,
+        IndexName: "UserIdIndex",
+        KeyConditionExpression: "userId = :userId",
+        ExpressionAttributeValues: {
+          ":userId": userId,
+        },
+        ScanIndexForward: false,
+      })
+    );
+
+    return (result.Items as ChatSession[]) || [];
+  } catch (error) {
+    console.error(`Error retrieving chat sessions for user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add a message to a conversation as a reply to parentId and make it the
+ * active leaf
+ * Only applies while the active leaf is still expectedLeafId, so a reply
+ * can't silently land on a branch the client isn't looking at
+ * @returns The stored message, or null if the conversation doesn't exist or
+ * its active leaf has moved
+ */
+export const addMessageToChatSession = async (
+  conversationId: string,
+  message: ChatMessage,
+  parentId: string | null,
+  expectedLeafId: string | null = parentId
+): Promise<ChatMessageNode | null> => {
+  const node: ChatMessageNode = { ...message, id: uuidv4(), parentId };
+
+  const params = {
+    TableName: config.chatSessionsTable,
+    Key: {
+      conversationId,
+    },
+    // The first user message also names the conversation
+    UpdateExpression:
+      message.role === "user"
+        ? "SET messages.#id = :node, activeLeafId = :id, updatedAt = :updatedAt, title = if_not_exists(title, :title)"
+        : "SET messages.#id = :node, activeLeafId = :id, updatedAt = :updatedAt",
+    ConditionExpression: expectedLeafId
+      ? "activeLeafId = :expectedLeafId"
+      : "attribute_exists(messages) AND attribute_not_exists(activeLeafId)",
+    ExpressionAttributeNames: {
+      "#id": node.id,
+    },
+    ExpressionAttributeValues: {
+      ":node": node,
+      ":id": node.id,
+      ":updatedAt": Date.now(),
+      ...(expectedLeafId ? { ":expectedLeafId": expectedLeafId } : {}),
+      ...(message.role === "user"
+        ? { ":title": buildTitle(message.content) }
+        : {}),
+    },
+  };
+
+  try {
+    console.log(`Updating chat session with new message for ${conversationId}`);
+    await docClient.send(new UpdateCommand(params));
+    console.log(`Message ${node.id} added to chat session ${conversationId}`);
+    return node;
+  } catch (error) {
+    // The caller decides whether to create a session or report the conflict
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
       console.log(
-        `Chat session not found for ${connectionId}, cannot add message`
+        `Chat session ${conversationId} is missing or moved on, message not added`
       );
       return null;
     }
-
-    // Make sure conversationHistory is initialized
-    if (!session.conversationHistory) {
-      session.conversationHistory = [];
+    if (isItemTooLarge(error)) {
+      throw new ConversationFullError(conversationId);
     }
+    console.error("Error adding message to chat session:", error);
+    throw error;
+  }
+};
 
-    const updatedSession = {
-      ...session,
-      conversationHistory: [...session.conversationHistory, message],
-      updatedAt: Date.now(),
-    };
-
-    const params = {
-      TableName: config.chatSessionsTable,
-      Key: {
-        connectionId,
-      },
-      UpdateExpression:
-        "SET conversationHistory = :history, updatedAt = :updatedAt",
-      ExpressionAttributeValues: {
-        ":history": updatedSession.conversationHistory,
-        ":updatedAt": updatedSession.updatedAt,
-      },
-      ReturnValues: "ALL_NEW" as const,
-    };
+/**
+ * Add a message to a conversation as a reply to parentId without changing
+ * which branch is active
+ * @returns The stored message, or null if the conversation doesn't exist
+ */
+export const addBranchMessageToChatSession = async (
+  conversationId: string,
+  message: ChatMessage,
+  parentId: string | null
+): Promise<ChatMessageNode | null> => {
+  const node: ChatMessageNode = { ...message, id: uuidv4(), parentId };
 
-    console.log(`Updating chat session with new message for ${connectionId}`);
-    const result = await docClient.send(new UpdateCommand(params));
-    console.log(`Message added to chat session ${connectionId}`);
-    return result.Attributes as ChatSession;
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: "SET messages.#id = :node, updatedAt = :updatedAt",
+        // Never create a session as a side effect of adding a message
+        ConditionExpression: "attribute_exists(messages)",
+        ExpressionAttributeNames: {
+          "#id": node.id,
+        },
+        ExpressionAttributeValues: {
+          ":node": node,
+          ":updatedAt": Date.now(),
+        },
+      })
+    );
+    console.log(
+      `Message ${node.id} added to chat session ${conversationId} as an inactive branch`
+    );
+    return node;
   } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      console.log(
+        `Chat session not found for ${conversationId}, cannot add message`
+      );
+      return null;
+    }
+    if (isItemTooLarge(error)) {
+      throw new ConversationFullError(conversationId);
+    }
     console.error("Error adding message to chat session:", error);
     throw error;
   }
 };
 
+/**
+ * Point the conversation at another branch by moving its active leaf
+ * When expectedLeafId is given (null meaning no leaf yet), the move only
+ * happens if the active leaf hasn't changed since it was read
+ * @returns false if the leaf doesn't exist or the expectation didn't hold
+ */
+export const setActiveLeaf = async (
+  conversationId: string,
+  leafId: string,
+  expectedLeafId?: string | null
+): Promise<boolean> => {
+  const expectation =
+    expectedLeafId === undefined
+      ? ""
+      : expectedLeafId === null
+      ? " AND attribute_not_exists(activeLeafId)"
+      : " AND activeLeafId = :expectedLeafId";
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: "SET activeLeafId = :leafId, updatedAt = :updatedAt",
+        ConditionExpression: `attribute_exists(messages.#leafId)${expectation}`,
+        ExpressionAttributeNames: {
+          "#leafId": leafId,
+        },
+        ExpressionAttributeValues: {
+          ":leafId": leafId,
+          ":updatedAt": Date.now(),
+          ...(expectedLeafId ? { ":expectedLeafId": expectedLeafId } : {}),
+        },
+      })
+    );
+    console.log(`Active leaf of ${conversationId} moved to ${leafId}`);
+    return true;
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      console.log(`Could not move active leaf of ${conversationId}`);
+      return false;
+    }
+    console.error("Error setting active leaf:", error);
+    throw error;
+  }
+};
+
 /**
  * Clear the conversation history for a chat session
  */
 export const clearChatSessionHistory = async (
-  connectionId: string
+  conversationId: string
 ): Promise<void> => {
   try {
     // First check if the session exists
-    const session = await getChatSession(connectionId);
+    const session = await getChatSession(conversationId);
     if (!session) {
       console.log(
-        `Chat session not found for ${connectionId}, cannot clear history`
+        `Chat session not found for ${conversationId}, cannot clear history`
       );
       return;
     }
@@ -171,42 +562,362 @@ export const clearChatSessionHistory = async (
     const params = {
       TableName: config.chatSessionsTable,
       Key: {
-        connectionId,
+        conversationId,
       },
       UpdateExpression:
-        "SET conversationHistory = :empty, updatedAt = :updatedAt",
+        "SET messages = :empty, updatedAt = :updatedAt REMOVE activeLeafId, summary, summaryThroughId, summarizedCount",
       ExpressionAttributeValues: {
-        ":empty": [],
+        ":empty": {},
         ":updatedAt": Date.now(),
       },
     };
 
     await docClient.send(new UpdateCommand(params));
-    console.log(`Cleared chat history for connection ${connectionId}`);
+    console.log(`Cleared chat history for conversation ${conversationId}`);
   } catch (error) {
     console.error("Error clearing chat session history:", error);
     throw error;
   }
 };
 
+/**
+ * Set or reset the system prompt (persona) of a chat session
+ * Passing a null systemPrompt restores the config default
+ */
+export const updateChatSessionSystemPrompt = async (
+  conversationId: string,
+  systemPrompt: string | null,
+  presetId: string | null
+): Promise<void> => {
+  const params = systemPrompt
+    ? {
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: presetId
+          ? "SET systemPrompt = :systemPrompt, systemPromptPresetId = :presetId, updatedAt = :updatedAt"
+          : "SET systemPrompt = :systemPrompt, updatedAt = :updatedAt REMOVE systemPromptPresetId",
+        ExpressionAttributeValues: {
+          ":systemPrompt": systemPrompt,
+          ":updatedAt": Date.now(),
+          ...(presetId ? { ":presetId": presetId } : {}),
+        },
+      }
+    : {
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression:
+          "SET updatedAt = :updatedAt REMOVE systemPrompt, systemPromptPresetId",
+        ExpressionAttributeValues: {
+          ":updatedAt": Date.now(),
+        },
+      };
+
+  try {
+    await docClient.send(new UpdateCommand(params));
+    console.log(`System prompt updated for conversation ${conversationId}`);
+  } catch (error) {
+    console.error("Error updating chat session system prompt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Store the rolling summary for a chat session
+ * Only applies if the summary is still the one previousThroughId was read
+ * from, so two invocations summarizing concurrently can't overwrite each other
+ * with an older summary
+ */
+export const updateChatSessionSummary = async (
+  conversationId: string,
+  summary: string,
+  summaryThroughId: string,
+  summarizedCount: number,
+  previousThroughId?: string
+): Promise<void> => {
+  const params = {
+    TableName: config.chatSessionsTable,
+    Key: {
+      conversationId,
+    },
+    UpdateExpression:
+      "SET summary = :summary, summaryThroughId = :summaryThroughId, summarizedCount = :summarizedCount",
+    ConditionExpression: previousThroughId
+      ? "summaryThroughId = :previousThroughId"
+      : "attribute_exists(messages) AND attribute_not_exists(summaryThroughId)",
+    ExpressionAttributeValues: {
+      ":summary": summary,
+      ":summaryThroughId": summaryThroughId,
+      ":summarizedCount": summarizedCount,
+      ...(previousThroughId ? { ":previousThroughId": previousThroughId } : {}),
+    },
+  };
+
+  try {
+    await docClient.send(new UpdateCommand(params));
+    console.log(
+      `Summary updated for conversation ${conversationId} (${summarizedCount} messages)`
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      console.log(
+        `Summary of conversation ${conversationId} changed before it could be updated`
+      );
+      return;
+    }
+    console.error("Error updating chat session summary:", error);
+    throw error;
+  }
+};
+
 /**
  * Delete a chat session
  */
 export const deleteChatSession = async (
-  connectionId: string
+  conversationId: string
 ): Promise<void> => {
   const params = {
     TableName: config.chatSessionsTable,
     Key: {
-      connectionId,
+      conversationId,
     },
   };
 
   try {
     await docClient.send(new DeleteCommand(params));
-    console.log(`Chat session ${connectionId} deleted`);
+    console.log(`Chat session ${conversationId} deleted`);
   } catch (error) {
     console.error("Error deleting chat session:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Record that a client message id is being processed on a conversation
+ * The conditional write makes this safe against a redelivered message being
+ * handled by two invocations at once
+ * @returns false when the id was already recorded
+ */
+export const claimClientMessage = async (
+  chatSession: ChatSession,
+  clientMessageId: string
+): Promise<boolean> => {
+  const { conversationId } = chatSession;
+  const record: ProcessedMessage = {
+    status: "processing",
+    processedAt: Date.now(),
+  };
+
+  // Sessions created before ids were tracked get the map on their first claim
+  if (!chatSession.processedMessages) {
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: config.chatSessionsTable,
+          Key: {
+            conversationId,
+          },
+          UpdateExpression: "SET processedMessages = :processedMessages",
+          ConditionExpression:
+            "attribute_exists(conversationId) AND attribute_not_exists(processedMessages)",
+          ExpressionAttributeValues: {
+            ":processedMessages": { [clientMessageId]: record },
+          },
+        })
+      );
+      return true;
+    } catch (error) {
+      if (
+        (error as { name?: string }).name !== "ConditionalCheckFailedException"
+      ) {
+        console.error("Error claiming client message:", error);
+        throw error;
+      }
+
+      // Another invocation created the map first; claim against it instead
+      const latest = await getChatSession(conversationId);
+      if (!latest?.processedMessages) {
+        throw new Error(`Chat session ${conversationId} not found`);
+      }
+      return claimClientMessage(latest, clientMessageId);
+    }
+  }
+
+  // Forget the oldest ids so the map stays bounded
+  const knownIds = Object.entries(chatSession.processedMessages)
+    .sort(([, a], [, b]) => a.processedAt - b.processedAt)
+    .map(([id]) => id);
+  const staleIds = knownIds.slice(
+    0,
+    Math.max(0, knownIds.length - config.processedMessageIdLimit + 1)
+  );
+  const staleNames = Object.fromEntries(
+    staleIds.map((id, index) => [`#stale${index}`, id])
+  );
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: [
+          "SET processedMessages.#clientMessageId = :record",
+          ...(staleIds.length > 0
+            ? [
+                `REMOVE ${Object.keys(staleNames)
+                  .map((name) => `processedMessages.${name}`)
+                  .join(", ")}`,
+              ]
+            : []),
+        ].join(" "),
+        ConditionExpression:
+          "attribute_exists(conversationId) AND attribute_not_exists(processedMessages.#clientMessageId)",
+        ExpressionAttributeNames: {
+          "#clientMessageId": clientMessageId,
+          ...staleNames,
+        },
+        ExpressionAttributeValues: {
+          ":record": record,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      console.log(
+        `Client message ${clientMessageId} already processed for ${conversationId}`
+      );
+      return false;
+    }
+    console.error("Error claiming client message:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mark a claimed client message id as answered by a generation
+ */
+export const completeClientMessage = async (
+  conversationId: string,
+  clientMessageId: string,
+  generationId: string,
+  cancelled: boolean
+): Promise<void> => {
+  const record: ProcessedMessage = {
+    status: "completed",
+    generationId,
+    cancelled,
+    processedAt: Date.now(),
+  };
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: "SET processedMessages.#clientMessageId = :record",
+        // The conversation may have been deleted while the answer streamed
+        ConditionExpression: "attribute_exists(processedMessages)",
+        ExpressionAttributeNames: {
+          "#clientMessageId": clientMessageId,
+        },
+        ExpressionAttributeValues: {
+          ":record": record,
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return;
+    }
+    console.error("Error completing client message:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mark a claimed client message id as failed after its user turn was stored
+ * Keeps the id claimed so a retry doesn't store the turn a second time
+ */
+export const failClientMessage = async (
+  conversationId: string,
+  clientMessageId: string
+): Promise<void> => {
+  const record: ProcessedMessage = {
+    status: "failed",
+    processedAt: Date.now(),
+  };
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: "SET processedMessages.#clientMessageId = :record",
+        ConditionExpression: "attribute_exists(processedMessages)",
+        ExpressionAttributeNames: {
+          "#clientMessageId": clientMessageId,
+        },
+        ExpressionAttributeValues: {
+          ":record": record,
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return;
+    }
+    console.error("Error failing client message:", error);
+    throw error;
+  }
+};
+
+/**
+ * Forget a claimed client message id so a retry is processed again
+ * Used when processing failed before the user turn was stored
+ */
+export const releaseClientMessage = async (
+  conversationId: string,
+  clientMessageId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.chatSessionsTable,
+        Key: {
+          conversationId,
+        },
+        UpdateExpression: "REMOVE processedMessages.#clientMessageId",
+        ConditionExpression: "attribute_exists(processedMessages)",
+        ExpressionAttributeNames: {
+          "#clientMessageId": clientMessageId,
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return;
+    }
+    console.error("Error releasing client message:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * Per-endpoint circuit breakers for LLM backends
+ *
+ * A breaker starts closed. After failureThreshold consecutive failures it
+ * opens and requests to the endpoint fail fast. Once openDurationMs has passed
+ * it goes half-open and lets a single trial request through: success closes
+ * it, failure opens it again.
+ *
+ * State lives in the Lambda container, like the gRPC clients, so each warm
+ * container trips its own breaker.
+ */
+import { config } from "../config/config";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface CircuitBreaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When the breaker last opened
+  openedAt: number;
+  // When the current half-open trial request started, 0 if none is running
+  trialStartedAt: number;
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+const getBreaker = (endpoint: string): CircuitBreaker => {
+  let breaker = breakers.get(endpoint);
+  if (!breaker) {
+    breaker = {
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: 0,
+      trialStartedAt: 0,
+    };
+    breakers.set(endpoint, breaker);
+  }
+  return breaker;
+};
+
+const setState = (
+  endpoint: string,
+  breaker: CircuitBreaker,
+  state: CircuitState
+): void => {
+  if (breaker.state === state) {
+    return;
+  }
+
+  const previousState = breaker.state;
+  breaker.state = state;
+
+  // Alarms key off this event, so every transition is logged
+  console.log({
+    event: "circuit_breaker_state_change",
+    endpoint,
+    previousState,
+    state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    timestamp: Date.now(),
+  });
+};
+
+/**
+ * Current state of an endpoint's breaker
+ */
+export const getCircuitState = (endpoint: string): CircuitState =>
+  getBreaker(endpoint).state;
+
+/**
+ * How long until an open breaker lets a trial request through; 0 if it would
+ * let one through now
+ */
+export const getRetryAfterMs = (endpoint: string): number => {
+  const breaker = getBreaker(endpoint);
+  if (breaker.state === "closed") {
+    return 0;
+  }
+
+  const { openDurationMs } = config.llm.circuitBreaker;
+  const since =
+    breaker.state === "open" ? breaker.openedAt : breaker.trialStartedAt;
+  return Math.max(0, since + openDurationMs - Date.now());
+};
+
+/**
+ * Whether a request may be sent to an endpoint
+ * Moves an open breaker to half-open once it has waited long enough and
+ * claims the trial slot for the caller
+ */
+export const tryAcquire = (endpoint: string): boolean => {
+  const breaker = getBreaker(endpoint);
+  const now = Date.now();
+  const { openDurationMs } = config.llm.circuitBreaker;
+
+  if (breaker.state === "closed") {
+    return true;
+  }
+
+  if (breaker.state === "open") {
+    if (now - breaker.openedAt < openDurationMs) {
+      return false;
+    }
+    setState(endpoint, breaker, "half_open");
+  }
+
+  // One trial at a time; a trial that never reported back (e.g. its
+  // invocation timed out) frees the slot after another open period
+  if (breaker.trialStartedAt && now - breaker.trialStartedAt < openDurationMs) {
+    return false;
+  }
+
+  breaker.trialStartedAt = now;
+  return true;
+};
+
+/**
+ * Record a request the endpoint answered
+ */
+export const recordSuccess = (endpoint: string): void => {
+  const breaker = getBreaker(endpoint);
+  breaker.consecutiveFailures = 0;
+  breaker.trialStartedAt = 0;
+  setState(endpoint, breaker, "closed");
+};
+
+/**
+ * Record a request the endpoint failed, opening the breaker when the
+ * threshold is reached or a half-open trial fails
+ */
+export const recordFailure = (endpoint: string): void => {
+  const breaker = getBreaker(endpoint);
+  breaker.consecutiveFailures++;
+  breaker.trialStartedAt = 0;
+
+  console.log({
+    event: "circuit_breaker_failure",
+    endpoint,
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    timestamp: Date.now(),
+  });
+
+  if (
+    breaker.state === "half_open" ||
+    breaker.consecutiveFailures >= config.llm.circuitBreaker.failureThreshold
+  ) {
+    breaker.openedAt = Date.now();
+    setState(endpoint, breaker, "open");
+  }
+};
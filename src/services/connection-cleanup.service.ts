@@ -0,0 +1,52 @@
+import { getConnection, deleteConnection } from "./connection.service";
+import { markGenerationStreamDetached } from "./generation-stream.service";
+import { removeRoomConnection } from "./room.service";
+
+// What told us the connection is gone
+export type ConnectionCleanupReason = "disconnect" | "gone" | "sweep";
+
+/**
+ * Forget a connection that has closed
+ * Its record is deleted and a generation streaming to it is marked detached,
+ * so it stops unless the client resumes it in time. A room it was in loses
+ * the user as a member unless another of their connections is still in it,
+ * as with leave_room. The chat session belongs
+ * to the user, not the connection, so it is kept for resume_conversation and
+ * expires through its TTL.
+ */
+export const cleanupConnection = async (
+  connectionId: string,
+  reason: ConnectionCleanupReason
+): Promise<void> => {
+  const connection = await getConnection(connectionId);
+
+  await deleteConnection(connectionId);
+
+  if (connection?.activeGenerationId) {
+    await markGenerationStreamDetached(
+      connection.activeGenerationId,
+      connectionId
+    );
+  }
+
+  if (connection?.roomId && connection.userId) {
+    await removeRoomConnection(
+      connection.roomId,
+      connection.userId,
+      connectionId
+    );
+  }
+
+  console.log({
+    event: "connection_gone",
+    connectionId,
+    reason,
+    // False when the record was already removed, e.g. by $disconnect
+    recordFound: !!connection,
+    userId: connection?.userId,
+    conversationId: connection?.conversationId,
+    roomId: connection?.roomId,
+    activeGenerationId: connection?.activeGenerationId,
+    timestamp: Date.now(),
+  });
+};
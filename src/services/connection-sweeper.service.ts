@@ -0,0 +1,77 @@
+import { ApiGatewayManagementApiClient } from "@aws-sdk/client-apigatewaymanagementapi";
+import { getAllConnections } from "./connection.service";
+import { cleanupConnection } from "./connection-cleanup.service";
+import {
+  createApiGatewayClient,
+  getWebSocketEndpoint,
+  isConnectionOpen,
+} from "../utils/websocket";
+import { config } from "../config/config";
+
+export interface SweepResult {
+  checked: number;
+  removed: number;
+  // Connections that couldn't be checked; they are tried again next sweep
+  failed: number;
+}
+
+/**
+ * Remove stored connections whose socket is gone
+ * A $disconnect event can be missed, leaving a record no message will ever
+ * reach; each stored connection is checked with the Management API. A record
+ * with no domainName, left by an update racing the disconnect, is removed.
+ */
+export const sweepStaleConnections = async (): Promise<SweepResult> => {
+  const startedAt = Date.now();
+  const connections = await getAllConnections();
+  // One client per API endpoint the connections came in through
+  const clients = new Map<string, ApiGatewayManagementApiClient>();
+  const result: SweepResult = { checked: 0, removed: 0, failed: 0 };
+
+  for (const connection of connections) {
+    const { connectionId } = connection;
+    const { domainName } = connection;
+    // Without an endpoint the connection can't be probed, nor reached by any
+    // message, so its record is of no use
+    if (!domainName) {
+      try {
+        await cleanupConnection(connectionId, "sweep");
+        result.removed++;
+      } catch (error) {
+        result.failed++;
+        console.error(`Error removing connection ${connectionId}:`, error);
+      }
+      continue;
+    }
+
+    const stage = connection.stage || config.webSocket.defaultStage;
+    const clientKey = `${domainName}/${stage}`;
+    let apiGatewayClient = clients.get(clientKey);
+    if (!apiGatewayClient) {
+      apiGatewayClient = createApiGatewayClient(
+        getWebSocketEndpoint(domainName, stage, config.webSocket.apiId)
+      );
+      clients.set(clientKey, apiGatewayClient);
+    }
+
+    try {
+      result.checked++;
+      if (!(await isConnectionOpen(apiGatewayClient, connectionId))) {
+        await cleanupConnection(connectionId, "sweep");
+        result.removed++;
+      }
+    } catch (error) {
+      result.failed++;
+      console.error(`Error checking connection ${connectionId}:`, error);
+    }
+  }
+
+  console.log({
+    event: "connection_sweep_completed",
+    ...result,
+    durationMs: Date.now() - startedAt,
+    timestamp: Date.now(),
+  });
+
+  return result;
+};
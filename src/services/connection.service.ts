@@ -5,6 +5,8 @@ import {
   GetCommand,
   DeleteCommand,
   QueryCommand,
+  ScanCommand,
+  UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
 import { config } from "../config/config";
 
@@ -15,9 +17,19 @@ export interface Connection {
   stage?: string;
   userId?: string;
   userEmail?: string;
+  // Cognito groups of the user, used to decide which models they may use
+  userGroups?: string[];
   ttl?: number;
   isAuthenticated?: boolean;
   origin?: string;
+  // Conversation this connection is currently attached to
+  conversationId?: string;
+  // Shared room the connection has joined; its conversation is the room's
+  roomId?: string;
+  // Generation currently streaming to this connection, if any
+  activeGenerationId?: string;
+  // Set by stop_generation; polled by the invocation running the stream
+  cancelRequestedAt?: number;
 }
 
 // Create DynamoDB client with standard configuration
@@ -33,6 +45,11 @@ const docClient = DynamoDBDocumentClient.from(client, {
   }
 });
 
+// An update conditional on the connection's record failed because the client
+// disconnected and the record was deleted; updates must not recreate it
+const isConnectionGone = (error: unknown) =>
+  (error as { name?: string }).name === "ConditionalCheckFailedException";
+
 /**
  * Add a new WebSocket connection to DynamoDB
  */
@@ -125,4 +142,271 @@ export const getConnectionsByUserId = async (
     console.error(`Error retrieving connections for user ${userId}:`, error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get all connections that have joined a room
+ */
+export const getConnectionsByRoomId = async (
+  roomId: string
+): Promise<Connection[]> => {
+  try {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: config.connectionsTable,
+        IndexName: "RoomIdIndex",
+        KeyConditionExpression: "roomId = :roomId",
+        ExpressionAttributeValues: {
+          ":roomId": roomId,
+        },
+      })
+    );
+
+    return (result.Items || []) as Connection[];
+  } catch (error) {
+    console.error(`Error retrieving connections for room ${roomId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Get every stored connection, reading the table a page at a time
+ */
+export const getAllConnections = async (): Promise<Connection[]> => {
+  const connections: Connection[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  try {
+    do {
+      const result = await docClient.send(
+        new ScanCommand({
+          TableName: config.connectionsTable,
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      connections.push(...((result.Items || []) as Connection[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  } catch (error) {
+    console.error("Error scanning connections:", error);
+    throw error;
+  }
+
+  return connections;
+};
+
+/**
+ * Attach a connection to a conversation, or detach it when conversationId is null
+ * Either way the connection leaves any room it had joined
+ * Does nothing once the connection is gone
+ */
+export const setConnectionConversation = async (
+  connectionId: string,
+  conversationId: string | null
+): Promise<void> => {
+  const params = conversationId
+    ? {
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression: "SET conversationId = :conversationId REMOVE roomId",
+        ConditionExpression: "attribute_exists(connectionId)",
+        ExpressionAttributeValues: {
+          ":conversationId": conversationId,
+        },
+      }
+    : {
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression: "REMOVE conversationId, roomId",
+        ConditionExpression: "attribute_exists(connectionId)",
+      };
+
+  try {
+    await docClient.send(new UpdateCommand(params));
+  } catch (error) {
+    if (isConnectionGone(error)) {
+      return;
+    }
+    console.error(
+      `Error setting conversation for connection ${connectionId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Attach a connection to a room and its conversation, or detach it from both
+ * when room is null
+ * Does nothing once the connection is gone
+ */
+export const setConnectionRoom = async (
+  connectionId: string,
+  room: { roomId: string; conversationId: string } | null
+): Promise<void> => {
+  const params = room
+    ? {
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression:
+          "SET roomId = :roomId, conversationId = :conversationId",
+        ConditionExpression: "attribute_exists(connectionId)",
+        ExpressionAttributeValues: {
+          ":roomId": room.roomId,
+          ":conversationId": room.conversationId,
+        },
+      }
+    : {
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression: "REMOVE roomId, conversationId",
+        ConditionExpression: "attribute_exists(connectionId)",
+      };
+
+  try {
+    await docClient.send(new UpdateCommand(params));
+  } catch (error) {
+    if (isConnectionGone(error)) {
+      return;
+    }
+    console.error(`Error setting room for connection ${connectionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Mark a generation as the active stream for a connection
+ * Clears any stale cancellation request left over from a previous generation
+ * Does nothing once the connection is gone
+ */
+export const setActiveGeneration = async (
+  connectionId: string,
+  generationId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression:
+          "SET activeGenerationId = :generationId REMOVE cancelRequestedAt",
+        ConditionExpression: "attribute_exists(connectionId)",
+        ExpressionAttributeValues: {
+          ":generationId": generationId,
+        },
+      })
+    );
+  } catch (error) {
+    if (isConnectionGone(error)) {
+      return;
+    }
+    console.error(
+      `Error setting active generation for connection ${connectionId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Request cancellation of the active generation for a connection
+ * Returns the id of the generation that will be cancelled, or null if none is active
+ */
+export const requestGenerationCancel = async (
+  connectionId: string
+): Promise<string | null> => {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression: "SET cancelRequestedAt = :now",
+        ConditionExpression: "attribute_exists(activeGenerationId)",
+        ExpressionAttributeValues: {
+          ":now": Date.now(),
+        },
+        ReturnValues: "ALL_NEW" as const,
+      })
+    );
+
+    return (
+      (result.Attributes as Connection | undefined)?.activeGenerationId || null
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return null;
+    }
+    console.error(
+      `Error requesting generation cancel for connection ${connectionId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Check whether cancellation has been requested for a specific generation
+ */
+export const isGenerationCancelRequested = async (
+  connectionId: string,
+  generationId: string
+): Promise<boolean> => {
+  const connection = await getConnection(connectionId);
+
+  return (
+    connection?.activeGenerationId === generationId &&
+    connection.cancelRequestedAt !== undefined
+  );
+};
+
+/**
+ * Clear the active generation for a connection once it has finished
+ * Only clears it if it still belongs to the given generation
+ */
+export const clearActiveGeneration = async (
+  connectionId: string,
+  generationId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.connectionsTable,
+        Key: {
+          connectionId,
+        },
+        UpdateExpression: "REMOVE activeGenerationId, cancelRequestedAt",
+        ConditionExpression: "activeGenerationId = :generationId",
+        ExpressionAttributeValues: {
+          ":generationId": generationId,
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      // Another generation has taken over this connection, nothing to clear
+      return;
+    }
+    console.error(
+      `Error clearing active generation for connection ${connectionId}:`,
+      error
+    );
+    throw error;
+  }
+};
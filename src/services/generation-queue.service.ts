@@ -0,0 +1,491 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { config } from "../config/config";
+
+/**
+ * Fair queue in front of the model server
+ *
+ * At most config.llm.queue.maxConcurrentGenerations generations stream from
+ * the backend at once. Each running one holds a lease in the queue's slots
+ * item, which is only changed by updates conditional on its revision; a lease
+ * that was never released stops counting once it expires. A generation that
+ * finds no free slot waits as an entry next to it, and its invocation polls
+ * the queue until a slot is free for it.
+ *
+ * A generation waits at most config.llm.queue.maxWaitMs, then gives up with
+ * timedOut set. A running generation renews its lease with renewBackendSlot,
+ * so only the lease of a generation whose invocation died runs out.
+ *
+ * Slots are handed out round-robin across users: a user's n-th waiting
+ * generation, counting the ones they already have running, is served in
+ * round n, and each round is served oldest first. One user sending many
+ * messages can't hold back everyone else.
+ */
+
+export interface GenerationQueueEntry {
+  queueName: string;
+  // Id of the waiting generation
+  entryId: string;
+  userId: string;
+  connectionId: string;
+  enqueuedAt: number;
+  // Refreshed while the generation waits; an entry whose invocation died
+  // goes stale and is skipped
+  heartbeatAt: number;
+  // Set by leave_queue
+  cancelRequestedAt?: number;
+  ttl: number;
+}
+
+interface GenerationSlotLease {
+  userId: string;
+  expiresAt: number;
+}
+
+interface GenerationQueueSlots {
+  queueName: string;
+  entryId: string;
+  // Running generations, by generation id
+  leases: Record<string, GenerationSlotLease>;
+  revision: number;
+  ttl: number;
+}
+
+export interface QueueWaitOptions {
+  // Aborting the signal takes the generation out of the queue
+  signal?: AbortSignal;
+  // Called whenever the generation's place in the queue changes, from 1
+  onPosition?: (position: number, queueLength: number) => Promise<void>;
+  // Longest to wait for a slot; config.llm.queue.maxWaitMs by default
+  maxWaitMs?: number;
+}
+
+export interface QueueWaitResult {
+  // False when the generation left the queue, was stopped or timed out
+  acquired: boolean;
+  // True when it gave up after waiting for the longest allowed
+  timedOut: boolean;
+  waitedMs: number;
+  // Generations running or waiting when it arrived
+  queueDepth: number;
+  // Place it was given on arrival, from 1; 0 when it didn't have to wait
+  initialPosition: number;
+}
+
+// Create DynamoDB client with standard configuration
+const client = new DynamoDBClient({
+  region: config.region,
+});
+
+// Create document client with optimized serialization options
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    convertEmptyValues: true,
+    removeUndefinedValues: true,
+  },
+});
+
+// Every generation goes to the one model server through the same queue
+const QUEUE_NAME = "llm";
+const SLOTS_ENTRY_ID = "#slots";
+
+// Queue items left behind by a dead invocation are removed after a day
+const getTtl = () => Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+
+const isConditionalCheckFailed = (error: unknown) =>
+  (error as { name?: string }).name === "ConditionalCheckFailedException";
+
+/**
+ * A generation that waited for a backend slot for as long as it may
+ */
+export class QueueTimeoutError extends Error {
+  constructor(readonly waitedMs: number) {
+    super(`No backend slot became free within ${waitedMs}ms`);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Order waiting generations round-robin across users
+ * running counts the generations each user already has running
+ */
+export const fairOrder = <
+  T extends Pick<GenerationQueueEntry, "entryId" | "userId" | "enqueuedAt">
+>(
+  waiting: T[],
+  running: Record<string, number>
+): T[] => {
+  const seen = new Map<string, number>();
+
+  return [...waiting]
+    .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+    .map((entry) => {
+      const earlier = seen.get(entry.userId) || 0;
+      seen.set(entry.userId, earlier + 1);
+      return { entry, round: (running[entry.userId] || 0) + earlier };
+    })
+    .sort((a, b) => a.round - b.round)
+    .map(({ entry }) => entry);
+};
+
+const readQueue = async (): Promise<{
+  slots: GenerationQueueSlots | null;
+  waiting: GenerationQueueEntry[];
+}> => {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: config.generationQueueTable,
+      KeyConditionExpression: "queueName = :queueName",
+      ExpressionAttributeValues: {
+        ":queueName": QUEUE_NAME,
+      },
+      ConsistentRead: true,
+    })
+  );
+  const items = (result.Items || []) as (
+    | GenerationQueueEntry
+    | GenerationQueueSlots
+  )[];
+
+  return {
+    slots:
+      (items.find((item) => item.entryId === SLOTS_ENTRY_ID) as
+        | GenerationQueueSlots
+        | undefined) || null,
+    waiting: items.filter(
+      (item) => item.entryId !== SLOTS_ENTRY_ID
+    ) as GenerationQueueEntry[],
+  };
+};
+
+/**
+ * Add a lease for the generation to the slots item if nobody changed it
+ * since it was read
+ * Returns false when someone did
+ */
+const takeSlot = async (
+  slots: GenerationQueueSlots | null,
+  leases: Record<string, GenerationSlotLease>,
+  generationId: string,
+  userId: string
+): Promise<boolean> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationQueueTable,
+        Key: {
+          queueName: QUEUE_NAME,
+          entryId: SLOTS_ENTRY_ID,
+        },
+        UpdateExpression:
+          "SET leases = :leases, revision = :revision, #ttl = :ttl",
+        ConditionExpression: slots
+          ? "revision = :readRevision"
+          : "attribute_not_exists(revision)",
+        ExpressionAttributeNames: {
+          "#ttl": "ttl",
+        },
+        ExpressionAttributeValues: {
+          ":leases": {
+            ...leases,
+            [generationId]: {
+              userId,
+              expiresAt: Date.now() + config.llm.queue.slotLeaseMs,
+            },
+          },
+          ":revision": (slots?.revision ?? 0) + 1,
+          ":ttl": getTtl(),
+          ...(slots ? { ":readRevision": slots.revision } : {}),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+const saveEntry = async (entry: GenerationQueueEntry): Promise<void> => {
+  await docClient.send(
+    new PutCommand({
+      TableName: config.generationQueueTable,
+      Item: entry,
+    })
+  );
+};
+
+// Only touches heartbeatAt, so a leave request made meanwhile is kept
+const refreshEntry = async (generationId: string, now: number) => {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: config.generationQueueTable,
+      Key: {
+        queueName: QUEUE_NAME,
+        entryId: generationId,
+      },
+      UpdateExpression: "SET heartbeatAt = :now",
+      ConditionExpression: "attribute_exists(entryId)",
+      ExpressionAttributeValues: {
+        ":now": now,
+      },
+    })
+  );
+};
+
+const deleteEntry = async (generationId: string): Promise<void> => {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: config.generationQueueTable,
+      Key: {
+        queueName: QUEUE_NAME,
+        entryId: generationId,
+      },
+    })
+  );
+};
+
+// Resolve after ms, or as soon as the signal is aborted
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Wait until the generation may stream from the backend and take a slot
+ * The slot must be given back with releaseBackendSlot once acquired is true
+ */
+export const waitForBackendSlot = async (
+  generationId: string,
+  userId: string,
+  connectionId: string,
+  options: QueueWaitOptions = {}
+): Promise<QueueWaitResult> => {
+  const { maxConcurrentGenerations, pollIntervalMs, staleEntryMs } =
+    config.llm.queue;
+  const enqueuedAt = Date.now();
+  const deadline =
+    enqueuedAt + (options.maxWaitMs ?? config.llm.queue.maxWaitMs);
+  let entry: GenerationQueueEntry | null = null;
+  let queueDepth: number | null = null;
+  let initialPosition = 0;
+  let position = 0;
+
+  const result = (acquired: boolean, timedOut = false): QueueWaitResult => ({
+    acquired,
+    timedOut,
+    waitedMs: Date.now() - enqueuedAt,
+    queueDepth: queueDepth ?? 0,
+    initialPosition,
+  });
+
+  try {
+    while (!options.signal?.aborted) {
+      const now = Date.now();
+      const { slots, waiting } = await readQueue();
+
+      const leases = Object.fromEntries(
+        Object.entries(slots?.leases || {}).filter(
+          ([, lease]) => lease.expiresAt > now
+        )
+      );
+      const running: Record<string, number> = {};
+      for (const lease of Object.values(leases)) {
+        running[lease.userId] = (running[lease.userId] || 0) + 1;
+      }
+
+      const own = waiting.find((item) => item.entryId === generationId);
+      if (own?.cancelRequestedAt !== undefined) {
+        return result(false);
+      }
+
+      const ordered = fairOrder(
+        [
+          ...waiting.filter(
+            (item) =>
+              item.entryId !== generationId &&
+              now - item.heartbeatAt < staleEntryMs
+          ),
+          { entryId: generationId, userId, enqueuedAt },
+        ],
+        running
+      );
+      const index = ordered.findIndex((item) => item.entryId === generationId);
+      queueDepth ??= ordered.length + Object.keys(leases).length;
+
+      if (index < maxConcurrentGenerations - Object.keys(leases).length) {
+        if (await takeSlot(slots, leases, generationId, userId)) {
+          return result(true);
+        }
+        // Someone else took or gave back a slot meanwhile; look again
+        continue;
+      }
+
+      if (!entry) {
+        entry = {
+          queueName: QUEUE_NAME,
+          entryId: generationId,
+          userId,
+          connectionId,
+          enqueuedAt,
+          heartbeatAt: now,
+          ttl: getTtl(),
+        };
+        await saveEntry(entry);
+        initialPosition = index + 1;
+      } else if (now - entry.heartbeatAt >= staleEntryMs / 3) {
+        await refreshEntry(generationId, now);
+        entry.heartbeatAt = now;
+      }
+
+      if (index + 1 !== position) {
+        position = index + 1;
+        await options.onPosition?.(position, ordered.length);
+      }
+
+      if (now >= deadline) {
+        return result(false, true);
+      }
+
+      await sleep(Math.min(pollIntervalMs, deadline - now), options.signal);
+    }
+
+    return result(false);
+  } finally {
+    if (entry) {
+      await deleteEntry(generationId).catch((error) =>
+        console.error(`Error leaving the queue for ${generationId}:`, error)
+      );
+    }
+  }
+};
+
+/**
+ * Extend the lease of a slot taken with waitForBackendSlot
+ * Called while the generation runs, every third of config.llm.queue.slotLeaseMs
+ * Returns false when the lease already ran out and the slot is gone
+ */
+export const renewBackendSlot = async (
+  generationId: string,
+  userId: string
+): Promise<boolean> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationQueueTable,
+        Key: {
+          queueName: QUEUE_NAME,
+          entryId: SLOTS_ENTRY_ID,
+        },
+        UpdateExpression:
+          "SET leases.#generationId = :lease, revision = revision + :one",
+        ConditionExpression: "attribute_exists(leases.#generationId)",
+        ExpressionAttributeNames: {
+          "#generationId": generationId,
+        },
+        ExpressionAttributeValues: {
+          ":lease": {
+            userId,
+            expiresAt: Date.now() + config.llm.queue.slotLeaseMs,
+          },
+          ":one": 1,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return false;
+    }
+    console.error(`Error renewing the slot of ${generationId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Give back a slot taken with waitForBackendSlot
+ */
+export const releaseBackendSlot = async (
+  generationId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationQueueTable,
+        Key: {
+          queueName: QUEUE_NAME,
+          entryId: SLOTS_ENTRY_ID,
+        },
+        UpdateExpression:
+          "SET revision = revision + :one REMOVE leases.#generationId",
+        ConditionExpression: "attribute_exists(leases)",
+        ExpressionAttributeNames: {
+          "#generationId": generationId,
+        },
+        ExpressionAttributeValues: {
+          ":one": 1,
+        },
+      })
+    );
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return;
+    }
+    console.error(`Error releasing the slot of ${generationId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Ask a waiting generation of the user to leave the queue
+ * Returns false when it isn't waiting, for instance because it already
+ * started
+ */
+export const requestLeaveQueue = async (
+  generationId: string,
+  userId: string
+): Promise<boolean> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationQueueTable,
+        Key: {
+          queueName: QUEUE_NAME,
+          entryId: generationId,
+        },
+        UpdateExpression: "SET cancelRequestedAt = :now",
+        ConditionExpression: "attribute_exists(entryId) AND userId = :userId",
+        ExpressionAttributeValues: {
+          ":now": Date.now(),
+          ":userId": userId,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return false;
+    }
+    console.error(`Error leaving the queue for ${generationId}:`, error);
+    throw error;
+  }
+};
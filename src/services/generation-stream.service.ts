@@ -0,0 +1,428 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { config } from "../config/config";
+import { OutboundEvent } from "../protocol/messages";
+
+/**
+ * Durable buffer of the events of each generation
+ *
+ * A generation keeps streaming when its client's connection drops; every
+ * event is stored under its envelope sequence, so the client can reconnect,
+ * send resume_generation and replay what it missed. The header item at
+ * HEADER_SEQUENCE says who owns the generation and which connection the
+ * streaming invocation sends to.
+ */
+
+// Sort key of the header item; events are numbered from 0
+const HEADER_SEQUENCE = -1;
+
+export type GenerationStreamStatus = "streaming" | "completed" | "failed";
+
+export interface GenerationStream {
+  generationId: string;
+  userId: string;
+  conversationId: string;
+  // Request the generation answers; replayed events keep its requestId
+  requestId?: string;
+  // Connection the live events go to; moved by resume_generation
+  connectionId: string;
+  status: GenerationStreamStatus;
+  // Bumped by every resume_generation; the streaming invocation replays from
+  // resumeFromSequence to connectionId when it sees a new value
+  resumeCount: number;
+  resumeFromSequence?: number;
+  // Set when connectionId was found gone, possibly by another invocation
+  detachedAt?: number;
+  createdAt: number;
+  ttl: number;
+}
+
+/**
+ * Sends a generation's events, buffering them for replay
+ */
+export interface GenerationRelay {
+  // Connection receiving the events, or null while the client is away
+  readonly connectionId: string | null;
+  // When the last connection was lost, or null while one is attached
+  readonly detachedAt: number | null;
+  /**
+   * Store an event, then send it to the attached connection, if any
+   * Only a storage failure rejects; the client being away doesn't
+   */
+  deliver(outbound: OutboundEvent): Promise<void>;
+  /**
+   * Act on the header: after a resume_generation, send the events the new
+   * connection missed and stream to it from now on; stop sending to a
+   * connection another invocation found gone
+   */
+  sync(stream: GenerationStream): Promise<void>;
+}
+
+// Create DynamoDB client with standard configuration
+const client = new DynamoDBClient({
+  region: config.region,
+});
+
+// Create document client with optimized serialization options
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    convertEmptyValues: true,
+    removeUndefinedValues: true,
+  },
+});
+
+const getTtl = () => Math.floor(Date.now() / 1000) + config.generationStreamTtl;
+
+/**
+ * Record a new generation before its first event is sent
+ */
+export const createGenerationStream = async (
+  stream: Pick<
+    GenerationStream,
+    "generationId" | "userId" | "conversationId" | "requestId" | "connectionId"
+  >
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: config.generationStreamsTable,
+        Item: {
+          ...stream,
+          sequence: HEADER_SEQUENCE,
+          status: "streaming",
+          resumeCount: 0,
+          createdAt: Date.now(),
+          ttl: getTtl(),
+        },
+      })
+    );
+  } catch (error) {
+    console.error(
+      `Error creating generation stream ${stream.generationId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the header of a generation, or null once it has expired
+ */
+export const getGenerationStream = async (
+  generationId: string
+): Promise<GenerationStream | null> => {
+  try {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: config.generationStreamsTable,
+        Key: {
+          generationId,
+          sequence: HEADER_SEQUENCE,
+        },
+      })
+    );
+
+    return (result.Item as GenerationStream | undefined) || null;
+  } catch (error) {
+    console.error(`Error getting generation stream ${generationId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Store one event of a generation
+ */
+export const appendGenerationEvent = async (
+  generationId: string,
+  outbound: OutboundEvent
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: config.generationStreamsTable,
+        Item: {
+          generationId,
+          sequence: outbound.sequence,
+          event: outbound,
+          ttl: getTtl(),
+        },
+      })
+    );
+  } catch (error) {
+    console.error(
+      `Error storing event ${outbound.sequence} of generation ${generationId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the stored events of a generation from a sequence number on, in order
+ */
+export const getGenerationEvents = async (
+  generationId: string,
+  fromSequence: number
+): Promise<OutboundEvent[]> => {
+  const events: OutboundEvent[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  try {
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: config.generationStreamsTable,
+          KeyConditionExpression:
+            "generationId = :generationId AND #sequence >= :fromSequence",
+          ExpressionAttributeNames: {
+            "#sequence": "sequence",
+          },
+          ExpressionAttributeValues: {
+            ":generationId": generationId,
+            // The header sorts before every event
+            ":fromSequence": Math.max(fromSequence, 0),
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      for (const item of result.Items || []) {
+        events.push(item.event as OutboundEvent);
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  } catch (error) {
+    console.error(`Error getting events of generation ${generationId}:`, error);
+    throw error;
+  }
+
+  return events;
+};
+
+/**
+ * Hand a streaming generation over to another connection
+ * Returns the updated header, or null if the generation is no longer
+ * streaming, in which case its stored events are all there is to replay
+ */
+export const attachGenerationStream = async (
+  generationId: string,
+  connectionId: string,
+  fromSequence: number
+): Promise<GenerationStream | null> => {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationStreamsTable,
+        Key: {
+          generationId,
+          sequence: HEADER_SEQUENCE,
+        },
+        UpdateExpression:
+          "SET connectionId = :connectionId, resumeFromSequence = :fromSequence, resumeCount = resumeCount + :one REMOVE detachedAt",
+        ConditionExpression: "#status = :streaming",
+        ExpressionAttributeNames: {
+          "#status": "status",
+        },
+        ExpressionAttributeValues: {
+          ":connectionId": connectionId,
+          ":fromSequence": fromSequence,
+          ":one": 1,
+          ":streaming": "streaming",
+        },
+        ReturnValues: "ALL_NEW" as const,
+      })
+    );
+
+    return result.Attributes as GenerationStream;
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return null;
+    }
+    console.error(
+      `Error attaching connection ${connectionId} to generation ${generationId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Record that the connection a generation streams to is gone
+ * Does nothing if the generation has moved on to another connection or ended
+ */
+export const markGenerationStreamDetached = async (
+  generationId: string,
+  connectionId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationStreamsTable,
+        Key: {
+          generationId,
+          sequence: HEADER_SEQUENCE,
+        },
+        UpdateExpression: "SET detachedAt = :now",
+        ConditionExpression:
+          "connectionId = :connectionId AND #status = :streaming",
+        ExpressionAttributeNames: {
+          "#status": "status",
+        },
+        ExpressionAttributeValues: {
+          ":now": Date.now(),
+          ":connectionId": connectionId,
+          ":streaming": "streaming",
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return;
+    }
+    console.error(
+      `Error detaching connection ${connectionId} from generation ${generationId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Mark a generation as finished once its last event is stored
+ * Returns the final header so a resume that raced with the end can be served
+ */
+export const finishGenerationStream = async (
+  generationId: string,
+  status: Exclude<GenerationStreamStatus, "streaming"> = "completed"
+): Promise<GenerationStream> => {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: config.generationStreamsTable,
+        Key: {
+          generationId,
+          sequence: HEADER_SEQUENCE,
+        },
+        UpdateExpression: "SET #status = :status",
+        ExpressionAttributeNames: {
+          "#status": "status",
+        },
+        ExpressionAttributeValues: {
+          ":status": status,
+        },
+        ReturnValues: "ALL_NEW" as const,
+      })
+    );
+
+    return result.Attributes as GenerationStream;
+  } catch (error) {
+    console.error(`Error finishing generation stream ${generationId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create the relay for a generation streaming to connectionId
+ * post sends an event to a connection; events are delivered one at a time
+ * and also kept in memory, so a resume is replayed without reading them back
+ */
+export const createGenerationRelay = (
+  generationId: string,
+  connectionId: string,
+  post: (connectionId: string, outbound: OutboundEvent) => Promise<void>
+): GenerationRelay => {
+  const delivered: OutboundEvent[] = [];
+  let target: string | null = connectionId;
+  let detachedAt: number | null = null;
+  let servedResumeCount = 0;
+  // Deliveries and replays in the order they were requested
+  let queue = Promise.resolve();
+
+  const enqueue = (task: () => Promise<void>): Promise<void> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Send to the attached connection; losing it only stops sending until the
+  // client resumes, the generation itself goes on
+  const sendToTarget = async (outbound: OutboundEvent) => {
+    if (!target) {
+      return;
+    }
+
+    try {
+      await post(target, outbound);
+    } catch (error) {
+      console.warn({
+        event: "generation_client_detached",
+        generationId,
+        connectionId: target,
+        sequence: outbound.sequence,
+        errorName: (error as { name?: string } | null)?.name,
+        timestamp: Date.now(),
+      });
+      target = null;
+      detachedAt = Date.now();
+    }
+  };
+
+  const deliver = (outbound: OutboundEvent) =>
+    enqueue(async () => {
+      delivered.push(outbound);
+      await appendGenerationEvent(generationId, outbound);
+      await sendToTarget(outbound);
+    });
+
+  const sync = (stream: GenerationStream) =>
+    enqueue(async () => {
+      if (stream.resumeCount <= servedResumeCount) {
+        if (stream.detachedAt !== undefined && stream.connectionId === target) {
+          target = null;
+          detachedAt = stream.detachedAt;
+        }
+        return;
+      }
+      servedResumeCount = stream.resumeCount;
+      target = stream.connectionId;
+      detachedAt = null;
+
+      const missed = delivered.filter(
+        (outbound) => outbound.sequence >= (stream.resumeFromSequence ?? 0)
+      );
+
+      console.log({
+        event: "generation_stream_resumed",
+        generationId,
+        connectionId: stream.connectionId,
+        fromSequence: stream.resumeFromSequence,
+        replayedEvents: missed.length,
+        timestamp: Date.now(),
+      });
+
+      for (const outbound of missed) {
+        await sendToTarget(outbound);
+      }
+    });
+
+  return {
+    get connectionId() {
+      return target;
+    },
+    get detachedAt() {
+      return detachedAt;
+    },
+    deliver,
+    sync,
+  };
+};
@@ -0,0 +1,193 @@
+/**
+ * Errors raised by LLM requests
+ * Every failure reaching message handling is one of these, so clients get a
+ * stable errorCode and know whether and when to retry
+ */
+import { status as GrpcStatus } from "@grpc/grpc-js";
+import { LLMErrorCode } from "../protocol/messages";
+
+export { LLMErrorCode };
+
+export interface LLMErrorOptions {
+  // Model the request was for
+  modelId?: string;
+  // Overrides the default retry hint, e.g. from a Retry-After header
+  retryAfterMs?: number;
+  // The provider error this one was created from
+  cause?: unknown;
+}
+
+/**
+ * Base class of all LLM errors; unclassified failures use it directly
+ */
+export class LLMError extends Error {
+  readonly errorCode: LLMErrorCode = "llm_internal";
+  readonly retryable: boolean = false;
+  modelId?: string;
+  readonly cause?: unknown;
+  private readonly retryAfterOverrideMs?: number;
+
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.modelId = options.modelId;
+    this.cause = options.cause;
+    this.retryAfterOverrideMs = options.retryAfterMs;
+  }
+
+  /**
+   * Suggested wait before retrying; undefined when retrying won't help
+   */
+  get retryAfterMs(): number | undefined {
+    if (!this.retryable) {
+      return undefined;
+    }
+    return this.retryAfterOverrideMs ?? this.defaultRetryAfterMs;
+  }
+
+  protected get defaultRetryAfterMs(): number {
+    return 0;
+  }
+}
+
+/**
+ * The backend can't be reached, or its circuit breaker is open
+ */
+export class LLMUnavailableError extends LLMError {
+  readonly errorCode = "llm_unavailable";
+  readonly retryable = true;
+
+  protected get defaultRetryAfterMs(): number {
+    return 5000;
+  }
+}
+
+/**
+ * The backend didn't answer within the deadline
+ */
+export class LLMTimeoutError extends LLMError {
+  readonly errorCode = "llm_timeout";
+  readonly retryable = true;
+
+  protected get defaultRetryAfterMs(): number {
+    return 1000;
+  }
+}
+
+/**
+ * The backend is out of capacity or rate limiting us
+ */
+export class LLMOverloadedError extends LLMError {
+  readonly errorCode = "llm_overloaded";
+  readonly retryable = true;
+
+  protected get defaultRetryAfterMs(): number {
+    return 30000;
+  }
+}
+
+/**
+ * The backend rejected the request itself; retrying it unchanged won't help
+ */
+export class LLMInvalidRequestError extends LLMError {
+  readonly errorCode = "llm_invalid_request";
+}
+
+/**
+ * The backend cancelled the call without us asking it to
+ */
+export class LLMCancelledError extends LLMError {
+  readonly errorCode = "llm_cancelled";
+  readonly retryable = true;
+}
+
+/**
+ * A streamed chunk couldn't be passed on, e.g. because the client went away
+ * Not a failure of the LLM, so it is kept apart from LLMError
+ */
+export class ChunkDeliveryError extends Error {
+  constructor(readonly cause: unknown) {
+    super(
+      `Failed to deliver chunk: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "ChunkDeliveryError";
+  }
+}
+
+/**
+ * Map a gRPC status code to an error class
+ */
+const fromGrpcStatus = (code: number): typeof LLMError => {
+  switch (code) {
+    case GrpcStatus.UNAVAILABLE:
+      return LLMUnavailableError;
+    case GrpcStatus.DEADLINE_EXCEEDED:
+      return LLMTimeoutError;
+    case GrpcStatus.RESOURCE_EXHAUSTED:
+      return LLMOverloadedError;
+    case GrpcStatus.INVALID_ARGUMENT:
+    case GrpcStatus.FAILED_PRECONDITION:
+    case GrpcStatus.OUT_OF_RANGE:
+      return LLMInvalidRequestError;
+    case GrpcStatus.CANCELLED:
+      return LLMCancelledError;
+    default:
+      return LLMError;
+  }
+};
+
+/**
+ * Map an HTTP status code from an OpenAI-compatible API to an error class
+ */
+export const fromHttpStatus = (status: number): typeof LLMError => {
+  if (status === 429) {
+    return LLMOverloadedError;
+  }
+  if (status === 408 || status === 504) {
+    return LLMTimeoutError;
+  }
+  if (status === 502 || status === 503) {
+    return LLMUnavailableError;
+  }
+  if (status >= 400 && status < 500) {
+    return LLMInvalidRequestError;
+  }
+  return LLMError;
+};
+
+// Node network error codes for a backend that can't be reached or timed out
+const UNREACHABLE_CODES = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+];
+const TIMEOUT_CODES = ["ETIMEDOUT", "ECONNABORTED"];
+
+/**
+ * Turn any error from a provider into an LLMError
+ * gRPC errors carry a numeric status code; network errors a string one
+ */
+export const toLLMError = (error: unknown, modelId?: string): LLMError => {
+  if (error instanceof LLMError) {
+    error.modelId ??= modelId;
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { code?: unknown } | null)?.code;
+
+  let ErrorClass: typeof LLMError = LLMError;
+  if (typeof code === "number") {
+    ErrorClass = fromGrpcStatus(code);
+  } else if (typeof code === "string" && UNREACHABLE_CODES.includes(code)) {
+    ErrorClass = LLMUnavailableError;
+  } else if (typeof code === "string" && TIMEOUT_CODES.includes(code)) {
+    ErrorClass = LLMTimeoutError;
+  }
+
+  return new ErrorClass(message, { modelId, cause: error });
+};
@@ -1,310 +1,204 @@
-import * as grpc from "@grpc/grpc-js";
-import * as protoLoader from "@grpc/proto-loader";
-import * as path from "path";
-import * as fs from "fs";
-import { config } from "../config/config";
-
-// LLM Request and Response interfaces
+/**
+ * Entry point for talking to LLMs
+ * Routes each request to the provider of the model it names, skipping
+ * endpoints whose circuit breaker is open
+ */
+import {
+  ModelDefinition,
+  ModelProviderName,
+  getModel,
+  getDefaultModel,
+} from "../config/models";
+import { GenerationParameters } from "../utils/generation-parameters";
+import { PromptMessage } from "../utils/prompt-templates";
+import {
+  LLMProvider,
+  LLMResponse,
+  StreamOptions,
+  StreamResult,
+  TokenUsage,
+} from "./providers/provider";
+import { grpcProvider } from "./providers/grpc.provider";
+import { openAIProvider } from "./providers/openai.provider";
+import {
+  ChunkDeliveryError,
+  LLMInvalidRequestError,
+  LLMUnavailableError,
+  toLLMError,
+} from "./llm-errors";
+import {
+  tryAcquire,
+  recordSuccess,
+  recordFailure,
+  getRetryAfterMs,
+} from "./circuit-breaker.service";
+
+export { LLMProvider, LLMResponse, StreamOptions, StreamResult, TokenUsage };
+
+// LLM Request interface
 export interface LLMRequest {
-  prompt: string;
-  parameters?: {
-    temperature?: number;
-    maxTokens?: number;
-    topP?: number;
-    presencePenalty?: number;
-    frequencyPenalty?: number;
-  };
-}
-
-export interface LLMResponse {
-  text: string;
-  isComplete: boolean;
+  // Conversation to answer, system messages first
+  messages: PromptMessage[];
+  // Registry id of the model to use; the default model when not set
+  model?: string;
+  // Sent to the model as is, so defaults must already be applied
+  parameters: GenerationParameters;
 }
 
-// Store the client instance
-let llmClient: any = null;
-let connectionAttempts = 0;
-const MAX_CONNECTION_ATTEMPTS = 3; // Increased to allow more retries
-const RETRY_DELAY_MS = 1000; // Increased delay between retries
-const CONNECTION_TIMEOUT_SECONDS = 10; // Reduced connection timeout to 10 seconds
-const RESPONSE_TIMEOUT_SECONDS = 600; // 10 minutes for complete response generation
+const providers: Record<ModelProviderName, LLMProvider> = {
+  grpc: grpcProvider,
+  openai: openAIProvider,
+};
 
 /**
- * Get or create the LLM service client with retry logic
+ * Look up the model a request is routed to
  */
-export const getLLMClient = async (): Promise<any> => {
-  if (llmClient) {
-    return llmClient;
+const resolveModel = (modelId?: string): ModelDefinition => {
+  if (!modelId) {
+    return getDefaultModel();
   }
 
-  connectionAttempts++;
-  console.log(
-    `Attempting to connect to LLM service (attempt ${connectionAttempts}/${MAX_CONNECTION_ATTEMPTS})...`
-  );
+  const model = getModel(modelId);
+  if (!model) {
+    throw new LLMInvalidRequestError(`Unknown model "${modelId}"`, {
+      modelId,
+    });
+  }
 
-  try {
-    // Use the endpoint configured in environment or config
-    const endpoint = config.llm.endpoint;
-    console.log(`Using LLM endpoint: ${endpoint}`);
+  return model;
+};
 
-    // Determine the correct path for the proto file based on the environment
-    // For Lambda, the proto files should be in /var/task/proto
-    // For local development, they should be in the src/proto directory
-    let PROTO_PATH;
+/**
+ * Call a model's provider on the first endpoint whose breaker lets the call
+ * through, failing over to the fallback endpoint if the primary fails before
+ * producing any output
+ * Provider errors are rethrown as LLMErrors; LLMUnavailableError when every
+ * endpoint's breaker is open
+ */
+const callWithFailover = async <T>(
+  model: ModelDefinition,
+  call: (provider: LLMProvider, model: ModelDefinition) => Promise<T>,
+  hasOutput: () => boolean = () => false
+): Promise<T> => {
+  const endpoints = [model.endpoint, model.fallbackEndpoint].filter(
+    (endpoint): endpoint is string => !!endpoint
+  );
 
-    if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
-      // We're running in Lambda - use absolute path
-      PROTO_PATH = "/var/task/proto/llm.proto";
-    } else {
-      // We're running locally
-      PROTO_PATH = path.resolve(__dirname, "../proto/llm.proto");
+  for (const [index, endpoint] of endpoints.entries()) {
+    if (!tryAcquire(endpoint)) {
+      console.log({
+        event: "llm_endpoint_skipped",
+        model: model.id,
+        endpoint,
+        retryAfterMs: getRetryAfterMs(endpoint),
+        timestamp: Date.now(),
+      });
+      continue;
     }
 
-    console.log(`Using proto file at: ${PROTO_PATH}`);
-
-    // Check if the file exists
-    if (!fs.existsSync(PROTO_PATH)) {
-      // Try alternative paths for troubleshooting
-      console.error(`Proto file not found at ${PROTO_PATH}`);
-
-      // Log a list of files in /var/task to help debug
-      if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
-        try {
-          console.log("Checking /var/task directory:");
-          if (fs.existsSync("/var/task")) {
-            const files = fs.readdirSync("/var/task");
-            console.log("Files in /var/task:", files);
-
-            // Check if proto directory exists
-            if (fs.existsSync("/var/task/proto")) {
-              const protoFiles = fs.readdirSync("/var/task/proto");
-              console.log("Files in /var/task/proto:", protoFiles);
-            } else {
-              console.log("/var/task/proto directory not found");
-            }
-          } else {
-            console.log("/var/task directory not found");
-          }
-        } catch (err) {
-          console.error("Error listing directory:", err);
-        }
+    try {
+      const result = await call(providers[model.provider], {
+        ...model,
+        endpoint,
+      });
+      recordSuccess(endpoint);
+      return result;
+    } catch (error) {
+      // The backend was streaming fine; the output just had nowhere to go
+      if (error instanceof ChunkDeliveryError) {
+        recordSuccess(endpoint);
+        throw error;
       }
 
-      throw new Error(`Proto file not found at ${PROTO_PATH}`);
-    }
-
-    // Load the proto definition
-    const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
-      keepCase: true,
-      longs: String,
-      enums: String,
-      defaults: true,
-      oneofs: true,
-    });
-
-    const protoDescriptor = grpc.loadPackageDefinition(packageDefinition);
-
-    console.log(`Creating gRPC client for ${endpoint}...`);
+      const llmError = toLLMError(error, model.id);
 
-    // Create the client with improved timeout and retry settings
-    llmClient = new (protoDescriptor.llm as any).LLMService(
-      process.env.AWS_LAMBDA_FUNCTION_NAME ? endpoint : `${endpoint}:50051`,
-      process.env.AWS_LAMBDA_FUNCTION_NAME
-        ? grpc.credentials.createSsl()
-        : grpc.credentials.createInsecure(),
-      {
-        "grpc.service_config": JSON.stringify({
-          methodConfig: [
-            {
-              name: [{ service: "llm.LLMService" }],
-              retryPolicy: {
-                maxAttempts: 5,
-                initialBackoff: "1s",
-                maxBackoff: "10s",
-                backoffMultiplier: 2,
-                retryableStatusCodes: ["UNAVAILABLE", "DEADLINE_EXCEEDED"],
-              },
-              timeout: "600s", // Use same 10-minute timeout for ALL method calls
-            },
-          ],
-        }),
-        "grpc.keepalive_time_ms": 60000, // 60 seconds
-        "grpc.keepalive_timeout_ms": 10000, // 10 seconds
-        "grpc.http2.min_time_between_pings_ms": 15000, // 15 seconds
-        "grpc.keepalive_permit_without_calls": 1, // Allow keepalives without active calls
-        "grpc.max_connection_idle_ms": 120000, // 120 seconds
-        "grpc.client_idle_timeout_ms": 120000, // 120 seconds
-        "grpc.max_reconnect_backoff_ms": 10000, // 10 seconds
-        "grpc.initial_reconnect_backoff_ms": 1000, // 1 second
+      // A request the backend rejected still shows the backend is up
+      if (!llmError.retryable) {
+        recordSuccess(endpoint);
+        throw llmError;
       }
-    );
+      recordFailure(endpoint);
 
-    // Check if service is available with increased timeout
-    await new Promise<void>((resolve, reject) => {
-      const deadline = new Date();
-      deadline.setSeconds(deadline.getSeconds() + CONNECTION_TIMEOUT_SECONDS);
-
-      console.log(`Setting connection deadline to ${deadline.toISOString()}`);
+      // Output already sent can't be taken back, so only a clean failure
+      // moves on to the next endpoint
+      if (hasOutput() || index === endpoints.length - 1) {
+        throw llmError;
+      }
 
-      // This is only for the initial connection check, still using 10 seconds
-      llmClient.waitForReady(deadline, (error: Error | undefined) => {
-        if (error) {
-          console.error(`LLM client connection failed: ${error.message}`);
-          // Extra debug info
-          if (error.message.includes("Failed to connect")) {
-            console.log(
-              `DNS lookup for ${endpoint}: Verify VPC DNS configuration and network route`
-            );
-            console.log(
-              `Security groups: Verify inbound/outbound rules allow 443 to ALB`
-            );
-            console.log(
-              `VPC endpoints: Verify Lambda can reach the endpoint through the VPC`
-            );
-            console.log(
-              `NAT Gateway: Verify if Lambda needs internet access via NAT`
-            );
-          }
-          llmClient = null;
-          reject(error);
-        } else {
-          console.log(`LLM client successfully connected to ${endpoint}`);
-          connectionAttempts = 0;
-          resolve();
-        }
+      console.log({
+        event: "llm_failover",
+        model: model.id,
+        fromEndpoint: endpoint,
+        toEndpoint: endpoints[index + 1],
+        errorCode: llmError.errorCode,
+        errorMessage: llmError.message,
+        timestamp: Date.now(),
       });
-    });
-
-    return llmClient;
-  } catch (error) {
-    console.error(`Failed to initialize LLM client: ${error}`);
-    llmClient = null;
-
-    // Retry connection if max attempts not reached
-    if (connectionAttempts < MAX_CONNECTION_ATTEMPTS) {
-      console.log(`Retrying connection in ${RETRY_DELAY_MS}ms...`);
-      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
-      return getLLMClient();
     }
-
-    throw new Error(
-      `Failed to connect to LLM service after ${MAX_CONNECTION_ATTEMPTS} attempts`
-    );
   }
+
+  throw new LLMUnavailableError(
+    `No endpoint of model "${model.id}" is available`,
+    {
+      modelId: model.id,
+      retryAfterMs: Math.min(...endpoints.map(getRetryAfterMs)),
+    }
+  );
 };
 
 /**
- * Generate a full response from the LLM
+ * Generate a full response from the LLM, with its token counts when the
+ * backend sends them
  */
 export const generateResponse = async (
   request: LLMRequest
-): Promise<string> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const client = await getLLMClient();
-
-      const grpcRequest = {
-        prompt: request.prompt,
-        parameters: {
-          temperature:
-            request.parameters?.temperature || config.llm.defaultTemperature,
-          max_tokens:
-            request.parameters?.maxTokens || config.llm.defaultMaxTokens,
-          top_p: request.parameters?.topP || config.llm.defaultTopP,
-          presence_penalty:
-            request.parameters?.presencePenalty ||
-            config.llm.defaultPresencePenalty,
-          frequency_penalty:
-            request.parameters?.frequencyPenalty ||
-            config.llm.defaultFrequencyPenalty,
-        },
-      };
-
-      const deadline = new Date();
-      deadline.setSeconds(deadline.getSeconds() + RESPONSE_TIMEOUT_SECONDS);
-
-      client.Generate(
-        grpcRequest,
-        { deadline },
-        (error: any, response: any) => {
-          if (error) {
-            console.error("Error generating response:", error);
-            reject(error);
-            return;
-          }
-
-          resolve(response.text);
-        }
-      );
-    } catch (error) {
-      console.error("Error in generateResponse:", error);
-      reject(error);
-    }
-  });
+): Promise<LLMResponse> => {
+  const model = resolveModel(request.model);
+
+  return await callWithFailover(model, (provider, target) =>
+    provider.generate({
+      messages: request.messages,
+      model: target,
+      parameters: request.parameters,
+    })
+  );
 };
 
 /**
  * Stream a response from the LLM
+ * onChunk is called for one chunk at a time, in order, and the returned
+ * promise settles only after the last call finished. It resolves with
+ * cancelled: true if the stream was aborted. If onChunk throws, the upstream
+ * generation is cancelled and the promise rejects with ChunkDeliveryError.
  */
 export const streamResponse = async (
   request: LLMRequest,
-  onChunk: (chunk: LLMResponse) => Promise<void>
-): Promise<void> => {
-  try {
-    console.log("Initializing LLM stream...");
-    const client = await getLLMClient();
-
-    const grpcRequest = {
-      prompt: request.prompt,
-      parameters: {
-        temperature:
-          request.parameters?.temperature || config.llm.defaultTemperature,
-        max_tokens:
-          request.parameters?.maxTokens || config.llm.defaultMaxTokens,
-        top_p: request.parameters?.topP || config.llm.defaultTopP,
-        presence_penalty:
-          request.parameters?.presencePenalty ||
-          config.llm.defaultPresencePenalty,
-        frequency_penalty:
-          request.parameters?.frequencyPenalty ||
-          config.llm.defaultFrequencyPenalty,
-      },
-    };
-
-    console.log("Starting gRPC streaming request...");
-    const deadline = new Date();
-    deadline.setSeconds(deadline.getSeconds() + RESPONSE_TIMEOUT_SECONDS);
-    console.log(
-      `Setting response deadline to ${deadline.toISOString()} (${RESPONSE_TIMEOUT_SECONDS} seconds)`
-    );
-
-    const stream = client.GenerateStream(grpcRequest, { deadline });
-
-    // Set up event handlers
-    stream.on("data", async (response: any) => {
-      await onChunk({
-        text: response.text,
-        isComplete: response.is_complete,
-      });
-    });
-
-    return new Promise((resolve, reject) => {
-      stream.on("end", () => {
-        console.log("Stream ended.");
-        resolve();
-      });
-
-      stream.on("error", (error: Error) => {
-        console.error("Stream error:", error);
-        reject(error);
-      });
-
-      stream.on("status", (status: any) => {
-        console.log(`Stream status: ${status.code} - ${status.details}`);
-      });
-    });
-  } catch (error) {
-    console.error("Error in streamResponse:", error);
-    throw error;
-  }
+  onChunk: (chunk: LLMResponse) => Promise<void>,
+  options: StreamOptions = {}
+): Promise<StreamResult> => {
+  const model = resolveModel(request.model);
+
+  let hasOutput = false;
+
+  return await callWithFailover(
+    model,
+    (provider, target) =>
+      provider.stream(
+        {
+          messages: request.messages,
+          model: target,
+          parameters: request.parameters,
+        },
+        async (chunk) => {
+          hasOutput = true;
+          try {
+            await onChunk(chunk);
+          } catch (error) {
+            throw new ChunkDeliveryError(error);
+          }
+        },
+        options
+      ),
+    () => hasOutput
+  );
 };
@@ -1,90 +1,189 @@
-import { getConnection } from "./connection.service";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+import { ApiGatewayManagementApiClient } from "@aws-sdk/client-apigatewaymanagementapi";
+import {
+  getConnection,
+  getConnectionsByUserId,
+  setActiveGeneration,
+  requestGenerationCancel,
+  isGenerationCancelRequested,
+  clearActiveGeneration,
+  setConnectionConversation,
+  setConnectionRoom,
+  getConnectionsByRoomId,
+  Connection,
+} from "./connection.service";
 import {
   createApiGatewayClient,
-  sendMessageToClient,
   getWebSocketEndpoint,
 } from "../utils/websocket";
-import { streamResponse, LLMRequest } from "./llm.service";
+import {
+  streamResponse,
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+} from "./llm.service";
+import {
+  ChunkDeliveryError,
+  LLMErrorCode,
+  LLMUnavailableError,
+  toLLMError,
+} from "./llm-errors";
 import { config } from "../config/config";
 import {
   getChatSession,
+  getChatSessionsByUserId,
   createChatSession,
   addMessageToChatSession,
+  addBranchMessageToChatSession,
+  setActiveLeaf,
+  getActivePath,
+  getPathTo,
+  getSiblings,
+  findLatestLeaf,
+  getSummaryForPath,
   clearChatSessionHistory,
+  deleteChatSession,
+  updateChatSessionSystemPrompt,
+  claimClientMessage,
+  completeClientMessage,
+  failClientMessage,
+  releaseClientMessage,
+  isChatSessionFull,
+  ConversationFullError,
   ChatMessage,
+  ChatMessageNode,
+  ChatSession,
 } from "./chat-session.service";
 import * as sanitizationUtils from "../utils/sanitization";
 import * as conversationUtils from "../utils/conversation";
+import { PromptMessage } from "../utils/prompt-templates";
+import { GenerationParameters } from "../utils/generation-parameters";
+import { createChunkBatcher } from "../utils/chunk-batcher";
+import {
+  createReasoningParser,
+  ReasoningSegment,
+} from "../utils/reasoning-parser";
+import {
+  ModelDefinition,
+  getModel,
+  getDefaultModel,
+  canUseModel,
+  getModelsForUser,
+  getModelDefaultParameters,
+} from "../config/models";
+import { getRateLimits } from "../config/rate-limits";
+import { summarizeConversationIfNeeded } from "./summarization.service";
+import {
+  consumeMessageTokens,
+  acquireGenerationSlot,
+  releaseGenerationSlot,
+  RateLimitRejection,
+} from "./rate-limit.service";
+import {
+  recordUsage,
+  getUsageItems,
+  checkTokenQuotas,
+  sumTokens,
+  toUsageDay,
+  toUsageMonth,
+  GenerationUsage,
+} from "./usage.service";
+import {
+  createGenerationStream,
+  getGenerationStream,
+  getGenerationEvents,
+  attachGenerationStream,
+  finishGenerationStream,
+  createGenerationRelay,
+} from "./generation-stream.service";
+import { broadcastToConnections, broadcastToRoom } from "./broadcast.service";
+import {
+  waitForBackendSlot,
+  releaseBackendSlot,
+  requestLeaveQueue,
+  renewBackendSlot,
+  QueueTimeoutError,
+} from "./generation-queue.service";
+import {
+  createRoom,
+  getRoom,
+  addRoomMember,
+  removeRoomConnection,
+  claimOrQueueRoomTurn,
+  parkRoomQueue,
+  resumeRoomQueue,
+  finishRoomTurn,
+  QueuedRoomMessage,
+  Room,
+} from "./room.service";
+import {
+  getSystemPromptPreset,
+  systemPromptPresets,
+} from "../config/system-prompts";
+import {
+  InboundMessage,
+  OutboundEvent,
+  OutboundEventDataMap,
+  SendMessageRequest,
+  SetSystemPromptRequest,
+  RegenerateRequest,
+  EditMessageRequest,
+  ResumeGenerationRequest,
+  CreateRoomRequest,
+  ConversationMessage,
+  RoomMemberSummary,
+  RateLimitName,
+} from "../protocol/messages";
+import {
+  createEvent,
+  createEventSender,
+  resolveRequestId,
+  EventSender,
+} from "../protocol/events";
 
-export interface WebSocketMessage {
-  action: string;
-  data?: any;
-}
+export type WebSocketMessage = InboundMessage;
 
-export interface WebSocketResponse {
-  message: string;
-  data?: any;
-}
+export type WebSocketResponse = OutboundEvent;
 
 // Maximum allowed message length (characters)
 // Set high enough to allow code samples
 const MAX_MESSAGE_LENGTH = 100000;
 
-// Default and maximum parameter values for safety
-const DEFAULT_PARAMS = {
-  max_tokens: 1024,
-  temperature: 0.7,
-  top_p: 1.0,
-  top_k: 40,
-  repetition_penalty: 1.0,
-  stop: [],
-};
+// Namespace for conversation ids derived from a user's first clientMessageId
+const CLIENT_CONVERSATION_NAMESPACE = "4b0c6f1e-8d2a-4f57-9a3e-2c71d5e8b640";
 
-const MAX_PARAMS = {
-  max_tokens: 4096,
-  temperature: 2.0,
-  top_p: 1.0,
-  top_k: 100,
-  repetition_penalty: 2.0,
-};
+// Actions that would change a room's conversation outside its turns
+const ROOM_BLOCKED_ACTIONS: WebSocketMessage["action"][] = [
+  "set_system_prompt",
+  "regenerate",
+  "edit_message",
+  "switch_branch",
+  "fork",
+];
 
 /**
  * Handle incoming WebSocket message
  */
 export const handleMessage = async (
-  message: WebSocketMessage,
+  rawMessage: unknown,
   connectionId: string,
   domainName: string,
   stage: string,
   apiId?: string,
-  region?: string
+  region?: string,
+  getRemainingTimeMs?: () => number
 ): Promise<WebSocketResponse> => {
   try {
+    const requestId = resolveRequestId(rawMessage);
+
     console.log("Message processing started:", {
-      action: message.action,
+      action: (rawMessage as { action?: unknown } | null)?.action,
+      requestId,
       connectionId,
       domainName,
       stage,
     });
 
-    // Validate message structure
-    const validationResult =
-      sanitizationUtils.validateMessageStructure(message);
-    if (!validationResult.valid) {
-      console.warn(
-        `Invalid message structure: ${validationResult.errorMessage}`
-      );
-      return {
-        message: "Invalid message",
-        data: {
-          message: validationResult.errorMessage,
-          sender: "System",
-          error: true,
-          timestamp: Date.now(),
-        },
-      };
-    }
-
     // Get connection details from DynamoDB
     const connection = await getConnection(connectionId);
 
@@ -107,50 +206,181 @@ export const handleMessage = async (
     // Create the API Gateway Management API client
     const apiGatewayClient = createApiGatewayClient(endpoint);
 
-    // Process the message based on action type
-    let response: WebSocketResponse;
+    // Every event sent for this request carries its id and a sequence number
+    const events = createEventSender(apiGatewayClient, connectionId, requestId);
 
-    if (message.action === "message") {
-      response = await handleChatMessage(
-        message,
-        connectionId,
-        apiGatewayClient,
-        connection
+    // Validate message structure
+    const validationResult =
+      sanitizationUtils.validateMessageStructure(rawMessage);
+    if (!validationResult.valid) {
+      console.warn(
+        `Invalid message structure: ${validationResult.errorMessage}`
       );
-    } else if (message.action === "new_conversation") {
-      // Clear the conversation history
-      await clearChatSessionHistory(connectionId);
-
-      response = {
-        message: "New conversation started",
-        data: {
-          message: "Starting a new conversation.",
-          sender: "System",
-          timestamp: Date.now(),
-        },
-      };
+      return await events.send("error", {
+        code: "invalid_message",
+        message: validationResult.errorMessage || "Invalid message",
+        timestamp: Date.now(),
+      });
+    }
 
-      // Send response back to client
-      await sendMessageToClient(apiGatewayClient, connectionId, response);
-    } else {
-      // Default response for other actions
-      response = {
-        message: "Unknown action",
-        data: {
-          message: "Hello from WebSocket Server",
-          sender: "System",
-          timestamp: Date.now(),
-        },
-      };
+    const message = rawMessage as WebSocketMessage;
 
-      // Send response back to the client for non-message actions
-      await sendMessageToClient(apiGatewayClient, connectionId, response);
+    // A room's conversation changes only through the room's queue, one turn
+    // at a time, so actions that rewrite it wait until the room is left
+    if (connection?.roomId && ROOM_BLOCKED_ACTIONS.includes(message.action)) {
+      return await sendNotAvailableInRoom(
+        message.action,
+        connection.roomId,
+        events
+      );
     }
 
-    // For demonstration, broadcast could be implemented here
-    if (message.action === "message" && config.webSocket.enableBroadcast) {
-      console.log("Broadcasting feature would be implemented here");
-      // Implementation for broadcasting to all connections would go here
+    // Process the message based on action type
+    let response: WebSocketResponse;
+
+    switch (message.action) {
+      case "message":
+        // Messages from a room go through the room's queue
+        response = connection?.roomId
+          ? await handleRoomMessage(
+              message,
+              connectionId,
+              connection,
+              connection.roomId,
+              apiGatewayClient,
+              events,
+              getRemainingTimeMs
+            )
+          : await handleChatMessage(message, connectionId, connection, events);
+        break;
+      case "new_conversation": {
+        // Start a fresh conversation; the previous one stays available to resume
+        const chatSession = await createChatSession(
+          getUserId(connection, connectionId),
+          connectionId
+        );
+        await setConnectionConversation(
+          connectionId,
+          chatSession.conversationId
+        );
+
+        response = await events.send("conversation_started", {
+          conversationId: chatSession.conversationId,
+          timestamp: Date.now(),
+        });
+        break;
+      }
+      case "resume_conversation":
+        response = await handleResumeConversation(
+          message.data.conversationId,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "list_conversations":
+        response = await handleListConversations(
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "delete_conversation":
+        response = await handleDeleteConversation(
+          message.data.conversationId,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "set_system_prompt":
+        response = await handleSetSystemPrompt(
+          message.data || {},
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "stop_generation":
+        response = await handleStopGeneration(connectionId, events);
+        break;
+      case "resume_generation":
+        response = await handleResumeGeneration(
+          message.data,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "regenerate":
+        response = await handleRegenerate(
+          message,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "edit_message":
+        response = await handleEditMessage(
+          message,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "list_models":
+        response = await handleListModels(connection, events);
+        break;
+      case "list_siblings":
+        response = await handleListSiblings(
+          message.data.messageId,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "switch_branch":
+      case "fork":
+        response = await handleSwitchBranch(
+          message.data.messageId,
+          message.action === "switch_branch",
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "create_room":
+        response = await handleCreateRoom(
+          message.data,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "join_room":
+        response = await handleJoinRoom(
+          message.data.roomId,
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "leave_room":
+        response = await handleLeaveRoom(connectionId, connection, events);
+        break;
+      case "list_room_members":
+        response = await handleListRoomMembers(
+          connectionId,
+          connection,
+          events
+        );
+        break;
+      case "get_usage":
+        response = await handleGetUsage(connectionId, connection, events);
+        break;
+      case "leave_queue":
+        response = await handleLeaveQueue(connectionId, connection, events);
+        break;
     }
 
     return response;
@@ -164,238 +394,2573 @@ export const handleMessage = async (
  * Handle chat messages including LLM processing
  */
 async function handleChatMessage(
-  message: WebSocketMessage,
+  message: SendMessageRequest,
   connectionId: string,
-  apiGatewayClient: any,
-  connection: any
+  connection: Connection | null,
+  events: EventSender
 ): Promise<WebSocketResponse> {
+  const { clientMessageId, hideReasoning } = message.data;
+
   // Send an initial acknowledgment response
-  await sendMessageToClient(apiGatewayClient, connectionId, {
-    action: "message_received",
-    data: {
-      message: "Processing your request...",
-      timestamp: Date.now(),
-    },
+  await events.send("message_received", {
+    message: "Processing your request...",
+    clientMessageId,
+    timestamp: Date.now(),
   });
 
   try {
     // Extract prompt and any LLM parameters from the message
-    const userMessage = message.data?.message || "";
-    const llmParameters = message.data?.parameters || {};
-    const userId = connection?.userId || `user-${connectionId.substring(0, 8)}`;
-    const sender = message.data?.sender || connection?.userEmail || "Anonymous";
+    const userMessage = message.data.message;
+    const llmParameters = message.data.parameters || {};
+    const userId = getUserId(connection, connectionId);
+    const sender = message.data.sender || connection?.userEmail || "Anonymous";
 
     // Log security-relevant information for monitoring
     console.log({
       event: "message_received",
       connectionId,
       userId,
+      clientMessageId,
       messageLength: userMessage.length,
       hasParameters: Object.keys(llmParameters).length > 0,
       timestamp: Date.now(),
     });
 
-    console.log(`Looking for chat session with connectionId: ${connectionId}`);
+    console.log(
+      `Looking for chat session with conversationId: ${connection?.conversationId}`
+    );
 
-    // Get the existing chat session or create a new one if needed
-    const chatSession = await getOrCreateChatSession(connectionId, userId);
+    // Get the attached chat session or create a new one if needed
+    const chatSession = await getOrCreateChatSession(
+      connection,
+      connectionId,
+      userId,
+      clientMessageId
+    );
 
     // Handle special commands
     if (userMessage.trim().toLowerCase() === "/clear") {
-      return await handleClearCommand(connectionId, apiGatewayClient);
+      return await handleClearCommand(chatSession.conversationId, events);
     }
 
-    // Sanitize user input
-    const sanitizeResult = sanitizationUtils.safelySanitizeInput(userMessage);
+    const sanitizeResult = await sanitizeUserMessage(
+      userMessage,
+      connectionId,
+      userId,
+      events,
+      clientMessageId
+    );
+    if ("response" in sanitizeResult) {
+      return sanitizeResult.response;
+    }
 
-    // Handle invalid input
-    if (!sanitizeResult.valid) {
-      console.warn(
-        `Input sanitization failed for connection ${connectionId}: ${sanitizeResult.errorMessage}`
-      );
+    const modelResult = await resolveRequestedModel(
+      message.data.model,
+      connection,
+      events,
+      clientMessageId
+    );
+    if ("response" in modelResult) {
+      return modelResult.response;
+    }
 
-      // Log security event for potential threats
-      console.error({
-        event: "security_threat_detected",
-        connectionId,
-        userId,
-        reason: sanitizeResult.errorMessage,
-        timestamp: Date.now(),
-      });
+    // A retry is answered before this, so it isn't charged twice
+    return await runClientMessage(
+      chatSession,
+      clientMessageId,
+      connectionId,
+      userId,
+      sender,
+      events,
+      async (userTurnStored) => {
+        const full = await checkConversationSize(
+          chatSession,
+          sanitizeResult.sanitized,
+          events,
+          clientMessageId
+        );
+        if (full) {
+          return full.response;
+        }
+
+        const rateLimited = await enforceRateLimits(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          sanitizeResult.sanitized.length,
+          events,
+          clientMessageId
+        );
+        if (rateLimited) {
+          return rateLimited.response;
+        }
+
+        return await runInGenerationSlot(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          events,
+          clientMessageId,
+          async () => {
+            // Add user message to chat history
+            const userChatMessage: ChatMessage = {
+              role: "user",
+              content: sanitizeResult.sanitized,
+              timestamp: Date.now(),
+              clientMessageId,
+            };
+
+            // The message continues whichever branch is active
+            console.log(
+              `Adding user message to chat session: ${chatSession.conversationId}`
+            );
+            const userNode = await addMessageToChatSession(
+              chatSession.conversationId,
+              userChatMessage,
+              chatSession.activeLeafId || null
+            );
+            if (!userNode) {
+              return await sendConversationChanged(chatSession, events);
+            }
+            userTurnStored();
+
+            // Process the message with the LLM
+            return await processWithLLM(
+              chatSession,
+              [...getActivePath(chatSession), userNode],
+              modelResult.model,
+              llmParameters,
+              connectionId,
+              userId,
+              sender,
+              events,
+              clientMessageId,
+              hideReasoning === true
+            );
+          }
+        );
+      }
+    );
+  } catch (error) {
+    return await handleLLMError(
+      error,
+      connectionId,
+      connection,
+      events,
+      clientMessageId
+    );
+  }
+}
 
-      const response = {
-        message: "Invalid input",
-        data: {
-          message:
-            sanitizeResult.errorMessage ||
-            "Your input could not be processed. Please try again.",
-          sender: "System",
-          error: true,
-          timestamp: Date.now(),
-        },
-      };
+/**
+ * Handle the regenerate action
+ * Streams a new answer to the last user turn; the previous answer stays
+ * available as an alternative branch
+ */
+async function handleRegenerate(
+  message: RegenerateRequest,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const {
+    model,
+    parameters = {},
+    clientMessageId,
+    hideReasoning,
+  } = message.data || {};
+
+  await events.send("message_received", {
+    message: "Regenerating the last answer...",
+    clientMessageId,
+    timestamp: Date.now(),
+  });
 
-      await sendMessageToClient(apiGatewayClient, connectionId, response);
-      return response;
+  try {
+    const userId = getUserId(connection, connectionId);
+    const sender = connection?.userEmail || "Anonymous";
+
+    const chatSession = await getAttachedChatSession(connection, userId);
+    if (!chatSession) {
+      return await sendConversationNotFound(connection?.conversationId, events);
     }
 
-    // Use the sanitized input for further processing
-    const sanitizedMessage = sanitizeResult.sanitized;
+    if (connection?.activeGenerationId) {
+      return await sendGenerationInProgress(connection, events);
+    }
 
-    // Log if message was modified during sanitization (for security monitoring)
-    if (sanitizedMessage !== userMessage) {
-      console.warn({
-        event: "input_sanitized",
-        connectionId,
-        userId,
-        originalLength: userMessage.length,
-        sanitizedLength: sanitizedMessage.length,
+    const path = getActivePath(chatSession);
+    const lastUserIndex = findLastUserMessageIndex(path);
+
+    if (lastUserIndex < 0) {
+      return await events.send("error", {
+        code: "nothing_to_regenerate",
+        message: "There is no message to regenerate an answer for.",
+        conversationId: chatSession.conversationId,
+        clientMessageId,
         timestamp: Date.now(),
       });
     }
 
-    // Process the message with the LLM
-    return await processWithLLM(
-      sanitizedMessage,
-      llmParameters,
+    const modelResult = await resolveRequestedModel(
+      model,
+      connection,
+      events,
+      clientMessageId
+    );
+    if ("response" in modelResult) {
+      return modelResult.response;
+    }
+
+    console.log({
+      event: "regenerate_requested",
       connectionId,
       userId,
-      sender,
+      conversationId: chatSession.conversationId,
+      messageId: path[lastUserIndex].id,
+      replacedTurns: path.length - lastUserIndex - 1,
+      hasParameters: Object.keys(parameters).length > 0,
+      timestamp: Date.now(),
+    });
+
+    return await runClientMessage(
       chatSession,
-      apiGatewayClient
+      clientMessageId,
+      connectionId,
+      userId,
+      sender,
+      events,
+      async () => {
+        const full = await checkConversationSize(
+          chatSession,
+          "",
+          events,
+          clientMessageId
+        );
+        if (full) {
+          return full.response;
+        }
+
+        // The user turn is sent to the model again, so it counts again
+        const rateLimited = await enforceRateLimits(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          path[lastUserIndex].content.length,
+          events,
+          clientMessageId
+        );
+        if (rateLimited) {
+          return rateLimited.response;
+        }
+
+        return await runInGenerationSlot(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          events,
+          clientMessageId,
+          async () =>
+            // The new answer becomes a sibling of the old one, which stays
+            // active until the new one is stored
+            await processWithLLM(
+              chatSession,
+              path.slice(0, lastUserIndex + 1),
+              modelResult.model,
+              parameters,
+              connectionId,
+              userId,
+              sender,
+              events,
+              clientMessageId,
+              hideReasoning === true,
+              undefined,
+              chatSession.activeLeafId || null
+            )
+        );
+      }
     );
   } catch (error) {
     return await handleLLMError(
       error,
       connectionId,
       connection,
-      apiGatewayClient
+      events,
+      clientMessageId
     );
   }
 }
 
 /**
- * Get existing chat session or create a new one
+ * Handle the edit_message action
+ * Adds the new text as an alternative to a user turn and answers it; the
+ * original turn and everything after it stay available as another branch
  */
-async function getOrCreateChatSession(connectionId: string, userId: string) {
-  let chatSession = await getChatSession(connectionId);
+async function handleEditMessage(
+  message: EditMessageRequest,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const {
+    messageId,
+    model,
+    parameters = {},
+    clientMessageId,
+    hideReasoning,
+  } = message.data;
+
+  await events.send("message_received", {
+    message: "Processing your edited message...",
+    clientMessageId,
+    timestamp: Date.now(),
+  });
 
-  if (!chatSession) {
-    console.log(
-      `No chat session found for ${connectionId}, creating a new one`
+  try {
+    const userId = getUserId(connection, connectionId);
+    const sender = connection?.userEmail || "Anonymous";
+
+    const chatSession = await getAttachedChatSession(connection, userId);
+    if (!chatSession) {
+      return await sendConversationNotFound(connection?.conversationId, events);
+    }
+
+    if (connection?.activeGenerationId) {
+      return await sendGenerationInProgress(connection, events);
+    }
+
+    const target = chatSession.messages?.[messageId];
+    if (target?.role !== "user") {
+      return await events.send("error", {
+        code: "invalid_message_id",
+        message: `Message ${messageId} is not a user message in this conversation.`,
+        conversationId: chatSession.conversationId,
+        clientMessageId,
+        timestamp: Date.now(),
+      });
+    }
+
+    const sanitizeResult = await sanitizeUserMessage(
+      message.data.message,
+      connectionId,
+      userId,
+      events,
+      clientMessageId
     );
-    chatSession = await createChatSession(connectionId, userId);
-  } else {
-    console.log(`Found existing chat session for ${connectionId}`);
-  }
+    if ("response" in sanitizeResult) {
+      return sanitizeResult.response;
+    }
 
-  return chatSession;
+    const modelResult = await resolveRequestedModel(
+      model,
+      connection,
+      events,
+      clientMessageId
+    );
+    if ("response" in modelResult) {
+      return modelResult.response;
+    }
+
+    console.log({
+      event: "edit_requested",
+      connectionId,
+      userId,
+      conversationId: chatSession.conversationId,
+      messageId,
+      siblingCount: getSiblings(chatSession, messageId).length + 1,
+      timestamp: Date.now(),
+    });
+
+    return await runClientMessage(
+      chatSession,
+      clientMessageId,
+      connectionId,
+      userId,
+      sender,
+      events,
+      async (userTurnStored) => {
+        const full = await checkConversationSize(
+          chatSession,
+          sanitizeResult.sanitized,
+          events,
+          clientMessageId
+        );
+        if (full) {
+          return full.response;
+        }
+
+        const rateLimited = await enforceRateLimits(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          sanitizeResult.sanitized.length,
+          events,
+          clientMessageId
+        );
+        if (rateLimited) {
+          return rateLimited.response;
+        }
+
+        return await runInGenerationSlot(
+          connectionId,
+          userId,
+          connection?.userGroups || [],
+          events,
+          clientMessageId,
+          async () => {
+            const userChatMessage: ChatMessage = {
+              role: "user",
+              content: sanitizeResult.sanitized,
+              timestamp: Date.now(),
+              clientMessageId,
+            };
+
+            const userNode = await addMessageToChatSession(
+              chatSession.conversationId,
+              userChatMessage,
+              target.parentId,
+              chatSession.activeLeafId || null
+            );
+            if (!userNode) {
+              return await sendConversationChanged(chatSession, events);
+            }
+            userTurnStored();
+
+            return await processWithLLM(
+              chatSession,
+              [...getPathTo(chatSession, target.parentId), userNode],
+              modelResult.model,
+              parameters,
+              connectionId,
+              userId,
+              sender,
+              events,
+              clientMessageId,
+              hideReasoning === true
+            );
+          }
+        );
+      }
+    );
+  } catch (error) {
+    return await handleLLMError(
+      error,
+      connectionId,
+      connection,
+      events,
+      clientMessageId
+    );
+  }
 }
 
 /**
- * Handle the /clear command
+ * Sanitize a user prompt, logging anything suspicious
+ * Sends the invalid_input error itself when the prompt is rejected
  */
-async function handleClearCommand(
+async function sanitizeUserMessage(
+  userMessage: string,
   connectionId: string,
-  apiGatewayClient: any
-): Promise<WebSocketResponse> {
-  await clearChatSessionHistory(connectionId);
+  userId: string,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<{ sanitized: string } | { response: WebSocketResponse }> {
+  // Sanitize user input
+  const sanitizeResult = sanitizationUtils.safelySanitizeInput(userMessage);
+
+  // Handle invalid input
+  if (!sanitizeResult.valid) {
+    console.warn(
+      `Input sanitization failed for connection ${connectionId}: ${sanitizeResult.errorMessage}`
+    );
 
-  // Send confirmation message
-  const response = {
-    message: "Chat history cleared",
-    data: {
-      message: "Chat history has been cleared. Starting a new conversation.",
-      sender: "System",
+    // Log security event for potential threats
+    console.error({
+      event: "security_threat_detected",
+      connectionId,
+      userId,
+      reason: sanitizeResult.errorMessage,
       timestamp: Date.now(),
-    },
-  };
+    });
 
-  await sendMessageToClient(apiGatewayClient, connectionId, response);
-  return response;
+    return {
+      response: await events.send("error", {
+        code: "invalid_input",
+        message:
+          sanitizeResult.errorMessage ||
+          "Your input could not be processed. Please try again.",
+        clientMessageId,
+        timestamp: Date.now(),
+      }),
+    };
+  }
+
+  // Use the sanitized input for further processing
+  const sanitizedMessage = sanitizeResult.sanitized;
+
+  // Log if message was modified during sanitization (for security monitoring)
+  if (sanitizedMessage !== userMessage) {
+    console.warn({
+      event: "input_sanitized",
+      connectionId,
+      userId,
+      originalLength: userMessage.length,
+      sanitizedLength: sanitizedMessage.length,
+      timestamp: Date.now(),
+    });
+  }
+
+  return { sanitized: sanitizedMessage };
 }
 
 /**
- * Process the message with the LLM service
+ * Look up the model a request asked for, or the default one
+ * Sends the unknown_model error itself when the model doesn't exist or the
+ * user may not use it
  */
-async function processWithLLM(
-  sanitizedMessage: string,
-  llmParameters: any,
+async function resolveRequestedModel(
+  modelId: string | undefined,
+  connection: Connection | null,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<{ model: ModelDefinition } | { response: WebSocketResponse }> {
+  const userGroups = connection?.userGroups || [];
+  const model = modelId ? getModel(modelId) : getDefaultModel();
+
+  // Models the user may not use are reported as unknown, like missing ones
+  if (!model || !canUseModel(model, userGroups)) {
+    console.warn({
+      event: "model_not_available",
+      connectionId: connection?.connectionId,
+      userId: connection?.userId,
+      model: modelId,
+      exists: !!model,
+      timestamp: Date.now(),
+    });
+
+    return {
+      response: await events.send("error", {
+        code: "unknown_model",
+        message: `Unknown model "${modelId || getDefaultModel().id}".`,
+        clientMessageId,
+        availableModels: getModelsForUser(userGroups).map(({ id, name }) => ({
+          id,
+          name,
+        })),
+        timestamp: Date.now(),
+      }),
+    };
+  }
+
+  return { model };
+}
+
+/**
+ * Spend a message and its prompt characters from the user's rate limits
+ * Sends the rate_limited event itself when the user is over a limit
+ */
+async function enforceRateLimits(
   connectionId: string,
   userId: string,
-  sender: string,
-  chatSession: any,
-  apiGatewayClient: any
-): Promise<WebSocketResponse> {
-  // Add user message to chat history
-  const userChatMessage: ChatMessage = {
-    role: "user",
-    content: sanitizedMessage,
-    timestamp: Date.now(),
-  };
-
-  console.log(`Adding user message to chat session: ${connectionId}`);
-  await addMessageToChatSession(connectionId, userChatMessage);
+  userGroups: string[],
+  promptCharacters: number,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<{ response: WebSocketResponse } | null> {
+  if (!config.rateLimits.enabled) {
+    return null;
+  }
 
-  // Format conversation history for the LLM
-  const conversationHistoryText = conversationUtils.formatConversationHistory(
-    chatSession.conversationHistory || []
+  const rejection = await consumeMessageTokens(
+    userId,
+    getRateLimits(userGroups),
+    promptCharacters
   );
+  if (!rejection) {
+    return null;
+  }
 
-  // Create the prompt with conversation history
-  const fullPrompt = conversationHistoryText
-    ? `${conversationHistoryText}\n\nHuman: ${sanitizedMessage}\n\nAssistant:`
-    : `Human: ${sanitizedMessage}\n\nAssistant:`;
+  return {
+    response: await sendRateLimited(
+      rejection,
+      connectionId,
+      userId,
+      events,
+      clientMessageId
+    ),
+  };
+}
 
-  // Log prompt size for monitoring
-  console.log({
-    event: "prompt_created",
-    connectionId,
-    userId,
-    promptLength: fullPrompt.length,
-    messageCount: (chatSession.conversationHistory?.length || 0) + 1,
+/**
+ * Refuse a message the conversation has no room left to store
+ * Sends the conversation_full error itself
+ */
+async function checkConversationSize(
+  chatSession: ChatSession,
+  content: string,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<{ response: WebSocketResponse } | null> {
+  if (!isChatSessionFull(chatSession, Buffer.byteLength(content))) {
+    return null;
+  }
+
+  console.warn({
+    event: "conversation_full",
+    conversationId: chatSession.conversationId,
+    userId: chatSession.userId,
+    clientMessageId,
     timestamp: Date.now(),
   });
 
-  // Sanitize LLM parameters
-  const sanitizedParameters =
-    sanitizationUtils.safelySanitizeParameters(llmParameters);
+  return {
+    response: await sendConversationFull(
+      chatSession.conversationId,
+      events,
+      clientMessageId
+    ),
+  };
+}
 
-  // Log if parameters were modified during sanitization (for security monitoring)
-  if (JSON.stringify(sanitizedParameters) !== JSON.stringify(llmParameters)) {
-    console.warn({
-      event: "parameters_sanitized",
+/**
+ * Run a generation in one of the user's concurrent generation slots
+ * Sends the rate_limited event instead when all of them are taken, or when
+ * the user has used up a token quota
+ */
+async function runInGenerationSlot(
+  connectionId: string,
+  userId: string,
+  userGroups: string[],
+  events: EventSender,
+  clientMessageId: string | undefined,
+  run: () => Promise<WebSocketResponse>
+): Promise<WebSocketResponse> {
+  if (!config.rateLimits.enabled) {
+    return await run();
+  }
+
+  const limits = getRateLimits(userGroups);
+  const overQuota = await checkTokenQuotas(userId, limits);
+  if (overQuota) {
+    return await sendRateLimited(
+      overQuota,
       connectionId,
       userId,
-      originalParameters: JSON.stringify(llmParameters),
-      sanitizedParameters: JSON.stringify(sanitizedParameters),
-      timestamp: Date.now(),
-    });
+      events,
+      clientMessageId
+    );
   }
 
-  // Create LLM request with sanitized parameters
-  const llmRequest: LLMRequest = {
-    prompt: fullPrompt,
-    parameters: sanitizedParameters,
-  };
+  if (limits.concurrentGenerations === 0) {
+    return await run();
+  }
 
-  // Stream responses from the LLM service
-  let fullResponse = "";
-  let chunkCount = 0;
-  let securityMonitoring = {
-    containsSystemCommands: false,
-    containsCodeBlock: false,
-    codeBlockCount: 0,
-    codeBlockTypes: new Set<string>(),
-  };
+  const leaseId = uuidv4();
+  const rejection = await acquireGenerationSlot(userId, limits, leaseId);
+  if (rejection) {
+    return await sendRateLimited(
+      rejection,
+      connectionId,
+      userId,
+      events,
+      clientMessageId
+    );
+  }
 
-  await streamResponse(llmRequest, async (chunk) => {
-    fullResponse += chunk.text;
-    chunkCount++;
+  try {
+    return await run();
+  } finally {
+    try {
+      await releaseGenerationSlot(userId, leaseId);
+    } catch (error) {
+      console.error("Error releasing generation slot:", error);
+    }
+  }
+}
 
-    // Monitor code content in the LLM response - just for logging, not filtering
-    // Detect code blocks for logging purposes
-    const codeBlockMatch = chunk.text.match(/```([a-zA-Z0-9_]+)?/);
+// What clients are told for each limit
+const RATE_LIMIT_MESSAGES: Record<RateLimitName, string> = {
+  messages_per_minute:
+    "You are sending messages too quickly. Please wait a moment.",
+  prompt_characters_per_hour:
+    "You have sent too much text in the last hour. Please try again later.",
+  concurrent_generations:
+    "Too many answers are being generated for you at once. Please wait for one to finish.",
+  daily_tokens:
+    "You have used up today's token quota. It resets at midnight UTC.",
+  monthly_tokens:
+    "You have used up this month's token quota. It resets at the start of next month (UTC).",
+};
+
+/**
+ * Send the rate_limited event for a request over one of the user's limits
+ */
+async function sendRateLimited(
+  rejection: RateLimitRejection,
+  connectionId: string,
+  userId: string,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<WebSocketResponse> {
+  console.warn({
+    event: "rate_limited",
+    connectionId,
+    userId,
+    limit: rejection.limit,
+    retryAfterMs: rejection.retryAfterMs,
+    clientMessageId,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("rate_limited", {
+    limit: rejection.limit,
+    message: RATE_LIMIT_MESSAGES[rejection.limit],
+    retryAfterMs: rejection.retryAfterMs,
+    clientMessageId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Run the generation for a client message exactly once
+ * A retried clientMessageId is answered from its first run. When the run fails
+ * before run calls userTurnStored the id is released so the next retry runs
+ * again; after that it is marked failed, since retrying would store the user
+ * turn twice
+ */
+async function runClientMessage(
+  chatSession: ChatSession,
+  clientMessageId: string | undefined,
+  connectionId: string,
+  userId: string,
+  sender: string,
+  events: EventSender,
+  run: (userTurnStored: () => void) => Promise<WebSocketResponse>
+): Promise<WebSocketResponse> {
+  if (!clientMessageId) {
+    return await run(() => undefined);
+  }
+
+  if (!(await claimClientMessage(chatSession, clientMessageId))) {
+    return await handleDuplicateMessage(
+      chatSession.conversationId,
+      clientMessageId,
+      connectionId,
+      userId,
+      sender,
+      events
+    );
+  }
+
+  let response: WebSocketResponse | undefined;
+  let stored = false;
+  try {
+    response = await run(() => {
+      stored = true;
+    });
+    return response;
+  } finally {
+    if (
+      !response ||
+      response.event === "error" ||
+      response.event === "rate_limited"
+    ) {
+      try {
+        if (stored) {
+          await failClientMessage(chatSession.conversationId, clientMessageId);
+        } else {
+          await releaseClientMessage(
+            chatSession.conversationId,
+            clientMessageId
+          );
+        }
+      } catch (error) {
+        console.error("Error updating client message:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Index of the last user turn in a history, or -1 when there is none
+ */
+function findLastUserMessageIndex(history: ChatMessageNode[]): number {
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (history[index].role === "user") {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Answer a message whose clientMessageId was already processed
+ * Replays the stored answer when there is one, otherwise only acknowledges it
+ */
+async function handleDuplicateMessage(
+  conversationId: string,
+  clientMessageId: string,
+  connectionId: string,
+  userId: string,
+  sender: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const chatSession = await getChatSession(conversationId);
+  const record = chatSession?.processedMessages?.[clientMessageId];
+  // The answer may be on any branch by now, so look through every message
+  const answer =
+    record?.status === "completed"
+      ? Object.values(chatSession?.messages || {})
+          .filter(
+            (chatMessage) =>
+              chatMessage.role === "assistant" &&
+              chatMessage.clientMessageId === clientMessageId
+          )
+          .sort((a, b) => b.timestamp - a.timestamp)[0]
+      : undefined;
+
+  console.log({
+    event: "duplicate_message",
+    connectionId,
+    userId,
+    conversationId,
+    clientMessageId,
+    status: record?.status,
+    replayed: !!answer,
+    timestamp: Date.now(),
+  });
+
+  if (answer && record?.generationId) {
+    return await events.send("llm_response_complete", {
+      message: answer.content,
+      sender,
+      conversationId,
+      isComplete: true,
+      cancelled: !!record.cancelled,
+      generationId: record.generationId,
+      clientMessageId,
+      replayed: true,
+      model: answer.model,
+      messageId: answer.id,
+      parentMessageId: answer.parentId || undefined,
+      timestamp: Date.now(),
+    });
+  }
+
+  return await events.send("duplicate_message", {
+    clientMessageId,
+    conversationId,
+    status: record?.status || "processing",
+    generationId: record?.generationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Resolve the user id for a connection
+ * Falls back to a connection-derived id when the connection record is missing
+ */
+function getUserId(connection: Connection | null, connectionId: string) {
+  return connection?.userId || `user-${connectionId.substring(0, 8)}`;
+}
+
+/**
+ * Get the chat session attached to the connection or create a new one
+ * A conversation started by a message with a clientMessageId gets an id
+ * derived from it, so a retry from a new connection finds the same
+ * conversation and is recognised as a retry there
+ */
+async function getOrCreateChatSession(
+  connection: Connection | null,
+  connectionId: string,
+  userId: string,
+  clientMessageId?: string
+): Promise<ChatSession> {
+  if (connection?.conversationId) {
+    const chatSession = await getChatSession(connection.conversationId);
+
+    // Only reuse a conversation that still exists and belongs to this user
+    if (chatSession && chatSession.userId === userId && !chatSession.roomId) {
+      console.log(`Found existing chat session ${chatSession.conversationId}`);
+      return chatSession;
+    }
+  }
+
+  console.log(
+    `No chat session attached to ${connectionId}, creating a new one`
+  );
+  const chatSession = clientMessageId
+    ? await getOrCreateClientConversation(
+        userId,
+        connectionId,
+        clientMessageId
+      )
+    : await createChatSession(userId, connectionId);
+  await setConnectionConversation(connectionId, chatSession.conversationId);
+
+  return chatSession;
+}
+
+/**
+ * Create the conversation a first clientMessageId starts, or find the one an
+ * earlier attempt of it already created
+ */
+async function getOrCreateClientConversation(
+  userId: string,
+  connectionId: string,
+  clientMessageId: string
+): Promise<ChatSession> {
+  const conversationId = uuidv5(
+    `${userId}:${clientMessageId}`,
+    CLIENT_CONVERSATION_NAMESPACE
+  );
+
+  try {
+    return await createChatSession(
+      userId,
+      connectionId,
+      undefined,
+      conversationId
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name !== "ConditionalCheckFailedException"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await getOwnedChatSession(conversationId, userId);
+  if (!existing) {
+    throw new Error(`Conversation ${conversationId} is not available`);
+  }
+  console.log(
+    `Found conversation ${conversationId} started by client message ${clientMessageId}`
+  );
+  return existing;
+}
+
+/**
+ * Get the conversation attached to the connection, if the user still owns it
+ * In a room that is the room's conversation, while the user is a member
+ */
+async function getAttachedChatSession(
+  connection: Connection | null,
+  userId: string
+): Promise<ChatSession | null> {
+  if (connection?.roomId) {
+    const room = await getRoom(connection.roomId);
+    if (!room?.members[userId]) {
+      return null;
+    }
+    return await getChatSession(room.conversationId);
+  }
+
+  if (!connection?.conversationId) {
+    return null;
+  }
+
+  return await getOwnedChatSession(connection.conversationId, userId);
+}
+
+/**
+ * Load a conversation and verify that it belongs to the user
+ * Returns null for missing conversations and ones owned by someone else alike,
+ * so callers can't probe for other users' conversation ids. A room's
+ * conversation belongs to the room, even for the member who created it
+ */
+async function getOwnedChatSession(
+  conversationId: string,
+  userId: string
+): Promise<ChatSession | null> {
+  const chatSession = await getChatSession(conversationId);
+
+  if (!chatSession || chatSession.userId !== userId || chatSession.roomId) {
+    console.warn({
+      event: "conversation_access_denied",
+      conversationId,
+      userId,
+      found: !!chatSession,
+      timestamp: Date.now(),
+    });
+    return null;
+  }
+
+  return chatSession;
+}
+
+/**
+ * Send the error for a conversation that can't be found
+ */
+function sendConversationNotFound(
+  conversationId: string | undefined,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "conversation_not_found",
+    message: "The requested conversation could not be found.",
+    conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a conversation too large to store another message
+ */
+function sendConversationFull(
+  conversationId: string,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "conversation_full",
+    message:
+      "This conversation has reached its maximum size. Please start a new conversation to continue.",
+    conversationId,
+    clientMessageId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a history change that lost a race with another writer
+ */
+function sendConversationChanged(
+  chatSession: ChatSession,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "conversation_changed",
+    message:
+      "The conversation changed while your request was processed. Please try again.",
+    conversationId: chatSession.conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a history change requested while an answer is streaming
+ */
+function sendGenerationInProgress(
+  connection: Connection,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "generation_in_progress",
+    message:
+      "An answer is still being generated. Stop it or wait for it to finish first.",
+    conversationId: connection.conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a message id that isn't part of the conversation
+ */
+function sendMessageNotFound(
+  chatSession: ChatSession,
+  messageId: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "message_not_found",
+    message: `Message ${messageId} is not part of this conversation.`,
+    conversationId: chatSession.conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Describe stored messages for clients, with their place among their siblings
+ */
+function toConversationMessages(
+  chatSession: ChatSession,
+  messages: ChatMessageNode[]
+): ConversationMessage[] {
+  return messages.map((chatMessage) => {
+    const siblings = getSiblings(chatSession, chatMessage.id);
+
+    return {
+      id: chatMessage.id,
+      parentId: chatMessage.parentId,
+      role: chatMessage.role,
+      content: chatMessage.content,
+      timestamp: chatMessage.timestamp,
+      clientMessageId: chatMessage.clientMessageId,
+      model: chatMessage.model,
+      userId: chatMessage.userId,
+      userEmail: chatMessage.userEmail,
+      siblingCount: siblings.length,
+      siblingIndex: siblings.findIndex(
+        (sibling) => sibling.id === chatMessage.id
+      ),
+    };
+  });
+}
+
+/**
+ * Handle the list_models action
+ * Returns the models the user may pick, without their endpoints
+ */
+async function handleListModels(
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const models = getModelsForUser(connection?.userGroups || []);
+
+  return await events.send("model_list", {
+    models: models.map((model) => ({
+      id: model.id,
+      name: model.name,
+      contextWindowTokens: model.contextWindowTokens,
+      defaultParameters: getModelDefaultParameters(model),
+    })),
+    defaultModel: getDefaultModel().id,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the get_usage action
+ * Returns the tokens the user spent this UTC day and month, and their quotas
+ */
+async function handleGetUsage(
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const now = Date.now();
+  const day = toUsageDay(now);
+  const month = toUsageMonth(now);
+  const items = await getUsageItems(userId, month);
+  // Quotas aren't enforced while rate limiting is off
+  const limits = config.rateLimits.enabled
+    ? getRateLimits(connection?.userGroups || [])
+    : null;
+
+  return await events.send("usage", {
+    day,
+    month,
+    dailyTokens: sumTokens(items.filter((item) => item.day === day)),
+    monthlyTokens: sumTokens(items),
+    dailyTokenQuota: limits?.dailyTokens ?? 0,
+    monthlyTokenQuota: limits?.monthlyTokens ?? 0,
+    records: items.map((item) => ({
+      day: item.day,
+      model: item.model,
+      promptTokens: item.promptTokens,
+      completionTokens: item.completionTokens,
+      generations: item.generations,
+    })),
+    timestamp: now,
+  });
+}
+
+/**
+ * Handle the list_siblings action
+ * Returns every alternative of a message so clients can offer to switch
+ */
+async function handleListSiblings(
+  messageId: string,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const chatSession = await getAttachedChatSession(connection, userId);
+
+  if (!chatSession) {
+    return await sendConversationNotFound(connection?.conversationId, events);
+  }
+
+  const chatMessage = chatSession.messages?.[messageId];
+  if (!chatMessage) {
+    return await sendMessageNotFound(chatSession, messageId, events);
+  }
+
+  const siblings = getSiblings(chatSession, messageId);
+  const activeIds = new Set(
+    getActivePath(chatSession).map((pathMessage) => pathMessage.id)
+  );
+  const activeIndex = siblings.findIndex((sibling) =>
+    activeIds.has(sibling.id)
+  );
+
+  return await events.send("sibling_list", {
+    conversationId: chatSession.conversationId,
+    messageId,
+    parentId: chatMessage.parentId,
+    siblings: toConversationMessages(chatSession, siblings),
+    activeIndex: activeIndex >= 0 ? activeIndex : null,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the switch_branch and fork actions
+ * switch_branch shows the latest continuation of the branch holding the
+ * message, fork makes the message itself the end of the active branch so the
+ * next message replies to it
+ */
+async function handleSwitchBranch(
+  messageId: string,
+  followLatest: boolean,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const chatSession = await getAttachedChatSession(connection, userId);
+
+  if (!chatSession) {
+    return await sendConversationNotFound(connection?.conversationId, events);
+  }
+
+  // The streaming answer would land on the branch the client just left
+  if (connection?.activeGenerationId) {
+    return await sendGenerationInProgress(connection, events);
+  }
+
+  if (!chatSession.messages?.[messageId]) {
+    return await sendMessageNotFound(chatSession, messageId, events);
+  }
+
+  const leafId = followLatest
+    ? findLatestLeaf(chatSession, messageId)
+    : messageId;
+
+  if (!(await setActiveLeaf(chatSession.conversationId, leafId))) {
+    return await sendConversationChanged(chatSession, events);
+  }
+
+  const history = getPathTo(chatSession, leafId);
+
+  console.log({
+    event: followLatest ? "branch_switched" : "conversation_forked",
+    connectionId,
+    userId,
+    conversationId: chatSession.conversationId,
+    messageId,
+    activeLeafId: leafId,
+    previousLeafId: chatSession.activeLeafId,
+    messageCount: history.length,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("branch_switched", {
+    conversationId: chatSession.conversationId,
+    activeLeafId: leafId,
+    history: toConversationMessages(chatSession, history),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the resume_conversation action
+ * Attaches the connection to an existing conversation and returns its history
+ */
+async function handleResumeConversation(
+  conversationId: string,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const chatSession = await getOwnedChatSession(conversationId, userId);
+
+  if (!chatSession) {
+    return await sendConversationNotFound(conversationId, events);
+  }
+
+  await setConnectionConversation(connectionId, conversationId);
+
+  const history = getActivePath(chatSession);
+
+  console.log({
+    event: "conversation_resumed",
+    connectionId,
+    userId,
+    conversationId,
+    messageCount: history.length,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("conversation_resumed", {
+    conversationId,
+    title: chatSession.title || "",
+    history: toConversationMessages(chatSession, history),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the list_conversations action
+ * Returns a summary of every conversation owned by the user
+ */
+async function handleListConversations(
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  // Room conversations are reached through their room
+  const chatSessions = (await getChatSessionsByUserId(userId)).filter(
+    (chatSession) => !chatSession.roomId
+  );
+
+  return await events.send("conversation_list", {
+    conversations: chatSessions.map((chatSession) => ({
+      conversationId: chatSession.conversationId,
+      title: chatSession.title || "",
+      messageCount: getActivePath(chatSession).length,
+      createdAt: chatSession.createdAt,
+      updatedAt: chatSession.updatedAt,
+      isActive: chatSession.conversationId === connection?.conversationId,
+    })),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the delete_conversation action
+ */
+async function handleDeleteConversation(
+  conversationId: string,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const chatSession = await getOwnedChatSession(conversationId, userId);
+
+  if (!chatSession) {
+    return await sendConversationNotFound(conversationId, events);
+  }
+
+  await deleteChatSession(conversationId);
+
+  // Detach this connection so the next message starts a new conversation
+  if (connection?.conversationId === conversationId) {
+    await setConnectionConversation(connectionId, null);
+  }
+
+  console.log({
+    event: "conversation_deleted",
+    connectionId,
+    userId,
+    conversationId,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("conversation_deleted", {
+    conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the set_system_prompt action
+ * Accepts a preset id, a custom prompt, or neither to restore the default
+ */
+async function handleSetSystemPrompt(
+  data: NonNullable<SetSystemPromptRequest["data"]>,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const chatSession = await getOrCreateChatSession(
+    connection,
+    connectionId,
+    userId
+  );
+
+  let systemPrompt: string | null = null;
+  let presetId: string | null = null;
+
+  if (data.presetId) {
+    const preset = getSystemPromptPreset(data.presetId);
+
+    if (!preset) {
+      return await events.send("error", {
+        code: "unknown_preset",
+        message: `Unknown preset "${data.presetId}".`,
+        availablePresets: Object.entries(systemPromptPresets).map(
+          ([id, { name }]) => ({ id, name })
+        ),
+        timestamp: Date.now(),
+      });
+    }
+
+    systemPrompt = preset.prompt;
+    presetId = data.presetId;
+  } else if (data.systemPrompt) {
+    // Custom prompts go through the same checks as user messages
+    const sanitizeResult = sanitizationUtils.safelySanitizeInput(
+      data.systemPrompt
+    );
+
+    if (
+      !sanitizeResult.valid ||
+      sanitizeResult.sanitized.length > config.llm.maxSystemPromptLength
+    ) {
+      return await events.send("error", {
+        code: "invalid_system_prompt",
+        message: !sanitizeResult.valid
+          ? sanitizeResult.errorMessage || "Invalid system prompt"
+          : `System prompt exceeds maximum allowed length of ${config.llm.maxSystemPromptLength} characters`,
+        timestamp: Date.now(),
+      });
+    }
+
+    systemPrompt = sanitizeResult.sanitized;
+  }
+
+  await updateChatSessionSystemPrompt(
+    chatSession.conversationId,
+    systemPrompt,
+    presetId
+  );
+
+  console.log({
+    event: "system_prompt_set",
+    connectionId,
+    userId,
+    conversationId: chatSession.conversationId,
+    presetId,
+    isCustom: !!systemPrompt && !presetId,
+    isDefault: !systemPrompt,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("system_prompt_updated", {
+    conversationId: chatSession.conversationId,
+    presetId,
+    systemPrompt: systemPrompt || config.llm.defaultSystemPrompt,
+    isDefault: !systemPrompt,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the /clear command
+ */
+async function handleClearCommand(
+  conversationId: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  await clearChatSessionHistory(conversationId);
+
+  // Send confirmation message
+  return await events.send("history_cleared", {
+    conversationId,
+    message: "Chat history has been cleared. Starting a new conversation.",
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle a stop_generation request
+ * The stream itself runs in another invocation, so this only records the
+ * request on the connection; the streaming invocation picks it up by polling
+ */
+async function handleStopGeneration(
+  connectionId: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const generationId = await requestGenerationCancel(connectionId);
+
+  console.log({
+    event: "generation_stop_requested",
+    connectionId,
+    generationId,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("generation_stop_requested", {
+    generationId,
+    stopping: !!generationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the leave_queue action
+ * Takes the connection's generation out of the queue if it is still waiting;
+ * unlike stop_generation, one that already started keeps going
+ */
+async function handleLeaveQueue(
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const generationId = connection?.activeGenerationId || null;
+  const leaving = generationId
+    ? await requestLeaveQueue(generationId, getUserId(connection, connectionId))
+    : false;
+
+  console.log({
+    event: "queue_leave_requested",
+    connectionId,
+    generationId,
+    leaving,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("queue_leave_requested", {
+    generationId,
+    leaving,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the resume_generation action
+ * Moves a generation to this connection after the one it streamed to was
+ * lost and sends its events from fromSequence on. A generation still
+ * streaming replays them from its own invocation and then continues here; a
+ * finished one is replayed from storage.
+ */
+async function handleResumeGeneration(
+  data: ResumeGenerationRequest["data"],
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const { generationId, fromSequence = 0 } = data;
+  const stream = await getGenerationStream(generationId);
+
+  if (!stream || stream.userId !== userId) {
+    return await events.send("error", {
+      code: "generation_not_found",
+      message: "The requested generation could not be found or has expired.",
+      timestamp: Date.now(),
+    });
+  }
+
+  if (
+    connection?.activeGenerationId &&
+    connection.activeGenerationId !== generationId
+  ) {
+    return await sendGenerationInProgress(connection, events);
+  }
+
+  await setConnectionConversation(connectionId, stream.conversationId);
+
+  // Sent before the handover so it arrives ahead of the replayed events
+  const response = await events.send("generation_resumed", {
+    generationId,
+    conversationId: stream.conversationId,
+    fromSequence,
+    status: stream.status,
+    timestamp: Date.now(),
+  });
+
+  // Fails once the generation has finished; its stored events are complete
+  const attached =
+    stream.status === "streaming" &&
+    (await attachGenerationStream(generationId, connectionId, fromSequence));
+  let replayedEvents = 0;
+
+  if (attached) {
+    await setActiveGeneration(connectionId, generationId);
+  } else {
+    for (const outbound of await getGenerationEvents(
+      generationId,
+      fromSequence
+    )) {
+      await events.forward(outbound);
+      replayedEvents++;
+    }
+  }
+
+  console.log({
+    event: "generation_resume_requested",
+    connectionId,
+    userId,
+    generationId,
+    fromSequence,
+    // Whether the streaming invocation took over the replay
+    attached: !!attached,
+    replayedEvents,
+    timestamp: Date.now(),
+  });
+
+  return response;
+}
+
+/**
+ * Handle the create_room action
+ * Starts a shared conversation and moves this connection into its room
+ */
+async function handleCreateRoom(
+  data: CreateRoomRequest["data"],
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+  const name = data?.name?.trim() || "Shared conversation";
+
+  const roomId = uuidv4();
+  const chatSession = await createChatSession(userId, connectionId, roomId);
+  const room = await createRoom(
+    name,
+    { userId, userEmail: connection?.userEmail },
+    chatSession.conversationId,
+    roomId
+  );
+  await setConnectionRoom(connectionId, room);
+
+  console.log({
+    event: "room_created",
+    connectionId,
+    userId,
+    roomId: room.roomId,
+    conversationId: room.conversationId,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("room_created", {
+    roomId: room.roomId,
+    name: room.name,
+    conversationId: room.conversationId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the join_room action
+ * Anyone who knows the room id may join; the reply carries the conversation
+ * so far
+ */
+async function handleJoinRoom(
+  roomId: string,
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const userId = getUserId(connection, connectionId);
+
+  // Nobody becomes a member of a room whose conversation is gone
+  const existing = await getRoom(roomId);
+  const chatSession =
+    existing && (await getChatSession(existing.conversationId));
+  if (!chatSession) {
+    return await sendRoomNotFound(roomId, events);
+  }
+
+  const room = await addRoomMember(roomId, {
+    userId,
+    userEmail: connection?.userEmail,
+    joinedAt: Date.now(),
+  });
+  if (!room) {
+    return await sendRoomNotFound(roomId, events);
+  }
+
+  await setConnectionRoom(connectionId, room);
+
+  console.log({
+    event: "room_joined",
+    connectionId,
+    userId,
+    roomId,
+    memberCount: Object.keys(room.members).length,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("room_joined", {
+    roomId,
+    name: room.name,
+    conversationId: room.conversationId,
+    members: await toRoomMemberSummaries(room),
+    history: toConversationMessages(chatSession, getActivePath(chatSession)),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the leave_room action
+ * The connection is left without a conversation, like after deleting one.
+ * The user stays a member while another of their connections is in the room
+ */
+async function handleLeaveRoom(
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const roomId = connection?.roomId;
+  if (!roomId) {
+    return await sendNotInRoom(events);
+  }
+
+  const userId = getUserId(connection, connectionId);
+  const stillMember = await removeRoomConnection(
+    roomId,
+    userId,
+    connectionId
+  );
+  await setConnectionRoom(connectionId, null);
+
+  console.log({
+    event: "room_left",
+    connectionId,
+    userId,
+    roomId,
+    stillMember,
+    timestamp: Date.now(),
+  });
+
+  return await events.send("room_left", {
+    roomId,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle the list_room_members action
+ */
+async function handleListRoomMembers(
+  connectionId: string,
+  connection: Connection | null,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  const roomId = connection?.roomId;
+  if (!roomId) {
+    return await sendNotInRoom(events);
+  }
+
+  const room = await getRoom(roomId);
+  if (!room?.members[getUserId(connection, connectionId)]) {
+    return await sendRoomNotFound(roomId, events);
+  }
+
+  return await events.send("room_member_list", {
+    roomId,
+    members: await toRoomMemberSummaries(room),
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Handle a chat message sent from a shared room
+ * The message is answered now if the room is idle and queued otherwise; the
+ * invocation holding the room answers the queued messages before it returns,
+ * while it has time left. getRemainingTimeMs is the invocation's time left
+ */
+async function handleRoomMessage(
+  message: SendMessageRequest,
+  connectionId: string,
+  connection: Connection,
+  roomId: string,
+  apiGatewayClient: ApiGatewayManagementApiClient,
+  events: EventSender,
+  getRemainingTimeMs?: () => number
+): Promise<WebSocketResponse> {
+  const { clientMessageId, hideReasoning } = message.data;
+
+  // Send an initial acknowledgment response
+  await events.send("message_received", {
+    message: "Processing your request...",
+    clientMessageId,
+    timestamp: Date.now(),
+  });
+
+  try {
+    const userId = getUserId(connection, connectionId);
+    const room = await getRoom(roomId);
+    if (!room?.members[userId]) {
+      return await sendRoomNotFound(roomId, events);
+    }
+
+    // Clearing would wipe the conversation the other members share
+    if (message.data.message.trim().toLowerCase() === "/clear") {
+      return await sendNotAvailableInRoom("/clear", roomId, events);
+    }
+
+    const sanitizeResult = await sanitizeUserMessage(
+      message.data.message,
+      connectionId,
+      userId,
+      events,
+      clientMessageId
+    );
+    if ("response" in sanitizeResult) {
+      return sanitizeResult.response;
+    }
+
+    const modelResult = await resolveRequestedModel(
+      message.data.model,
+      connection,
+      events,
+      clientMessageId
+    );
+    if ("response" in modelResult) {
+      return modelResult.response;
+    }
+
+    const sender = message.data.sender || connection.userEmail || "Anonymous";
+
+    // A retry of a message that is queued or was already answered isn't
+    // queued or charged again
+    if (clientMessageId) {
+      const chatSession = await getChatSession(room.conversationId);
+      const queued = room.queue.some(
+        (queuedTurn) =>
+          queuedTurn.userId === userId &&
+          queuedTurn.clientMessageId === clientMessageId
+      );
+      if (queued || chatSession?.processedMessages?.[clientMessageId]) {
+        const response = await handleDuplicateMessage(
+          room.conversationId,
+          clientMessageId,
+          connectionId,
+          userId,
+          sender,
+          events
+        );
+
+        // Sending a waiting message again takes up the queue it waits in
+        const parked = queued ? await resumeRoomQueue(roomId) : null;
+        if (parked) {
+          await runRoomTurns(
+            roomId,
+            parked,
+            apiGatewayClient,
+            createEventSender(
+              apiGatewayClient,
+              parked.connectionId,
+              parked.requestId,
+              parked.nextSequence
+            ),
+            getRemainingTimeMs
+          );
+        }
+
+        return response;
+      }
+    }
+
+    // Spent when the message comes in, so queueing can't get around the limits
+    const rateLimited = await enforceRateLimits(
+      connectionId,
+      userId,
+      connection.userGroups || [],
+      sanitizeResult.sanitized.length,
+      events,
+      clientMessageId
+    );
+    if (rateLimited) {
+      return rateLimited.response;
+    }
+
+    const turn: QueuedRoomMessage = {
+      turnId: uuidv4(),
+      message: sanitizeResult.sanitized,
+      userId,
+      userEmail: connection.userEmail,
+      userGroups: connection.userGroups || [],
+      sender,
+      connectionId,
+      requestId: events.requestId,
+      // After message_received and message_queued
+      nextSequence: 2,
+      clientMessageId,
+      model: modelResult.model.id,
+      parameters: message.data.parameters || {},
+      hideReasoning: hideReasoning === true,
+      queuedAt: Date.now(),
+    };
+
+    const claim = await claimOrQueueRoomTurn(roomId, turn);
+    let response: WebSocketResponse;
+    if (claim.full) {
+      response = await sendRoomQueueFull(
+        roomId,
+        connectionId,
+        userId,
+        events,
+        clientMessageId
+      );
+    } else if (claim.position === null) {
+      return await runRoomTurns(
+        roomId,
+        turn,
+        apiGatewayClient,
+        events,
+        getRemainingTimeMs
+      );
+    } else {
+      console.log({
+        event: "room_message_queued",
+        connectionId,
+        userId,
+        roomId,
+        clientMessageId,
+        position: claim.position,
+        timestamp: Date.now(),
+      });
+
+      response = await events.send("message_queued", {
+        roomId,
+        position: claim.position,
+        clientMessageId,
+        timestamp: Date.now(),
+      });
+    }
+
+    // The room was idle with messages left queued; this invocation answers
+    // them, and this message after them
+    if (claim.turn) {
+      await runRoomTurns(
+        roomId,
+        claim.turn,
+        apiGatewayClient,
+        createEventSender(
+          apiGatewayClient,
+          claim.turn.connectionId,
+          claim.turn.requestId,
+          claim.turn.nextSequence
+        ),
+        getRemainingTimeMs
+      );
+    }
+
+    return response;
+  } catch (error) {
+    return await handleLLMError(
+      error,
+      connectionId,
+      connection,
+      events,
+      clientMessageId
+    );
+  }
+}
+
+/**
+ * Answer the room message holding the room, then every message queued
+ * behind it, each to the connection and request it came from
+ * A turn isn't started with less than config.roomTurnMinRemainingMs left in
+ * the invocation; the rest of the queue waits for the next message instead
+ * Returns the reply to the first message
+ */
+async function runRoomTurns(
+  roomId: string,
+  firstTurn: QueuedRoomMessage,
+  apiGatewayClient: ApiGatewayManagementApiClient,
+  firstEvents: EventSender,
+  getRemainingTimeMs?: () => number
+): Promise<WebSocketResponse> {
+  const first = await runAndHandOnRoomTurn(
+    roomId,
+    firstTurn,
+    apiGatewayClient,
+    firstEvents,
+    getRemainingTimeMs
+  );
+
+  let turn = first.next;
+  while (turn) {
+    const events = createEventSender(
+      apiGatewayClient,
+      turn.connectionId,
+      turn.requestId,
+      turn.nextSequence
+    );
+    ({ next: turn } = await runAndHandOnRoomTurn(
+      roomId,
+      turn,
+      apiGatewayClient,
+      events,
+      getRemainingTimeMs
+    ));
+  }
+
+  return first.response;
+}
+
+/**
+ * Answer one room turn, then hand the room to the next queued message
+ * With too little time left for another turn the queue is left waiting, and
+ * its senders are told so
+ * @returns the reply to the turn and the turn to run next, if any
+ */
+async function runAndHandOnRoomTurn(
+  roomId: string,
+  turn: QueuedRoomMessage,
+  apiGatewayClient: ApiGatewayManagementApiClient,
+  events: EventSender,
+  getRemainingTimeMs?: () => number
+): Promise<{ response: WebSocketResponse; next: QueuedRoomMessage | null }> {
+  let response: WebSocketResponse;
+  let next: QueuedRoomMessage | null = null;
+  try {
+    response = await runRoomTurn(roomId, turn, events);
+  } finally {
+    // Hand the room on even when the turn failed, or it stays blocked until
+    // the turn times out
+    const remainingMs = getRemainingTimeMs?.() ?? Infinity;
+    if (remainingMs >= config.roomTurnMinRemainingMs) {
+      next = await finishRoomTurn(roomId, turn.turnId);
+    } else {
+      const waiting = await parkRoomQueue(roomId, turn.turnId);
+      console.log({
+        event: "room_queue_left_waiting",
+        roomId,
+        turnId: turn.turnId,
+        remainingMs,
+        queueLength: waiting.length,
+        timestamp: Date.now(),
+      });
+      await notifyRoomQueueWaiting(roomId, waiting, apiGatewayClient);
+    }
+  }
+
+  return { response, next };
+}
+
+/**
+ * Tell the senders of a room's waiting messages that they wait for the next
+ * message to the room, or for one of theirs to be sent again
+ */
+async function notifyRoomQueueWaiting(
+  roomId: string,
+  waiting: QueuedRoomMessage[],
+  apiGatewayClient: ApiGatewayManagementApiClient
+): Promise<void> {
+  await Promise.all(
+    waiting.map(async (queued, index) => {
+      try {
+        await createEventSender(
+          apiGatewayClient,
+          queued.connectionId,
+          queued.requestId,
+          queued.nextSequence
+        ).send("message_queued", {
+          roomId,
+          position: index + 1,
+          clientMessageId: queued.clientMessageId,
+          paused: true,
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        // The sender may be gone; the message still waits its turn
+        console.error(
+          `Error telling ${queued.connectionId} its room message waits:`,
+          error
+        );
+      }
+    })
+  );
+}
+
+/**
+ * Store a room message under its author and answer it
+ * Everyone else in the room is shown the message, then the answer
+ */
+async function runRoomTurn(
+  roomId: string,
+  turn: QueuedRoomMessage,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  try {
+    const room = await getRoom(roomId);
+    const chatSession = room && (await getChatSession(room.conversationId));
+    if (!chatSession) {
+      return await sendRoomNotFound(roomId, events);
+    }
+
+    // Checked when the message came in; the default covers a model removed
+    // from the registry while the message was queued
+    const model = getModel(turn.model) || getDefaultModel();
+
+    return await runClientMessage(
+      chatSession,
+      turn.clientMessageId,
+      turn.connectionId,
+      turn.userId,
+      turn.sender,
+      events,
+      async (userTurnStored) => {
+        const full = await checkConversationSize(
+          chatSession,
+          turn.message,
+          events,
+          turn.clientMessageId
+        );
+        if (full) {
+          return full.response;
+        }
+
+        return await runInGenerationSlot(
+          turn.connectionId,
+          turn.userId,
+          turn.userGroups,
+          events,
+          turn.clientMessageId,
+          async () => {
+            const userNode = await addMessageToChatSession(
+              chatSession.conversationId,
+              {
+                role: "user",
+                content: turn.message,
+                timestamp: Date.now(),
+                clientMessageId: turn.clientMessageId,
+                userId: turn.userId,
+                userEmail: turn.userEmail,
+              },
+              chatSession.activeLeafId || null
+            );
+            if (!userNode) {
+              return await sendConversationChanged(chatSession, events);
+            }
+            userTurnStored();
+
+            const withUserNode: ChatSession = {
+              ...chatSession,
+              messages: { ...chatSession.messages, [userNode.id]: userNode },
+            };
+            await broadcastToRoom(
+              (target, outbound) => events.forward(outbound, target),
+              roomId,
+              createEvent("room_message", {
+                roomId,
+                message: toConversationMessages(withUserNode, [userNode])[0],
+                timestamp: Date.now(),
+              }),
+              turn.connectionId
+            );
+
+            return await processWithLLM(
+              chatSession,
+              [...getActivePath(chatSession), userNode],
+              model,
+              turn.parameters,
+              turn.connectionId,
+              turn.userId,
+              turn.sender,
+              events,
+              turn.clientMessageId,
+              turn.hideReasoning,
+              roomId
+            );
+          }
+        );
+      }
+    );
+  } catch (error) {
+    return await handleLLMError(
+      error,
+      turn.connectionId,
+      {
+        connectionId: turn.connectionId,
+        userId: turn.userId,
+        timestamp: turn.queuedAt,
+      },
+      events,
+      turn.clientMessageId
+    );
+  }
+}
+
+/**
+ * Describe a room's members for clients, with whether each is connected
+ */
+async function toRoomMemberSummaries(room: Room): Promise<RoomMemberSummary[]> {
+  const online = new Set(
+    (await getConnectionsByRoomId(room.roomId)).map(
+      (connection) => connection.userId
+    )
+  );
+
+  return Object.values(room.members)
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .map((member) => ({
+      userId: member.userId,
+      userEmail: member.userEmail,
+      joinedAt: member.joinedAt,
+      online: online.has(member.userId),
+    }));
+}
+
+/**
+ * Send the error for a room that doesn't exist or that the user isn't in
+ */
+function sendRoomNotFound(
+  roomId: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "room_not_found",
+    message: "The requested room could not be found.",
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a room message its queue has no room for
+ */
+function sendRoomQueueFull(
+  roomId: string,
+  connectionId: string,
+  userId: string,
+  events: EventSender,
+  clientMessageId?: string
+): Promise<WebSocketResponse> {
+  console.warn({
+    event: "room_queue_full",
+    connectionId,
+    userId,
+    roomId,
+    clientMessageId,
+    timestamp: Date.now(),
+  });
+
+  return events.send("error", {
+    code: "room_queue_full",
+    message:
+      "Too many messages are waiting in this room. Please try again once some have been answered.",
+    clientMessageId,
+    retryable: true,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for a room action from a connection outside any room
+ */
+function sendNotInRoom(events: EventSender): Promise<WebSocketResponse> {
+  return events.send("error", {
+    code: "not_in_room",
+    message: "Join a room first.",
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Send the error for an action a connection can't take while in a room
+ */
+function sendNotAvailableInRoom(
+  action: string,
+  roomId: string,
+  events: EventSender
+): Promise<WebSocketResponse> {
+  console.warn({
+    event: "room_action_refused",
+    action,
+    roomId,
+    timestamp: Date.now(),
+  });
+
+  return events.send("error", {
+    code: "not_available_in_room",
+    message: `${action} is not available in a room. Leave the room first.`,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Answer the last user turn of a conversation with the LLM service
+ * path runs from the first message to that user turn, which must already be
+ * stored; only these messages go into the prompt
+ * expectedLeafId is the active leaf the answer takes over from when that isn't
+ * the user turn, as for regenerate
+ */
+async function processWithLLM(
+  chatSession: ChatSession,
+  path: ChatMessageNode[],
+  model: ModelDefinition,
+  llmParameters: Partial<GenerationParameters>,
+  connectionId: string,
+  userId: string,
+  sender: string,
+  events: EventSender,
+  clientMessageId?: string,
+  hideReasoning = false,
+  roomId?: string,
+  expectedLeafId?: string | null
+): Promise<WebSocketResponse> {
+  const { conversationId } = chatSession;
+
+  // Sanitize LLM parameters
+  const sanitizedParameters = sanitizationUtils.safelySanitizeParameters(
+    llmParameters,
+    getModelDefaultParameters(model)
+  );
+
+  // Log requested parameters that couldn't be used as given (for security
+  // monitoring); defaults filled in for parameters not requested don't count
+  const adjustedParameters = Object.keys(llmParameters).filter(
+    (key) =>
+      JSON.stringify(llmParameters[key as keyof GenerationParameters]) !==
+      JSON.stringify(sanitizedParameters[key as keyof GenerationParameters])
+  );
+  if (adjustedParameters.length > 0) {
+    console.warn({
+      event: "parameters_sanitized",
+      connectionId,
+      userId,
+      adjustedParameters,
+      originalParameters: JSON.stringify(llmParameters),
+      sanitizedParameters: JSON.stringify(sanitizedParameters),
+      timestamp: Date.now(),
+    });
+  }
+
+  // The conversation persona, or the config default when none was chosen
+  const systemPrompt =
+    chatSession.systemPrompt || config.llm.defaultSystemPrompt;
+
+  // Turns already folded into the rolling summary are replaced by the summary
+  const { summary, summarizedCount } = getSummaryForPath(chatSession, path);
+  const summaryText = summary
+    ? `Summary of the earlier conversation:\n${summary}`
+    : "";
+
+  // Fit the history into the model context, leaving room for the completion
+  const history = path.slice(summarizedCount);
+  const contextWindow = conversationUtils.buildContextWindow(history, {
+    contextTokens: model.contextWindowTokens,
+    maxTokens: sanitizedParameters.maxTokens,
+    reservedTokens:
+      conversationUtils.estimateTokens(systemPrompt) +
+      conversationUtils.estimateTokens(summaryText),
+  });
+
+  // Build the prompt from the system prompt, summary and conversation history
+  const systemMessages: ChatMessage[] = [systemPrompt, summaryText]
+    .filter(Boolean)
+    .map((content) => ({ role: "system", content, timestamp: Date.now() }));
+  const promptMessages: PromptMessage[] = conversationUtils.toPromptMessages([
+    ...systemMessages,
+    ...contextWindow.messages,
+  ]);
+  const promptLength = promptMessages.reduce(
+    (length, message) => length + message.content.length,
+    0
+  );
+
+  // Log prompt size for monitoring
+  console.log({
+    event: "prompt_created",
+    connectionId,
+    userId,
+    conversationId,
+    promptLength,
+    model: model.id,
+    provider: model.provider,
+    promptTemplate: model.promptTemplate,
+    systemPromptPresetId: chatSession.systemPromptPresetId,
+    hasCustomSystemPrompt: !!chatSession.systemPrompt,
+    messageCount: history.length,
+    summarizedTurns: summarizedCount,
+    includedTurns: contextWindow.messages.length,
+    droppedTurns: contextWindow.droppedCount,
+    truncatedTurns: contextWindow.truncatedCount,
+    estimatedPromptTokens: contextWindow.estimatedTokens,
+    contextBudgetTokens: contextWindow.budgetTokens,
+    parameters: sanitizedParameters,
+    timestamp: Date.now(),
+  });
+
+  // Create LLM request with sanitized parameters
+  const llmRequest: LLMRequest = {
+    messages: promptMessages,
+    model: model.id,
+    parameters: sanitizedParameters,
+  };
+
+  // Register the generation so a stop_generation request can find it
+  const generationId = uuidv4();
+  await setActiveGeneration(connectionId, generationId);
+
+  // Store every event of the generation so the client can resume it from
+  // another connection if this one drops; generating goes on meanwhile
+  await createGenerationStream({
+    generationId,
+    userId,
+    conversationId,
+    requestId: events.requestId,
+    connectionId,
+  });
+  const post = (target: string, outbound: OutboundEvent) =>
+    events.forward(outbound, target);
+  const relay = createGenerationRelay(generationId, connectionId, post);
+
+  // Everyone else in the room sees the answer stream in; outside a room the
+  // user's other tabs do, when broadcasting is enabled
+  let mirrorConnectionIds = (
+    roomId
+      ? await getConnectionsByRoomId(roomId)
+      : config.webSocket.enableBroadcast
+      ? await getConnectionsByUserId(userId)
+      : []
+  )
+    .map((connection) => connection.connectionId)
+    .filter((mirrorConnectionId) => mirrorConnectionId !== connectionId);
+  const streamEvents = events.withDelivery(async (outbound) => {
+    const [, mirrored] = await Promise.all([
+      relay.deliver(outbound),
+      mirrorConnectionIds.length > 0
+        ? broadcastToConnections(post, mirrorConnectionIds, outbound)
+        : null,
+    ]);
+    if (mirrored?.gone.length) {
+      mirrorConnectionIds = mirrorConnectionIds.filter(
+        (mirrorConnectionId) => !mirrored.gone.includes(mirrorConnectionId)
+      );
+    }
+  });
+  // Connection whose stop_generation applies; moves with resume_generation
+  let controlConnectionId = connectionId;
+  // Set when nobody resumed the generation in time after the client left
+  let detachedTimedOut = false;
+
+  // When the lease on the backend slot was last extended
+  let slotRenewedAt = 0;
+
+  // Poll for a stop request or a resume from another invocation, and keep
+  // the backend slot while the answer streams
+  const abortController = new AbortController();
+  const cancellationPoll = setInterval(async () => {
+    try {
+      if (
+        holdsBackendSlot &&
+        Date.now() - slotRenewedAt >= config.llm.queue.slotLeaseMs / 3
+      ) {
+        slotRenewedAt = Date.now();
+        await renewBackendSlot(generationId, userId);
+      }
+
+      const stream = await getGenerationStream(generationId);
+      if (stream) {
+        await relay.sync(stream);
+        controlConnectionId = stream.connectionId;
+      }
+
+      if (
+        relay.detachedAt !== null &&
+        Date.now() - relay.detachedAt >= config.llm.detachedGenerationTimeoutMs
+      ) {
+        detachedTimedOut = true;
+        abortController.abort();
+      } else if (
+        await isGenerationCancelRequested(controlConnectionId, generationId)
+      ) {
+        abortController.abort();
+      }
+    } catch (error) {
+      console.error("Error checking for generation cancellation:", error);
+    }
+  }, config.llm.cancellationPollIntervalMs);
+
+  // Stream responses from the LLM service
+  let fullResponse = "";
+  let chunkCount = 0;
+  // Chunk events actually sent; several LLM chunks are coalesced into one
+  let sentChunkCount = 0;
+  let sentReasoningChunkCount = 0;
+  // Events saved by sending several buffered chunks as one
+  let savedChunkEvents = 0;
+  // The response split into <think> reasoning and the answer itself
+  const reasoningParser = createReasoningParser();
+  let answerText = "";
+  let reasoningText = "";
+  let reasoningStartedAt: number | null = null;
+  let reasoningDurationMs = 0;
+  let securityMonitoring = {
+    containsSystemCommands: false,
+    containsCodeBlock: false,
+    codeBlockCount: 0,
+    codeBlockTypes: new Set<string>(),
+  };
+
+  const batcher = createChunkBatcher(async (text, isComplete, chunkCount) => {
+    savedChunkEvents += Math.max(0, chunkCount - 1);
+    await streamEvents.send("llm_response_chunk", {
+      text,
+      isComplete,
+      index: sentChunkCount++,
+      generationId,
+      clientMessageId,
+      timestamp: Date.now(),
+    });
+  }, config.webSocket.chunkBatching);
+
+  // Reasoning gets its own batcher so its text never shares an event with
+  // the answer
+  const reasoningBatcher = createChunkBatcher(
+    async (text, isComplete, chunkCount) => {
+      savedChunkEvents += Math.max(0, chunkCount - 1);
+      await streamEvents.send("llm_reasoning_chunk", {
+        text,
+        isComplete,
+        index: sentReasoningChunkCount++,
+        generationId,
+        clientMessageId,
+        timestamp: Date.now(),
+      });
+    },
+    config.webSocket.chunkBatching
+  );
+
+  const endReasoning = () => {
+    if (reasoningStartedAt !== null) {
+      reasoningDurationMs += Date.now() - reasoningStartedAt;
+      reasoningStartedAt = null;
+    }
+  };
+
+  // Queue parsed text for the client, keeping reasoning and answer in the
+  // order they were produced
+  const forwardSegments = async (segments: ReasoningSegment[]) => {
+    for (const segment of segments) {
+      if (segment.type === "answer") {
+        answerText += segment.text;
+        await batcher.push(segment.text);
+        continue;
+      }
+
+      reasoningText += segment.text;
+      reasoningStartedAt ??= Date.now();
+      if (segment.reasoningComplete) {
+        endReasoning();
+      }
+
+      if (!hideReasoning) {
+        await batcher.flush();
+        await reasoningBatcher.push(segment.text);
+        if (segment.reasoningComplete) {
+          await reasoningBatcher.flush(true);
+        }
+      }
+    }
+  };
+
+  // Send everything still held back by the parser or the batchers
+  const flushSegments = async (isComplete = false) => {
+    await forwardSegments(reasoningParser.end());
+    endReasoning();
+    await reasoningBatcher.flush();
+    await batcher.flush(isComplete);
+  };
+
+  // Token counts from the backend, if it sends them
+  let reportedUsage: TokenUsage | undefined;
+
+  const onChunk = async (chunk: LLMResponse) => {
+    fullResponse += chunk.text;
+    chunkCount++;
+    if (chunk.usage) {
+      reportedUsage = chunk.usage;
+    }
+
+    // Monitor code content in the LLM response - just for logging, not filtering
+    // Detect code blocks for logging purposes
+    const codeBlockMatch = chunk.text.match(/```([a-zA-Z0-9_]+)?/);
     if (codeBlockMatch) {
       securityMonitoring.containsCodeBlock = true;
       securityMonitoring.codeBlockCount++;
@@ -412,138 +2977,388 @@ async function processWithLLM(
       securityMonitoring.containsSystemCommands = true;
     }
 
-    // Send the chunk to the client
-    await sendMessageToClient(apiGatewayClient, connectionId, {
-      action: "llm_response_chunk",
-      data: {
-        text: chunk.text,
-        isComplete: chunk.isComplete,
+    // Queue the chunk for the client; the last one goes out right away
+    await forwardSegments(reasoningParser.push(chunk.text));
+    if (chunk.isComplete) {
+      await flushSegments(true);
+    }
+  };
+
+  let cancelled = false;
+  // Set when a chunk couldn't be stored for replay; the generation was
+  // stopped and nothing more can be sent
+  let deliveryFailed = false;
+  // Whether the generation got through the queue to the backend
+  let reachedBackend = false;
+  let holdsBackendSlot = false;
+
+  // Tokens used so far. Backends that don't count tokens get an estimate from
+  // the characters; a generation that left the queue used none
+  const measureUsage = (): GenerationUsage | null =>
+    reachedBackend
+      ? {
+          promptTokens:
+            reportedUsage?.promptTokens ??
+            conversationUtils.estimateTokens(
+              promptMessages.map((message) => message.content).join("")
+            ),
+          completionTokens:
+            reportedUsage?.completionTokens ??
+            conversationUtils.estimateTokens(fullResponse),
+          estimated: !reportedUsage,
+        }
+      : null;
+
+  // Usage is only accounting, so failing to record it must not fail the
+  // response
+  const saveUsage = async (usage: GenerationUsage | null) => {
+    if (!usage) {
+      return;
+    }
+    try {
+      await recordUsage(userId, model.id, usage);
+    } catch (error) {
+      console.error("Error recording usage:", error);
+    }
+  };
+
+  try {
+    // Wait for the model server to have room; stop_generation and
+    // leave_queue take the generation out of the queue
+    if (config.llm.queue.maxConcurrentGenerations > 0) {
+      const queueWait = await waitForBackendSlot(
+        generationId,
+        userId,
+        connectionId,
+        {
+          signal: abortController.signal,
+          onPosition: async (position, queueLength) => {
+            await streamEvents
+              .send("queue_position", {
+                generationId,
+                position,
+                queueLength,
+                clientMessageId,
+                timestamp: Date.now(),
+              })
+              .catch((error) => {
+                throw new ChunkDeliveryError(error);
+              });
+          },
+        }
+      );
+      holdsBackendSlot = queueWait.acquired;
+      slotRenewedAt = Date.now();
+      cancelled = !queueWait.acquired;
+
+      console.log({
+        event: "generation_queue_wait",
+        connectionId,
+        userId,
+        generationId,
+        acquired: queueWait.acquired,
+        waitedMs: queueWait.waitedMs,
+        queueDepth: queueWait.queueDepth,
+        initialPosition: queueWait.initialPosition,
+        timedOut: queueWait.timedOut,
         timestamp: Date.now(),
-      },
+      });
+
+      if (queueWait.timedOut) {
+        throw new QueueTimeoutError(queueWait.waitedMs);
+      }
+    }
+
+    if (!cancelled) {
+      reachedBackend = true;
+      const streamResult = await streamResponse(llmRequest, onChunk, {
+        signal: abortController.signal,
+      });
+      cancelled = streamResult.cancelled;
+    }
+
+    // Send whatever the last window still holds
+    await flushSegments().catch((error) => {
+      throw new ChunkDeliveryError(error);
     });
-  });
+  } catch (error) {
+    if (!(error instanceof ChunkDeliveryError)) {
+      await finishGenerationStream(generationId, "failed").catch(
+        () => undefined
+      );
+      // The backend may have produced tokens before it failed
+      await saveUsage(measureUsage());
+      throw error;
+    }
+
+    console.warn({
+      event: "chunk_delivery_failed",
+      connectionId,
+      userId,
+      generationId,
+      deliveredChunks: sentChunkCount + sentReasoningChunkCount,
+      errorMessage: error.message,
+      timestamp: Date.now(),
+    });
+    cancelled = true;
+    deliveryFailed = true;
+  } finally {
+    batcher.discard();
+    reasoningBatcher.discard();
+    clearInterval(cancellationPoll);
+    if (holdsBackendSlot) {
+      try {
+        await releaseBackendSlot(generationId);
+      } catch (error) {
+        console.error("Error releasing backend slot:", error);
+      }
+    }
+    await clearActiveGeneration(connectionId, generationId);
+    if (controlConnectionId !== connectionId) {
+      await clearActiveGeneration(controlConnectionId, generationId);
+    }
+  }
+
+  if (cancelled && !deliveryFailed) {
+    console.log({
+      event: "generation_cancelled",
+      connectionId,
+      userId,
+      generationId,
+      // Whether it was stopped because nobody resumed it after a disconnect
+      detachedTimedOut,
+      partialResponseLength: fullResponse.length,
+      timestamp: Date.now(),
+    });
+
+    // Let the client know no more chunks are coming
+    await streamEvents.send("llm_response_chunk", {
+      text: "",
+      isComplete: true,
+      cancelled: true,
+      index: sentChunkCount++,
+      generationId,
+      clientMessageId,
+      timestamp: Date.now(),
+    });
+  }
+
+  const usage = measureUsage();
 
   // Log security monitoring results at the end of response
   console.log({
     event: "llm_response_monitoring",
     connectionId,
     userId,
+    generationId,
+    cancelled,
+    deliveryFailed,
+    detached: relay.connectionId === null,
+    roomId,
+    mirroredConnections: mirrorConnectionIds.length,
     responseLength: fullResponse.length,
     totalChunks: chunkCount,
+    // PostToConnection calls saved by coalescing chunks
+    sentChunkEvents: sentChunkCount + sentReasoningChunkCount,
+    savedChunkEvents,
+    hideReasoning,
+    reasoningTokens: conversationUtils.estimateTokens(reasoningText),
+    reasoningDurationMs,
+    promptTokens: usage?.promptTokens,
+    completionTokens: usage?.completionTokens,
+    estimatedUsage: usage?.estimated,
     codeBlockCount: securityMonitoring.codeBlockCount,
     codeBlockTypes: Array.from(securityMonitoring.codeBlockTypes),
     containsSystemCommands: securityMonitoring.containsSystemCommands,
     timestamp: Date.now(),
   });
 
-  // Clean the assistant response to remove <think> blocks before storing
-  const cleanedResponse =
-    sanitizationUtils.cleanAssistantResponse(fullResponse);
+  // A cancelled generation still used the tokens it produced
+  await saveUsage(usage);
+
+  // Only the answer is stored; reasoning never goes back into the prompt
+  const cleanedResponse = answerText.trim();
 
   // Add assistant response to chat history
-  const assistantChatMessage: ChatMessage = {
-    role: "assistant",
-    content: cleanedResponse,
+  // A cancelled generation keeps whatever was produced before it was stopped
+  const parentMessageId = path[path.length - 1].id;
+  let assistantNode: ChatMessageNode | null = null;
+  if (!cancelled || cleanedResponse) {
+    const assistantChatMessage: ChatMessage = {
+      role: "assistant",
+      content: cleanedResponse,
+      timestamp: Date.now(),
+      clientMessageId,
+      model: model.id,
+    };
+
+    console.log(`Adding assistant response to chat session: ${conversationId}`);
+    assistantNode = await addMessageToChatSession(
+      conversationId,
+      assistantChatMessage,
+      parentMessageId,
+      expectedLeafId
+    );
+
+    // The client moved to another branch while this was streaming; keep the
+    // answer as an alternative rather than dropping it
+    if (!assistantNode) {
+      assistantNode = await addBranchMessageToChatSession(
+        conversationId,
+        assistantChatMessage,
+        parentMessageId
+      );
+    }
+  }
+
+  if (clientMessageId) {
+    await completeClientMessage(
+      conversationId,
+      clientMessageId,
+      generationId,
+      cancelled
+    );
+  }
+
+  const completeData: OutboundEventDataMap["llm_response_complete"] = {
+    message: answerText,
+    sender,
+    conversationId,
+    isComplete: true,
+    cancelled,
+    generationId,
+    clientMessageId,
+    messageId: assistantNode?.id,
+    parentMessageId: assistantNode ? parentMessageId : undefined,
+    model: model.id,
+    parameters: sanitizedParameters,
+    reasoning: reasoningText
+      ? {
+          tokens: conversationUtils.estimateTokens(reasoningText),
+          durationMs: reasoningDurationMs,
+        }
+      : undefined,
+    usage: usage || undefined,
     timestamp: Date.now(),
   };
 
-  console.log(`Adding assistant response to chat session: ${connectionId}`);
-  await addMessageToChatSession(connectionId, assistantChatMessage);
+  let completeEvent: WebSocketResponse;
+  if (deliveryFailed) {
+    // Nothing more can be sent; the stored answer is what the client gets
+    // when it comes back
+    await finishGenerationStream(generationId, "failed").catch(() => undefined);
+    completeEvent = createEvent(
+      "llm_response_complete",
+      completeData,
+      events.requestId
+    );
+  } else {
+    // Send the completed response message
+    completeEvent = await streamEvents.send(
+      "llm_response_complete",
+      completeData
+    );
 
-  // Send the completed response message
-  const response = {
-    message: "LLM response complete",
-    data: {
-      message: fullResponse, // Still send the original response to the client
-      sender,
-      isComplete: true,
-      timestamp: Date.now(),
-    },
-  };
+    // A resume that came in after the last poll is served here; later ones
+    // replay from storage
+    await relay.sync(await finishGenerationStream(generationId));
+  }
 
-  return response;
+  // Fold older turns into the rolling summary for the next prompt, once the
+  // client has its answer. A failed summary only costs context, so it must
+  // not fail the response
+  try {
+    await summarizeConversationIfNeeded(conversationId, userId, connectionId);
+  } catch (error) {
+    console.error("Error summarizing conversation:", error);
+  }
+
+  return completeEvent;
 }
 
+// What clients are told for each kind of LLM failure
+const LLM_ERROR_MESSAGES: Record<LLMErrorCode, string> = {
+  llm_unavailable:
+    "The model is temporarily unavailable. Please try again shortly.",
+  llm_timeout:
+    "The model took too long to respond. Please try again, perhaps with a shorter message.",
+  llm_overloaded:
+    "The LLM service is currently experiencing high load. Please wait a moment and try again.",
+  llm_invalid_request:
+    "The model could not process this request. Try changing the message or parameters.",
+  llm_cancelled: "The response was interrupted. Please try again.",
+  llm_internal: "There was an error processing your request. Please try again.",
+};
+
 /**
  * Handle errors from the LLM service
  */
 async function handleLLMError(
   error: any,
   connectionId: string,
-  connection: any,
-  apiGatewayClient: any
+  connection: Connection | null,
+  events: EventSender,
+  clientMessageId?: string
 ): Promise<WebSocketResponse> {
   console.error("Error processing LLM request:", error);
 
+  // The message or its answer couldn't be stored
+  if (error instanceof ConversationFullError) {
+    return await sendConversationFull(
+      error.conversationId,
+      events,
+      clientMessageId
+    );
+  }
+
+  // The backend stayed busy for as long as the generation may wait
+  if (error instanceof QueueTimeoutError) {
+    return await events.send("error", {
+      code: "queue_timeout",
+      message:
+        "The assistant is busy right now. Please try again in a few minutes.",
+      clientMessageId,
+      retryable: true,
+      timestamp: Date.now(),
+    });
+  }
+
+  const llmError = toLLMError(error);
+
   // Log detailed error information for security monitoring
   console.error({
     event: "llm_request_error",
     connectionId,
-    userId: connection?.userId || `user-${connectionId.substring(0, 8)}`,
+    userId: getUserId(connection, connectionId),
+    model: llmError.modelId,
+    errorCode: llmError.errorCode,
+    retryable: llmError.retryable,
     errorType: error instanceof Error ? error.constructor.name : typeof error,
-    errorMessage: error instanceof Error ? error.message : String(error),
+    errorMessage: llmError.message,
     stack: error instanceof Error ? error.stack : undefined,
     timestamp: Date.now(),
   });
 
-  // Check if the error is a connection failure
-  let errorMessage =
-    "There was an error processing your request. Please try again.";
-  let errorCategory = "general_error";
-
-  if (error instanceof Error) {
-    // Check for connection failure messages (EC2 connectivity issues)
-    if (
-      error.message.includes("Failed to connect") ||
-      error.message.includes("connection failed") ||
-      error.message.includes("Connection refused") ||
-      error.message.includes("ECONNREFUSED") ||
-      error.message.includes("socket hang up") ||
-      error.message.includes("network timeout")
-    ) {
-      errorMessage =
-        "LLM service connection failed. Please check that the LLM service is running and try again.";
-      errorCategory = "ec2_connection_failure";
-      console.error({
-        event: "ec2_connection_failure",
-        connectionId,
-        errorDetails: error.message,
-        timestamp: Date.now(),
-      });
-    }
-
-    // Check for potential memory or resource constraints on EC2
-    if (
-      error.message.includes("out of memory") ||
-      error.message.includes("resource exhausted") ||
-      error.message.includes("timeout") ||
-      error.message.includes("too many requests")
-    ) {
-      errorMessage =
-        "The LLM service is currently experiencing high load or resource constraints. Please try again with a shorter message or wait a few minutes.";
-      errorCategory = "ec2_resource_constraint";
-      console.error({
-        event: "ec2_resource_constraint",
-        connectionId,
-        errorDetails: error.message,
-        timestamp: Date.now(),
-      });
-    }
-  }
-
-  // Send error response
-  const response = {
-    message: "Error processing request",
-    data: {
-      message: errorMessage,
-      sender: "System",
-      error: true,
-      errorCategory,
+  // The backend is known to be down, so tell the client when to try again
+  // rather than reporting a generic failure
+  if (llmError instanceof LLMUnavailableError && llmError.modelId) {
+    return await events.send("llm_unavailable", {
+      model: llmError.modelId,
+      message: LLM_ERROR_MESSAGES.llm_unavailable,
+      retryAfterMs: llmError.retryAfterMs ?? 0,
+      clientMessageId,
       timestamp: Date.now(),
-    },
-  };
+    });
+  }
 
   // Send final error message
-  await sendMessageToClient(apiGatewayClient, connectionId, response);
-  return response;
-}
\ No newline at end of file
+  return await events.send("error", {
+    code: "llm_error",
+    message: LLM_ERROR_MESSAGES[llmError.errorCode],
+    clientMessageId,
+    errorCode: llmError.errorCode,
+    retryable: llmError.retryable,
+    retryAfterMs: llmError.retryAfterMs,
+    timestamp: Date.now(),
+  });
+}
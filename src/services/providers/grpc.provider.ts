@@ -0,0 +1,355 @@
+/**
+ * LLM provider for the custom gRPC LLMService described in proto/llm.proto
+ */
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import * as path from "path";
+import * as fs from "fs";
+import { config } from "../../config/config";
+import { toGrpcParameters } from "../../utils/generation-parameters";
+import { formatPrompt } from "../../utils/prompt-templates";
+import { LLMUnavailableError } from "../llm-errors";
+import {
+  LLMProvider,
+  ProviderRequest,
+  LLMResponse,
+  StreamOptions,
+  StreamResult,
+} from "./provider";
+
+// One client per LLM service endpoint, shared by every model it serves
+const llmClients = new Map<string, any>();
+// One short connection attempt; retries and failover to another endpoint are
+// left to callWithFailover and the circuit breaker, so an outage fails fast
+const CONNECTION_TIMEOUT_SECONDS = 3;
+const RESPONSE_TIMEOUT_SECONDS = 600; // 10 minutes for complete response generation
+
+/**
+ * Get or create the client for an LLM service endpoint
+ */
+export const getLLMClient = async (
+  endpoint: string = config.llm.endpoint
+): Promise<any> => {
+  const cachedClient = llmClients.get(endpoint);
+  if (cachedClient) {
+    return cachedClient;
+  }
+
+  console.log("Attempting to connect to LLM service...");
+
+  let llmClient: any = null;
+
+  try {
+    console.log(`Using LLM endpoint: ${endpoint}`);
+
+    // Determine the correct path for the proto file based on the environment
+    // For Lambda, the proto files should be in /var/task/proto
+    // For local development, they should be in the src/proto directory
+    let PROTO_PATH;
+
+    if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
+      // We're running in Lambda - use absolute path
+      PROTO_PATH = "/var/task/proto/llm.proto";
+    } else {
+      // We're running locally
+      PROTO_PATH = path.resolve(__dirname, "../../proto/llm.proto");
+    }
+
+    console.log(`Using proto file at: ${PROTO_PATH}`);
+
+    // Check if the file exists
+    if (!fs.existsSync(PROTO_PATH)) {
+      // Try alternative paths for troubleshooting
+      console.error(`Proto file not found at ${PROTO_PATH}`);
+
+      // Log a list of files in /var/task to help debug
+      if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
+        try {
+          console.log("Checking /var/task directory:");
+          if (fs.existsSync("/var/task")) {
+            const files = fs.readdirSync("/var/task");
+            console.log("Files in /var/task:", files);
+
+            // Check if proto directory exists
+            if (fs.existsSync("/var/task/proto")) {
+              const protoFiles = fs.readdirSync("/var/task/proto");
+              console.log("Files in /var/task/proto:", protoFiles);
+            } else {
+              console.log("/var/task/proto directory not found");
+            }
+          } else {
+            console.log("/var/task directory not found");
+          }
+        } catch (err) {
+          console.error("Error listing directory:", err);
+        }
+      }
+
+      throw new Error(`Proto file not found at ${PROTO_PATH}`);
+    }
+
+    // Load the proto definition
+    const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+
+    const protoDescriptor = grpc.loadPackageDefinition(packageDefinition);
+
+    console.log(`Creating gRPC client for ${endpoint}...`);
+
+    // Create the client with improved timeout and retry settings
+    llmClient = new (protoDescriptor.llm as any).LLMService(
+      process.env.AWS_LAMBDA_FUNCTION_NAME ? endpoint : `${endpoint}:50051`,
+      process.env.AWS_LAMBDA_FUNCTION_NAME
+        ? grpc.credentials.createSsl()
+        : grpc.credentials.createInsecure(),
+      {
+        "grpc.service_config": JSON.stringify({
+          methodConfig: [
+            {
+              name: [{ service: "llm.LLMService" }],
+              retryPolicy: {
+                maxAttempts: 5,
+                initialBackoff: "1s",
+                maxBackoff: "10s",
+                backoffMultiplier: 2,
+                retryableStatusCodes: ["UNAVAILABLE", "DEADLINE_EXCEEDED"],
+              },
+              timeout: "600s", // Use same 10-minute timeout for ALL method calls
+            },
+          ],
+        }),
+        "grpc.keepalive_time_ms": 60000, // 60 seconds
+        "grpc.keepalive_timeout_ms": 10000, // 10 seconds
+        "grpc.http2.min_time_between_pings_ms": 15000, // 15 seconds
+        "grpc.keepalive_permit_without_calls": 1, // Allow keepalives without active calls
+        "grpc.max_connection_idle_ms": 120000, // 120 seconds
+        "grpc.client_idle_timeout_ms": 120000, // 120 seconds
+        "grpc.max_reconnect_backoff_ms": 10000, // 10 seconds
+        "grpc.initial_reconnect_backoff_ms": 1000, // 1 second
+      }
+    );
+
+    // Check if service is available
+    await new Promise<void>((resolve, reject) => {
+      const deadline = new Date();
+      deadline.setSeconds(deadline.getSeconds() + CONNECTION_TIMEOUT_SECONDS);
+
+      console.log(`Setting connection deadline to ${deadline.toISOString()}`);
+
+      // This is only for the initial connection check
+      llmClient.waitForReady(deadline, (error: Error | undefined) => {
+        if (error) {
+          console.error(`LLM client connection failed: ${error.message}`);
+          // Extra debug info
+          if (error.message.includes("Failed to connect")) {
+            console.log(
+              `DNS lookup for ${endpoint}: Verify VPC DNS configuration and network route`
+            );
+            console.log(
+              `Security groups: Verify inbound/outbound rules allow 443 to ALB`
+            );
+            console.log(
+              `VPC endpoints: Verify Lambda can reach the endpoint through the VPC`
+            );
+            console.log(
+              `NAT Gateway: Verify if Lambda needs internet access via NAT`
+            );
+          }
+          llmClient.close();
+          reject(error);
+        } else {
+          console.log(`LLM client successfully connected to ${endpoint}`);
+          resolve();
+        }
+      });
+    });
+
+    llmClients.set(endpoint, llmClient);
+    return llmClient;
+  } catch (error) {
+    console.error(`Failed to initialize LLM client for ${endpoint}: ${error}`);
+
+    throw new LLMUnavailableError(
+      `Failed to connect to LLM service at ${endpoint} within ${CONNECTION_TIMEOUT_SECONDS}s`,
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * Build the gRPC request; the service completes a prompt rendered with the
+ * model's template
+ */
+const toGrpcRequest = (request: ProviderRequest) => ({
+  prompt: formatPrompt(request.messages, request.model.promptTemplate),
+  model: request.model.upstreamModel,
+  parameters: toGrpcParameters(request.parameters),
+});
+
+/**
+ * Generate a full response from the LLM
+ */
+const generate = async (request: ProviderRequest): Promise<LLMResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await getLLMClient(request.model.endpoint);
+
+      const grpcRequest = toGrpcRequest(request);
+
+      const deadline = new Date();
+      deadline.setSeconds(deadline.getSeconds() + RESPONSE_TIMEOUT_SECONDS);
+
+      client.Generate(
+        grpcRequest,
+        { deadline },
+        (error: any, response: any) => {
+          if (error) {
+            console.error("Error generating response:", error);
+            reject(error);
+            return;
+          }
+
+          resolve({
+            text: response.text,
+            isComplete: true,
+            ...(response.usage
+              ? {
+                  usage: {
+                    promptTokens: response.usage.prompt_tokens,
+                    completionTokens: response.usage.completion_tokens,
+                  },
+                }
+              : {}),
+          });
+        }
+      );
+    } catch (error) {
+      console.error("Error in generateResponse:", error);
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Stream a response from the LLM
+ * The returned promise resolves with cancelled: true if the stream was aborted
+ */
+const stream = async (
+  request: ProviderRequest,
+  onChunk: (chunk: LLMResponse) => Promise<void>,
+  options: StreamOptions = {}
+): Promise<StreamResult> => {
+  try {
+    console.log(`Initializing gRPC stream for model ${request.model.id}...`);
+    const client = await getLLMClient(request.model.endpoint);
+
+    // Don't start the gRPC call if the generation was stopped while connecting
+    if (options.signal?.aborted) {
+      console.log("Stream cancelled before it started.");
+      return { cancelled: true };
+    }
+
+    const grpcRequest = toGrpcRequest(request);
+
+    console.log("Starting gRPC streaming request...");
+    const deadline = new Date();
+    deadline.setSeconds(deadline.getSeconds() + RESPONSE_TIMEOUT_SECONDS);
+    console.log(
+      `Setting response deadline to ${deadline.toISOString()} (${RESPONSE_TIMEOUT_SECONDS} seconds)`
+    );
+
+    const call = client.GenerateStream(grpcRequest, { deadline });
+    let cancelled = false;
+    // Set when a chunk couldn't be delivered; the call is cancelled with it
+    let deliveryError: unknown = null;
+    // Delivery of the chunks received so far
+    let delivery = Promise.resolve();
+
+    const onAbort = () => {
+      console.log("Cancelling LLM stream...");
+      cancelled = true;
+      call.cancel();
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Node doesn't wait for async listeners, so pause the call while each
+    // chunk is delivered; chunks then go out one at a time and in order
+    call.on("data", (response: any) => {
+      // Drop anything still buffered after the call was cancelled
+      if (cancelled || deliveryError) {
+        return;
+      }
+
+      call.pause();
+      delivery = delivery
+        .then(() =>
+          onChunk({
+            text: response.text,
+            isComplete: response.is_complete,
+            ...(response.usage
+              ? {
+                  usage: {
+                    promptTokens: response.usage.prompt_tokens,
+                    completionTokens: response.usage.completion_tokens,
+                  },
+                }
+              : {}),
+          })
+        )
+        .then(() => call.resume())
+        .catch((error) => {
+          // Nobody is receiving the output any more, so stop generating it
+          console.log("Chunk delivery failed, cancelling LLM stream...");
+          deliveryError = error;
+          call.cancel();
+        });
+    });
+
+    call.on("status", (status: any) => {
+      console.log(`Stream status: ${status.code} - ${status.details}`);
+    });
+
+    return new Promise((resolve, reject) => {
+      // Settle only once every chunk received before the end or error has
+      // been delivered
+      const settle = (error?: any) =>
+        delivery.then(() => {
+          options.signal?.removeEventListener("abort", onAbort);
+
+          if (deliveryError) {
+            reject(deliveryError);
+            return;
+          }
+
+          if (!error) {
+            console.log("Stream ended.");
+            resolve({ cancelled });
+            return;
+          }
+
+          // A CANCELLED status caused by our own abort is not an error
+          if (cancelled && error?.code === grpc.status.CANCELLED) {
+            console.log("Stream cancelled.");
+            resolve({ cancelled: true });
+            return;
+          }
+
+          console.error("Stream error:", error);
+          reject(error);
+        });
+
+      call.on("end", () => settle());
+      call.on("error", (error: any) => settle(error));
+    });
+  } catch (error) {
+    console.error("Error in streamResponse:", error);
+    throw error;
+  }
+};
+
+export const grpcProvider: LLMProvider = { stream, generate };
@@ -0,0 +1,254 @@
+/**
+ * LLM provider for OpenAI-compatible chat completion APIs, as served by vLLM,
+ * llama.cpp server and Ollama
+ * Streams over server-sent events from POST {endpoint}/chat/completions
+ */
+import axios, { AxiosResponse } from "axios";
+import { Readable } from "stream";
+import { fromHttpStatus } from "../llm-errors";
+import {
+  LLMProvider,
+  ProviderRequest,
+  LLMResponse,
+  StreamOptions,
+  StreamResult,
+  TokenUsage,
+} from "./provider";
+
+const RESPONSE_TIMEOUT_MS = 600000; // 10 minutes for complete response generation
+
+// Longest part of an error body quoted in error messages
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Build the chat completion request body
+ * top_k and repetition_penalty are extensions understood by vLLM and
+ * llama.cpp; other servers ignore them
+ */
+const toChatCompletionBody = (request: ProviderRequest, stream: boolean) => {
+  const { parameters } = request;
+
+  return {
+    model: request.model.upstreamModel,
+    messages: request.messages,
+    stream,
+    // Ask for token counts, sent in a last event with no choices
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    max_tokens: parameters.maxTokens,
+    temperature: parameters.temperature,
+    top_p: parameters.topP,
+    top_k: parameters.topK,
+    repetition_penalty: parameters.repetitionPenalty,
+    presence_penalty: parameters.presencePenalty,
+    frequency_penalty: parameters.frequencyPenalty,
+    ...(parameters.stop.length > 0 ? { stop: parameters.stop } : {}),
+    ...(parameters.seed !== undefined ? { seed: parameters.seed } : {}),
+  };
+};
+
+const getCompletionsUrl = (request: ProviderRequest): string =>
+  `${request.model.endpoint.replace(/\/+$/, "")}/chat/completions`;
+
+const getHeaders = (request: ProviderRequest): Record<string, string> => ({
+  "Content-Type": "application/json",
+  ...(request.model.apiKey
+    ? { Authorization: `Bearer ${request.model.apiKey}` }
+    : {}),
+});
+
+/**
+ * Read a whole response body, for error messages
+ */
+const readBody = async (body: unknown): Promise<string> => {
+  if (!(body instanceof Readable)) {
+    return typeof body === "string" ? body : JSON.stringify(body);
+  }
+
+  let text = "";
+  for await (const chunk of body) {
+    text += chunk.toString();
+  }
+  return text;
+};
+
+/**
+ * Read a Retry-After header given in seconds
+ */
+const parseRetryAfterMs = (value: unknown): number | undefined => {
+  const seconds = Number(value);
+  return value !== undefined && Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : undefined;
+};
+
+/**
+ * Throw an LLMError matching the status, quoting the start of the body
+ */
+const assertSuccessStatus = async (response: AxiosResponse): Promise<void> => {
+  if (response.status >= 200 && response.status < 300) {
+    return;
+  }
+
+  const body = await readBody(response.data);
+  const ErrorClass = fromHttpStatus(response.status);
+  throw new ErrorClass(
+    `Chat completion request failed with status ${
+      response.status
+    }: ${body.substring(0, MAX_ERROR_BODY_LENGTH)}`,
+    { retryAfterMs: parseRetryAfterMs(response.headers["retry-after"]) }
+  );
+};
+
+/**
+ * Yield the data of each server-sent event in a response body
+ * Events are separated by a blank line; multi-line data is joined with "\n"
+ */
+export async function* readServerSentEvents(
+  body: AsyncIterable<Buffer | string>
+): AsyncGenerator<string> {
+  let buffer = "";
+
+  const parseEvent = (event: string): string | null => {
+    const dataLines = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""));
+
+    return dataLines.length > 0 ? dataLines.join("\n") : null;
+  };
+
+  for await (const chunk of body) {
+    buffer += chunk.toString();
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary >= 0) {
+      const data = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+      if (data !== null) {
+        yield data;
+      }
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  // A final event without the trailing blank line
+  const data = parseEvent(buffer);
+  if (data !== null) {
+    yield data;
+  }
+}
+
+/**
+ * Stream a response from the chat completions endpoint
+ * The returned promise resolves with cancelled: true if the stream was aborted
+ */
+const stream = async (
+  request: ProviderRequest,
+  onChunk: (chunk: LLMResponse) => Promise<void>,
+  options: StreamOptions = {}
+): Promise<StreamResult> => {
+  // Don't start the request if the generation was stopped before it began
+  if (options.signal?.aborted) {
+    console.log("Stream cancelled before it started.");
+    return { cancelled: true };
+  }
+
+  const url = getCompletionsUrl(request);
+  console.log(`Starting chat completion stream for model ${request.model.id}`);
+
+  let usage: TokenUsage | undefined;
+
+  try {
+    const response = await axios.post(
+      url,
+      toChatCompletionBody(request, true),
+      {
+        headers: { ...getHeaders(request), Accept: "text/event-stream" },
+        responseType: "stream",
+        timeout: RESPONSE_TIMEOUT_MS,
+        signal: options.signal,
+        // Error bodies are streams too, so status codes are checked below
+        validateStatus: () => true,
+      }
+    );
+
+    await assertSuccessStatus(response);
+
+    // Leaving this loop early, including when onChunk throws, closes the
+    // response body, which stops the generation upstream
+    for await (const data of readServerSentEvents(response.data)) {
+      if (data === "[DONE]") {
+        break;
+      }
+
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw new Error(
+          `Chat completion stream failed: ${
+            event.error.message || JSON.stringify(event.error)
+          }`
+        );
+      }
+
+      if (event.usage) {
+        usage = {
+          promptTokens: event.usage.prompt_tokens,
+          completionTokens: event.usage.completion_tokens,
+        };
+      }
+
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        await onChunk({ text, isComplete: false });
+      }
+    }
+
+    // The API has no final chunk of its own, so mark the end explicitly
+    await onChunk({ text: "", isComplete: true, ...(usage ? { usage } : {}) });
+    console.log("Stream ended.");
+    return { cancelled: false };
+  } catch (error) {
+    // Aborting the request surfaces as an error from axios or the body stream
+    if (options.signal?.aborted) {
+      console.log("Stream cancelled.");
+      return { cancelled: true };
+    }
+
+    console.error("Error in chat completion stream:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generate a full response from the chat completions endpoint
+ */
+const generate = async (request: ProviderRequest): Promise<LLMResponse> => {
+  const response = await axios.post(
+    getCompletionsUrl(request),
+    toChatCompletionBody(request, false),
+    {
+      headers: getHeaders(request),
+      timeout: RESPONSE_TIMEOUT_MS,
+      validateStatus: () => true,
+    }
+  );
+
+  await assertSuccessStatus(response);
+
+  const usage = response.data?.usage;
+  return {
+    text: response.data?.choices?.[0]?.message?.content || "",
+    isComplete: true,
+    ...(usage
+      ? {
+          usage: {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+          },
+        }
+      : {}),
+  };
+};
+
+export const openAIProvider: LLMProvider = { stream, generate };
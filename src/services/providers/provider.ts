@@ -0,0 +1,57 @@
+/**
+ * Interface implemented by every LLM backend
+ */
+import { ModelDefinition } from "../../config/models";
+import { GenerationParameters } from "../../utils/generation-parameters";
+import { PromptMessage } from "../../utils/prompt-templates";
+
+/**
+ * A request routed to a provider
+ * Providers that complete raw prompts render messages with the model's
+ * prompt template; chat APIs send them as they are
+ */
+export interface ProviderRequest {
+  messages: PromptMessage[];
+  model: ModelDefinition;
+  parameters: GenerationParameters;
+}
+
+// Tokens counted by the backend for a whole generation
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  isComplete: boolean;
+  // Set on the final chunk by backends that count tokens
+  usage?: TokenUsage;
+}
+
+export interface StreamOptions {
+  // Aborting the signal cancels the underlying upstream call
+  signal?: AbortSignal;
+}
+
+export interface StreamResult {
+  // Whether the stream was stopped through the abort signal
+  cancelled: boolean;
+}
+
+export interface LLMProvider {
+  /**
+   * Stream a response chunk by chunk
+   * The returned promise resolves with cancelled: true if the stream was aborted
+   */
+  stream(
+    request: ProviderRequest,
+    onChunk: (chunk: LLMResponse) => Promise<void>,
+    options?: StreamOptions
+  ): Promise<StreamResult>;
+
+  /**
+   * Generate a full response, as one complete chunk
+   */
+  generate(request: ProviderRequest): Promise<LLMResponse>;
+}
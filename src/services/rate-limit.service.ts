@@ -0,0 +1,315 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { config } from "../config/config";
+import { RateLimits } from "../config/rate-limits";
+import { RateLimitName } from "../protocol/messages";
+
+/**
+ * Per-user rate limiting
+ *
+ * Each user has one item holding two token buckets, one for messages and one
+ * for prompt characters, and a lease for each generation they have running.
+ * Buckets refill continuously, reaching their full limit over the limit's
+ * window. Every change is an update conditional on the item's revision, so
+ * two invocations can't spend the same tokens; the one that loses reads the
+ * item again and retries.
+ */
+
+// A limit a request ran into, and how long until it would let the request in
+export interface RateLimitRejection {
+  limit: RateLimitName;
+  retryAfterMs: number;
+}
+
+interface RateLimitItem {
+  userId: string;
+  messageTokens?: number;
+  characterTokens?: number;
+  // When the buckets were last refilled
+  refilledAt?: number;
+  // Running generations, by lease id, with when each lease expires
+  leases?: Record<string, number>;
+  revision: number;
+  ttl: number;
+}
+
+// Create DynamoDB client with standard configuration
+const client = new DynamoDBClient({
+  region: config.region,
+});
+
+// Create document client with optimized serialization options
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    convertEmptyValues: true,
+    removeUndefinedValues: true,
+  },
+});
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Attempts at a conditional update before giving up on a contended item
+const MAX_ATTEMPTS = 5;
+
+// A generation's end can't be predicted, so clients over the concurrency
+// limit are told to try again after this long
+const CONCURRENCY_RETRY_AFTER_MS = 5000;
+
+// Items outlive the longest window and lease, then expire with inactivity
+const getTtl = () => Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+
+/**
+ * Tokens in a bucket after refilling for elapsedMs; a new bucket is full
+ */
+const refill = (
+  tokens: number | undefined,
+  capacity: number,
+  windowMs: number,
+  elapsedMs: number
+): number =>
+  tokens === undefined
+    ? capacity
+    : Math.min(capacity, tokens + (elapsedMs * capacity) / windowMs);
+
+/**
+ * Time until a bucket holds cost tokens
+ */
+const timeUntil = (
+  tokens: number,
+  cost: number,
+  capacity: number,
+  windowMs: number
+): number => Math.ceil(((cost - tokens) * windowMs) / capacity);
+
+const getRateLimitItem = async (
+  userId: string
+): Promise<RateLimitItem | null> => {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: config.rateLimitsTable,
+      Key: {
+        userId,
+      },
+      ConsistentRead: true,
+    })
+  );
+
+  return (result.Item as RateLimitItem | undefined) || null;
+};
+
+/**
+ * Write fields of a user's item if nobody changed it since it was read
+ * Returns false when someone did
+ */
+const writeRateLimitItem = async (
+  userId: string,
+  readRevision: number | undefined,
+  fields: Partial<RateLimitItem>
+): Promise<boolean> => {
+  const names = Object.keys(fields);
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.rateLimitsTable,
+        Key: {
+          userId,
+        },
+        UpdateExpression: `SET ${names
+          .map((name) => `${name} = :${name}`)
+          .join(", ")}, revision = :revision, #ttl = :ttl`,
+        ConditionExpression:
+          readRevision === undefined
+            ? "attribute_not_exists(revision)"
+            : "revision = :readRevision",
+        ExpressionAttributeNames: {
+          "#ttl": "ttl",
+        },
+        ExpressionAttributeValues: {
+          ...Object.fromEntries(
+            names.map((name) => [
+              `:${name}`,
+              fields[name as keyof RateLimitItem],
+            ])
+          ),
+          ":revision": (readRevision ?? 0) + 1,
+          ":ttl": getTtl(),
+          ...(readRevision === undefined
+            ? {}
+            : { ":readRevision": readRevision }),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Spend one message and the prompt's characters from a user's buckets
+ * Returns null if both had enough, or the limit that was hit, in which case
+ * nothing is spent; a prompt longer than the hourly allowance needs a full
+ * bucket
+ */
+export const consumeMessageTokens = async (
+  userId: string,
+  limits: RateLimits,
+  promptCharacters: number
+): Promise<RateLimitRejection | null> => {
+  const characterCost = Math.min(
+    promptCharacters,
+    limits.promptCharactersPerHour
+  );
+
+  try {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const item = await getRateLimitItem(userId);
+      const elapsedMs = now - (item?.refilledAt ?? now);
+      let messageTokens = refill(
+        item?.messageTokens,
+        limits.messagesPerMinute,
+        MINUTE_MS,
+        elapsedMs
+      );
+      let characterTokens = refill(
+        item?.characterTokens,
+        limits.promptCharactersPerHour,
+        HOUR_MS,
+        elapsedMs
+      );
+
+      if (limits.messagesPerMinute > 0) {
+        if (messageTokens < 1) {
+          return {
+            limit: "messages_per_minute",
+            retryAfterMs: timeUntil(
+              messageTokens,
+              1,
+              limits.messagesPerMinute,
+              MINUTE_MS
+            ),
+          };
+        }
+        messageTokens -= 1;
+      }
+
+      if (limits.promptCharactersPerHour > 0) {
+        if (characterTokens < characterCost) {
+          return {
+            limit: "prompt_characters_per_hour",
+            retryAfterMs: timeUntil(
+              characterTokens,
+              characterCost,
+              limits.promptCharactersPerHour,
+              HOUR_MS
+            ),
+          };
+        }
+        characterTokens -= characterCost;
+      }
+
+      if (
+        await writeRateLimitItem(userId, item?.revision, {
+          messageTokens,
+          characterTokens,
+          refilledAt: now,
+        })
+      ) {
+        return null;
+      }
+    }
+  } catch (error) {
+    console.error(`Error updating rate limits of user ${userId}:`, error);
+    throw error;
+  }
+
+  throw new Error(`Could not update rate limits of user ${userId}`);
+};
+
+/**
+ * Take one of the user's concurrent generation slots under leaseId
+ * Returns null once taken, or the limit if all are in use; a lease that was
+ * never released stops counting once it expires
+ */
+export const acquireGenerationSlot = async (
+  userId: string,
+  limits: RateLimits,
+  leaseId: string
+): Promise<RateLimitRejection | null> => {
+  try {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const item = await getRateLimitItem(userId);
+      const leases = Object.fromEntries(
+        Object.entries(item?.leases || {}).filter(
+          ([, expiresAt]) => expiresAt > now
+        )
+      );
+
+      if (Object.keys(leases).length >= limits.concurrentGenerations) {
+        return {
+          limit: "concurrent_generations",
+          retryAfterMs: CONCURRENCY_RETRY_AFTER_MS,
+        };
+      }
+
+      leases[leaseId] = now + config.rateLimits.generationLeaseMs;
+      if (await writeRateLimitItem(userId, item?.revision, { leases })) {
+        return null;
+      }
+    }
+  } catch (error) {
+    console.error(`Error acquiring a generation slot for ${userId}:`, error);
+    throw error;
+  }
+
+  throw new Error(`Could not acquire a generation slot for ${userId}`);
+};
+
+/**
+ * Give back a slot taken with acquireGenerationSlot
+ */
+export const releaseGenerationSlot = async (
+  userId: string,
+  leaseId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.rateLimitsTable,
+        Key: {
+          userId,
+        },
+        UpdateExpression:
+          "SET revision = revision + :one REMOVE leases.#leaseId",
+        ConditionExpression: "attribute_exists(leases)",
+        ExpressionAttributeNames: {
+          "#leaseId": leaseId,
+        },
+        ExpressionAttributeValues: {
+          ":one": 1,
+        },
+      })
+    );
+  } catch (error) {
+    if (
+      (error as { name?: string }).name === "ConditionalCheckFailedException"
+    ) {
+      return;
+    }
+    console.error(`Error releasing a generation slot for ${userId}:`, error);
+    throw error;
+  }
+};
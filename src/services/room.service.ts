@@ -0,0 +1,522 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config/config";
+import { getConnectionsByRoomId } from "./connection.service";
+import { GenerationParameters } from "../utils/generation-parameters";
+
+/**
+ * Shared rooms, where several users talk to the assistant in one conversation
+ *
+ * Only one generation runs in a room at a time. A message sent while one is
+ * running waits in the room's queue; the invocation running the generation
+ * takes the next message when it finishes, unless it is running out of time;
+ * the queue then waits for the next message sent to the room, or for one of
+ * the waiting messages to be sent again. queueVersion
+ * counts enqueued messages, so taking the next one or releasing the room fails
+ * if a message was queued since the room was read. The queue is stored on the
+ * room item, so it is capped by config.roomQueueMaxLength and
+ * config.roomMaxBytes.
+ */
+
+export interface RoomMember {
+  userId: string;
+  userEmail?: string;
+  joinedAt: number;
+}
+
+/**
+ * A message waiting for the room's current generation to finish
+ */
+export interface QueuedRoomMessage {
+  // Id the message's turn holds the room under while it runs
+  turnId: string;
+  message: string;
+  userId: string;
+  userEmail?: string;
+  // Cognito groups of the author, for their rate limits
+  userGroups: string[];
+  sender: string;
+  // Where the sender's events go, and the request they answer
+  connectionId: string;
+  requestId?: string;
+  // Sequence number of the first event sent when the message is answered
+  nextSequence: number;
+  clientMessageId?: string;
+  model: string;
+  parameters: Partial<GenerationParameters>;
+  hideReasoning: boolean;
+  queuedAt: number;
+}
+
+/**
+ * What claimOrQueueRoomTurn did with a message
+ */
+export interface RoomTurnClaim {
+  // Turn the caller now holds the room for and must run; null when another
+  // invocation holds the room
+  turn: QueuedRoomMessage | null;
+  // Place of the caller's message in the queue, from 1; null when it is the
+  // turn to run or wasn't queued
+  position: number | null;
+  // The queue had no room for the caller's message, which was dropped
+  full: boolean;
+}
+
+export interface Room {
+  roomId: string;
+  name: string;
+  createdBy: string;
+  // The conversation every member writes to
+  conversationId: string;
+  // Members by userId
+  members: Record<string, RoomMember>;
+  // Turn currently answering; unset while the room is idle
+  activeTurnId?: string;
+  activeTurnStartedAt?: number;
+  // Messages waiting for the active turn, oldest first
+  queue: QueuedRoomMessage[];
+  queueVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  ttl: number;
+}
+
+// Create DynamoDB client with standard configuration
+const client = new DynamoDBClient({
+  region: config.region,
+});
+
+// Create document client with optimized serialization options
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    convertEmptyValues: true,
+    removeUndefinedValues: true,
+  },
+});
+
+// Attempts to start or queue a turn before giving up on a busy room
+const MAX_TURN_ATTEMPTS = 5;
+
+const isConditionalCheckFailed = (error: unknown) =>
+  (error as { name?: string }).name === "ConditionalCheckFailedException";
+
+// A turn held for too long belonged to an invocation that died
+const isRoomIdle = (room: Room, now: number) =>
+  !room.activeTurnId ||
+  (room.activeTurnStartedAt ?? 0) < now - config.roomTurnTimeoutMs;
+
+// Whether a room can't be stored with this queue
+const isQueueFull = (room: Room, queue: QueuedRoomMessage[]) =>
+  queue.length > config.roomQueueMaxLength ||
+  Buffer.byteLength(JSON.stringify({ ...room, queue })) > config.roomMaxBytes;
+
+/**
+ * Create a room around a conversation, with its creator as first member
+ */
+export const createRoom = async (
+  name: string,
+  creator: Omit<RoomMember, "joinedAt">,
+  conversationId: string,
+  roomId: string = uuidv4()
+): Promise<Room> => {
+  const timestamp = Date.now();
+  const room: Room = {
+    roomId,
+    name,
+    createdBy: creator.userId,
+    conversationId,
+    members: {
+      [creator.userId]: { ...creator, joinedAt: timestamp },
+    },
+    queue: [],
+    queueVersion: 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    // A room lives as long as its conversation
+    ttl: Math.floor(timestamp / 1000) + config.chatSessionTtl,
+  };
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: config.roomsTable,
+        Item: room,
+        ConditionExpression: "attribute_not_exists(roomId)",
+      })
+    );
+    return room;
+  } catch (error) {
+    console.error("Error creating room:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a room by id
+ */
+export const getRoom = async (roomId: string): Promise<Room | null> => {
+  try {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: config.roomsTable,
+        Key: {
+          roomId,
+        },
+      })
+    );
+
+    return (result.Item as Room | undefined) || null;
+  } catch (error) {
+    console.error(`Error getting room ${roomId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add a member to a room, or refresh their details if already a member
+ * Returns the updated room, or null if it doesn't exist
+ */
+export const addRoomMember = async (
+  roomId: string,
+  member: RoomMember
+): Promise<Room | null> => {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: config.roomsTable,
+        Key: {
+          roomId,
+        },
+        UpdateExpression:
+          "SET members.#userId = :member, updatedAt = :updatedAt",
+        ConditionExpression: "attribute_exists(roomId)",
+        ExpressionAttributeNames: {
+          "#userId": member.userId,
+        },
+        ExpressionAttributeValues: {
+          ":member": member,
+          ":updatedAt": Date.now(),
+        },
+        ReturnValues: "ALL_NEW" as const,
+      })
+    );
+
+    return result.Attributes as Room;
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return null;
+    }
+    console.error(`Error adding member to room ${roomId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a member from a room
+ */
+export const removeRoomMember = async (
+  roomId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.roomsTable,
+        Key: {
+          roomId,
+        },
+        UpdateExpression: "SET updatedAt = :updatedAt REMOVE members.#userId",
+        ConditionExpression: "attribute_exists(roomId)",
+        ExpressionAttributeNames: {
+          "#userId": userId,
+        },
+        ExpressionAttributeValues: {
+          ":updatedAt": Date.now(),
+        },
+      })
+    );
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return;
+    }
+    console.error(`Error removing member from room ${roomId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Take one of a member's connections out of a room
+ * The member is removed only when none of their other connections is still
+ * in the room
+ * Returns whether they are still a member
+ */
+export const removeRoomConnection = async (
+  roomId: string,
+  userId: string,
+  connectionId: string
+): Promise<boolean> => {
+  const stillInRoom = (await getConnectionsByRoomId(roomId)).some(
+    (other) => other.userId === userId && other.connectionId !== connectionId
+  );
+  if (!stillInRoom) {
+    await removeRoomMember(roomId, userId);
+  }
+  return stillInRoom;
+};
+
+/**
+ * Hand an idle room to a turn, leaving rest queued
+ * @returns false when the room changed since it was read
+ */
+const startRoomTurn = async (
+  room: Room,
+  turn: QueuedRoomMessage,
+  rest: QueuedRoomMessage[]
+): Promise<boolean> => {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.roomsTable,
+        Key: {
+          roomId: room.roomId,
+        },
+        UpdateExpression:
+          "SET activeTurnId = :turnId, activeTurnStartedAt = :now, #queue = :rest, queueVersion = queueVersion + :one",
+        ConditionExpression: room.activeTurnId
+          ? "activeTurnId = :readTurnId AND queueVersion = :queueVersion"
+          : "attribute_not_exists(activeTurnId) AND queueVersion = :queueVersion",
+        ExpressionAttributeNames: {
+          "#queue": "queue",
+        },
+        ExpressionAttributeValues: {
+          ":turnId": turn.turnId,
+          ":now": Date.now(),
+          ":rest": rest,
+          ":one": 1,
+          ":queueVersion": room.queueVersion,
+          ...(room.activeTurnId ? { ":readTurnId": room.activeTurnId } : {}),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (!isConditionalCheckFailed(error)) {
+      console.error(`Error starting a turn in room ${room.roomId}:`, error);
+      throw error;
+    }
+    return false;
+  }
+};
+
+/**
+ * Start a turn in the room, or queue the message behind the running one
+ * Messages left queued in an idle room go first: the caller then runs the
+ * oldest of them and its own message is queued behind the rest. A message the
+ * queue has no room for is dropped and reported as full
+ */
+export const claimOrQueueRoomTurn = async (
+  roomId: string,
+  queued: QueuedRoomMessage
+): Promise<RoomTurnClaim> => {
+  // An attempt fails only if the room changed since it was read
+  for (let attempt = 0; attempt < MAX_TURN_ATTEMPTS; attempt++) {
+    const room = await getRoom(roomId);
+    if (!room) {
+      break;
+    }
+
+    if (isRoomIdle(room, Date.now())) {
+      let [turn, ...rest] = [...room.queue, queued];
+      // Left queued messages still get their turn when the caller's can't
+      // join them
+      const full = rest.length > 0 && isQueueFull(room, rest);
+      if (full) {
+        [turn, ...rest] = room.queue;
+      }
+
+      if (await startRoomTurn(room, turn, rest)) {
+        return {
+          turn,
+          position: turn === queued || full ? null : rest.length,
+          full,
+        };
+      }
+      continue;
+    }
+
+    if (isQueueFull(room, [...room.queue, queued])) {
+      return { turn: null, position: null, full: true };
+    }
+
+    try {
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: config.roomsTable,
+          Key: {
+            roomId,
+          },
+          UpdateExpression:
+            "SET #queue = list_append(#queue, :queued), queueVersion = queueVersion + :one",
+          // Checked against the queue that was measured
+          ConditionExpression:
+            "attribute_exists(activeTurnId) AND queueVersion = :queueVersion",
+          ExpressionAttributeNames: {
+            "#queue": "queue",
+          },
+          ExpressionAttributeValues: {
+            ":queued": [queued],
+            ":one": 1,
+            ":queueVersion": room.queueVersion,
+          },
+          ReturnValues: "ALL_NEW" as const,
+        })
+      );
+      return {
+        turn: null,
+        position: (result.Attributes as Room).queue.length,
+        full: false,
+      };
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        console.error(`Error queueing a message in room ${roomId}:`, error);
+        throw error;
+      }
+    }
+  }
+
+  throw new Error(`Could not start or queue a turn in room ${roomId}`);
+};
+
+/**
+ * End a turn and hand the room to the next queued message, if any
+ * Returns that message, which now holds the room, or null if the room is idle
+ */
+export const finishRoomTurn = async (
+  roomId: string,
+  turnId: string
+): Promise<QueuedRoomMessage | null> => {
+  for (;;) {
+    const room = await getRoom(roomId);
+    if (!room || room.activeTurnId !== turnId) {
+      return null;
+    }
+
+    const [next, ...rest] = room.queue;
+
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: config.roomsTable,
+          Key: {
+            roomId,
+          },
+          UpdateExpression: next
+            ? "SET activeTurnId = :nextTurnId, activeTurnStartedAt = :now, #queue = :rest"
+            : "REMOVE activeTurnId, activeTurnStartedAt",
+          ConditionExpression:
+            "activeTurnId = :turnId AND queueVersion = :queueVersion",
+          ...(next ? { ExpressionAttributeNames: { "#queue": "queue" } } : {}),
+          ExpressionAttributeValues: {
+            ":turnId": turnId,
+            ":queueVersion": room.queueVersion,
+            ...(next
+              ? {
+                  ":nextTurnId": next.turnId,
+                  ":now": Date.now(),
+                  ":rest": rest,
+                }
+              : {}),
+          },
+        })
+      );
+      return next || null;
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        console.error(`Error finishing a turn in room ${roomId}:`, error);
+        throw error;
+      }
+      // A message was queued meanwhile; look again
+    }
+  }
+};
+
+/**
+ * End a turn and leave the room idle with its queue, for the next message
+ * sent to the room or resumeRoomQueue to take up
+ * Each waiting message's nextSequence is moved past one event, which the
+ * caller sends to tell its sender that it waits
+ * @returns the waiting messages as they were before
+ */
+export const parkRoomQueue = async (
+  roomId: string,
+  turnId: string
+): Promise<QueuedRoomMessage[]> => {
+  for (;;) {
+    const room = await getRoom(roomId);
+    if (!room || room.activeTurnId !== turnId) {
+      return [];
+    }
+
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: config.roomsTable,
+          Key: {
+            roomId,
+          },
+          UpdateExpression:
+            "SET #queue = :parked REMOVE activeTurnId, activeTurnStartedAt",
+          ConditionExpression:
+            "activeTurnId = :turnId AND queueVersion = :queueVersion",
+          ExpressionAttributeNames: {
+            "#queue": "queue",
+          },
+          ExpressionAttributeValues: {
+            ":turnId": turnId,
+            ":queueVersion": room.queueVersion,
+            ":parked": room.queue.map((queued) => ({
+              ...queued,
+              nextSequence: queued.nextSequence + 1,
+            })),
+          },
+        })
+      );
+      return room.queue;
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        console.error(`Error parking the queue of room ${roomId}:`, error);
+        throw error;
+      }
+      // A message was queued meanwhile; look again
+    }
+  }
+};
+
+/**
+ * Take up the queue left waiting in an idle room
+ * Returns the message that now holds the room, or null when the room is busy
+ * or has nothing waiting
+ */
+export const resumeRoomQueue = async (
+  roomId: string
+): Promise<QueuedRoomMessage | null> => {
+  for (let attempt = 0; attempt < MAX_TURN_ATTEMPTS; attempt++) {
+    const room = await getRoom(roomId);
+    if (!room || room.queue.length === 0 || !isRoomIdle(room, Date.now())) {
+      return null;
+    }
+
+    const [turn, ...rest] = room.queue;
+    if (await startRoomTurn(room, turn, rest)) {
+      return turn;
+    }
+  }
+
+  return null;
+};
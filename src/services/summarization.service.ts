@@ -0,0 +1,240 @@
+import { v4 as uuidv4 } from "uuid";
+import { generateResponse } from "./llm.service";
+import {
+  getChatSession,
+  getActivePath,
+  getSummaryForPath,
+  updateChatSessionSummary,
+  ChatMessage,
+} from "./chat-session.service";
+import { config } from "../config/config";
+import { cleanAssistantResponse } from "../utils/sanitization";
+import { PromptMessage } from "../utils/prompt-templates";
+import { getDefaultModel, getModelDefaultParameters } from "../config/models";
+import {
+  buildContextWindow,
+  estimateTokens,
+  ContextWindowOptions,
+} from "../utils/conversation";
+import {
+  waitForBackendSlot,
+  releaseBackendSlot,
+  renewBackendSlot,
+} from "./generation-queue.service";
+import { recordUsage, GenerationUsage } from "./usage.service";
+
+// Low temperature keeps summaries factual
+const SUMMARY_TEMPERATURE = 0.2;
+
+/**
+ * Build the prompt that folds new turns into the existing summary
+ */
+const buildSummaryPrompt = (
+  previousSummary: string,
+  messages: ChatMessage[]
+): PromptMessage[] => {
+  const transcript = messages
+    .map((msg) => {
+      const role =
+        msg.role === "user"
+          ? "User"
+          : msg.role === "assistant"
+          ? "Assistant"
+          : "System";
+      const content =
+        msg.role === "assistant"
+          ? cleanAssistantResponse(msg.content)
+          : msg.content;
+
+      return `${role}: ${content}`;
+    })
+    .join("\n\n");
+
+  const instructions =
+    "Summarize the conversation below so it can replace the original turns as context for future replies. " +
+    "Keep decisions, requirements, names, code identifiers and open questions. Omit pleasantries. " +
+    "Reply with the summary only.";
+
+  const request = previousSummary
+    ? `${instructions}\n\nExisting summary of earlier turns:\n${previousSummary}\n\nNew turns to fold into the summary:\n${transcript}`
+    : `${instructions}\n\nConversation:\n${transcript}`;
+
+  return [{ role: "user", content: request }];
+};
+
+/**
+ * Take the oldest turns that fit in the summary prompt whole
+ * The first turn is always taken, cut down to its most recent part when it
+ * doesn't fit on its own; the turns left over go into the next summary
+ */
+const fitTurnsToSummarize = (
+  turns: ChatMessage[],
+  options: ContextWindowOptions
+): ChatMessage[] => {
+  let count = 1;
+  while (count < turns.length) {
+    const window = buildContextWindow(turns.slice(0, count + 1), options);
+    if (window.droppedCount > 0 || window.truncatedCount > 0) {
+      break;
+    }
+    count++;
+  }
+
+  return buildContextWindow(turns.slice(0, count), options).messages;
+};
+
+/**
+ * Summarize the older turns of a conversation once they pass the threshold
+ * Only the turns added since the last summary are sent, together with the
+ * previous summary, so the summary is regenerated incrementally; as many of
+ * them as fit in the model context go into one summary and the rest into the
+ * next one
+ * A conversation keeps one summary, made from its active branch; switching to
+ * a branch it doesn't describe starts the summary over for that branch
+ * The summary waits for the model server like any generation, and its tokens
+ * count towards the usage of the user whose message triggered it
+ */
+export const summarizeConversationIfNeeded = async (
+  conversationId: string,
+  userId: string,
+  connectionId: string
+): Promise<void> => {
+  const { enabled, thresholdMessages, keepRecentMessages, maxTokens } =
+    config.llm.summarization;
+
+  if (!enabled) {
+    return;
+  }
+
+  const chatSession = await getChatSession(conversationId);
+  if (!chatSession) {
+    return;
+  }
+
+  const history = getActivePath(chatSession);
+  const { summary: previousSummary, summarizedCount } = getSummaryForPath(
+    chatSession,
+    history
+  );
+
+  if (history.length - summarizedCount <= thresholdMessages) {
+    return;
+  }
+
+  // Fold everything except the most recent turns into the summary
+  const candidateTurns = history.slice(
+    summarizedCount,
+    history.length - keepRecentMessages
+  );
+
+  if (candidateTurns.length === 0) {
+    return;
+  }
+
+  const startTime = Date.now();
+  // Summaries are always written by the default model
+  const model = getDefaultModel();
+  const turnsToSummarize = fitTurnsToSummarize(candidateTurns, {
+    contextTokens: model.contextWindowTokens,
+    maxTokens,
+    reservedTokens: estimateTokens(
+      buildSummaryPrompt(previousSummary || "", [])[0].content
+    ),
+  });
+  const newSummarizedCount = summarizedCount + turnsToSummarize.length;
+  const messages = buildSummaryPrompt(previousSummary || "", turnsToSummarize);
+
+  // Wait for the model server like any generation
+  const summaryId = uuidv4();
+  const queued = config.llm.queue.maxConcurrentGenerations > 0;
+  if (queued) {
+    const queueWait = await waitForBackendSlot(
+      summaryId,
+      userId,
+      connectionId,
+      { maxWaitMs: config.llm.summarization.maxQueueWaitMs }
+    );
+
+    // The summary isn't needed yet, so it doesn't hold up a busy backend
+    if (!queueWait.acquired) {
+      console.log({
+        event: "summarization_skipped",
+        conversationId,
+        reason: "backend_busy",
+        waitedMs: queueWait.waitedMs,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+  }
+
+  // Keep the slot for as long as the summary takes
+  const slotRenewal = queued
+    ? setInterval(async () => {
+        try {
+          await renewBackendSlot(summaryId, userId);
+        } catch (error) {
+          console.error("Error renewing backend slot:", error);
+        }
+      }, config.llm.queue.slotLeaseMs / 3)
+    : undefined;
+
+  let response;
+  try {
+    response = await generateResponse({
+      messages,
+      model: model.id,
+      parameters: {
+        ...getModelDefaultParameters(model),
+        temperature: SUMMARY_TEMPERATURE,
+        maxTokens,
+      },
+    });
+  } finally {
+    clearInterval(slotRenewal);
+    if (queued) {
+      try {
+        await releaseBackendSlot(summaryId);
+      } catch (error) {
+        console.error("Error releasing backend slot:", error);
+      }
+    }
+  }
+  const summary = response.text;
+
+  // Usage is only accounting, so failing to record it must not lose the summary
+  const usage: GenerationUsage = {
+    promptTokens:
+      response.usage?.promptTokens ??
+      estimateTokens(messages.map((message) => message.content).join("")),
+    completionTokens:
+      response.usage?.completionTokens ?? estimateTokens(summary),
+    estimated: !response.usage,
+  };
+  try {
+    await recordUsage(userId, model.id, usage);
+  } catch (error) {
+    console.error("Error recording usage:", error);
+  }
+
+  await updateChatSessionSummary(
+    conversationId,
+    cleanAssistantResponse(summary),
+    history[newSummarizedCount - 1].id,
+    newSummarizedCount,
+    chatSession.summaryThroughId
+  );
+
+  console.log({
+    event: "conversation_summarized",
+    conversationId,
+    summarizedTurns: turnsToSummarize.length,
+    remainingTurns: candidateTurns.length - turnsToSummarize.length,
+    totalSummarizedCount: newSummarizedCount,
+    summaryLength: summary.length,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    durationMs: Date.now() - startTime,
+    timestamp: Date.now(),
+  });
+};
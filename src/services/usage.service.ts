@@ -0,0 +1,197 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { config } from "../config/config";
+import { RateLimits } from "../config/rate-limits";
+import { TokenUsage } from "./providers/provider";
+import { RateLimitRejection } from "./rate-limit.service";
+
+/**
+ * Token usage accounting
+ *
+ * Each user has one item per UTC day and model, keyed "YYYY-MM-DD#model",
+ * that every generation adds its tokens to. A day's or month's usage is read
+ * back with a query on the key prefix, which also backs the token quotas.
+ */
+
+export interface UsageItem {
+  userId: string;
+  // "YYYY-MM-DD#model"
+  usageKey: string;
+  day: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  generations: number;
+  // Generations whose counts were estimated because the backend sent none
+  estimatedGenerations: number;
+  updatedAt: number;
+  ttl: number;
+}
+
+// Tokens of one generation, and whether they were estimated
+export interface GenerationUsage extends TokenUsage {
+  estimated: boolean;
+}
+
+// Create DynamoDB client with standard configuration
+const client = new DynamoDBClient({
+  region: config.region,
+});
+
+// Create document client with optimized serialization options
+const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: {
+    convertEmptyValues: true,
+    removeUndefinedValues: true,
+  },
+});
+
+/**
+ * UTC day of a timestamp, as "YYYY-MM-DD"
+ */
+export const toUsageDay = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * UTC month of a timestamp, as "YYYY-MM"
+ */
+export const toUsageMonth = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 7);
+
+/**
+ * Prompt and completion tokens of some usage items
+ */
+export const sumTokens = (items: UsageItem[]): number =>
+  items.reduce(
+    (total, item) => total + item.promptTokens + item.completionTokens,
+    0
+  );
+
+/**
+ * Add a generation's tokens to the user's record for the day and model
+ */
+export const recordUsage = async (
+  userId: string,
+  model: string,
+  usage: GenerationUsage
+): Promise<void> => {
+  const now = Date.now();
+  const day = toUsageDay(now);
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: config.usageTable,
+        Key: {
+          userId,
+          usageKey: `${day}#${model}`,
+        },
+        UpdateExpression:
+          "SET #day = :day, model = :model, promptTokens = if_not_exists(promptTokens, :zero) + :promptTokens, completionTokens = if_not_exists(completionTokens, :zero) + :completionTokens, generations = if_not_exists(generations, :zero) + :one, estimatedGenerations = if_not_exists(estimatedGenerations, :zero) + :estimated, updatedAt = :updatedAt, #ttl = :ttl",
+        ExpressionAttributeNames: {
+          "#day": "day",
+          "#ttl": "ttl",
+        },
+        ExpressionAttributeValues: {
+          ":day": day,
+          ":model": model,
+          ":promptTokens": usage.promptTokens,
+          ":completionTokens": usage.completionTokens,
+          ":estimated": usage.estimated ? 1 : 0,
+          ":zero": 0,
+          ":one": 1,
+          ":updatedAt": now,
+          ":ttl": Math.floor(now / 1000) + config.usageTtl,
+        },
+      })
+    );
+  } catch (error) {
+    console.error(`Error recording usage of user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get a user's usage items whose day starts with a prefix, such as a day or a
+ * month, oldest first
+ */
+export const getUsageItems = async (
+  userId: string,
+  dayPrefix: string
+): Promise<UsageItem[]> => {
+  try {
+    const items: UsageItem[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: config.usageTable,
+          KeyConditionExpression:
+            "userId = :userId AND begins_with(usageKey, :prefix)",
+          ExpressionAttributeValues: {
+            ":userId": userId,
+            ":prefix": dayPrefix,
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      items.push(...((result.Items as UsageItem[] | undefined) || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  } catch (error) {
+    console.error(`Error getting usage of user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Check the user's token quotas against what they used so far
+ * Returns null while they have tokens left, or the quota they used up, which
+ * opens again at the start of the next UTC day or month. A generation that
+ * starts under a quota may end over it.
+ */
+export const checkTokenQuotas = async (
+  userId: string,
+  limits: RateLimits
+): Promise<RateLimitRejection | null> => {
+  if (limits.dailyTokens === 0 && limits.monthlyTokens === 0) {
+    return null;
+  }
+
+  const now = new Date(Date.now());
+  const items = await getUsageItems(userId, toUsageMonth(now.getTime()));
+
+  if (limits.monthlyTokens > 0 && sumTokens(items) >= limits.monthlyTokens) {
+    return {
+      limit: "monthly_tokens",
+      retryAfterMs:
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1) - now.getTime(),
+    };
+  }
+
+  const today = toUsageDay(now.getTime());
+  if (
+    limits.dailyTokens > 0 &&
+    sumTokens(items.filter((item) => item.day === today)) >= limits.dailyTokens
+  ) {
+    return {
+      limit: "daily_tokens",
+      retryAfterMs:
+        Date.UTC(
+          now.getUTCFullYear(),
+          now.getUTCMonth(),
+          now.getUTCDate() + 1
+        ) - now.getTime(),
+    };
+  }
+
+  return null;
+};
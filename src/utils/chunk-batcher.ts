@@ -0,0 +1,126 @@
+/**
+ * Coalesce streamed text chunks into fewer WebSocket messages
+ *
+ * Text is buffered until the time window since the first buffered chunk
+ * passes or the buffer reaches maxBytes, whichever comes first. Batches are
+ * sent one at a time and in order, each with the number of pushed chunks it
+ * holds.
+ */
+
+export interface ChunkBatcherOptions {
+  // Longest a chunk waits before being sent; 0 sends every chunk at once
+  windowMs: number;
+  // Buffer size that triggers a send without waiting for the window
+  maxBytes: number;
+}
+
+export interface ChunkBatcher {
+  /**
+   * Buffer text; resolves once it is buffered, or sent if the buffer is full
+   * Rejects if an earlier batch failed to send
+   */
+  push(text: string): Promise<void>;
+  /**
+   * Send the buffered text now; with isComplete the batch is sent even if
+   * empty, to mark the end of the stream
+   */
+  flush(isComplete?: boolean): Promise<void>;
+  /**
+   * Drop the buffered text and stop the window timer
+   */
+  discard(): void;
+}
+
+/**
+ * Create a batcher that passes each batch to send
+ */
+export const createChunkBatcher = (
+  send: (
+    text: string,
+    isComplete: boolean,
+    chunkCount: number
+  ) => Promise<void>,
+  options: ChunkBatcherOptions
+): ChunkBatcher => {
+  let buffer = "";
+  let bufferedBytes = 0;
+  let bufferedChunks = 0;
+  let timer: NodeJS.Timeout | null = null;
+  // Batches already handed to send, in order
+  let sending = Promise.resolve();
+  // The first failed send; everything after it is refused
+  let sendError: unknown = null;
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const flush = async (isComplete = false): Promise<void> => {
+    clearTimer();
+    if (sendError) {
+      throw sendError;
+    }
+
+    if (buffer || isComplete) {
+      const text = buffer;
+      const chunkCount = bufferedChunks;
+      buffer = "";
+      bufferedBytes = 0;
+      bufferedChunks = 0;
+
+      sending = sending.then(async () => {
+        if (sendError) {
+          return;
+        }
+        try {
+          await send(text, isComplete, chunkCount);
+        } catch (error) {
+          sendError = error;
+        }
+      });
+    }
+
+    await sending;
+    if (sendError) {
+      throw sendError;
+    }
+  };
+
+  const push = async (text: string): Promise<void> => {
+    if (sendError) {
+      throw sendError;
+    }
+    if (!text) {
+      return;
+    }
+
+    buffer += text;
+    bufferedBytes += Buffer.byteLength(text);
+    bufferedChunks++;
+
+    if (options.windowMs <= 0 || bufferedBytes >= options.maxBytes) {
+      await flush();
+      return;
+    }
+
+    // The failure is kept in sendError and surfaces on the next call
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = null;
+        flush().catch(() => undefined);
+      }, options.windowMs);
+    }
+  };
+
+  const discard = () => {
+    clearTimer();
+    buffer = "";
+    bufferedBytes = 0;
+    bufferedChunks = 0;
+  };
+
+  return { push, flush, discard };
+};
@@ -4,41 +4,179 @@
 
 import { ChatMessage } from "../services/chat-session.service";
 import { lightlySanitizeInput, cleanAssistantResponse } from "./sanitization";
+import { PromptMessage } from "./prompt-templates";
+
+// Rough characters-per-token ratio used to estimate prompt size
+// Deliberately conservative since code tokenizes worse than prose
+const CHARS_PER_TOKEN = 3.5;
+
+// Tokens added per message for the role label and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens kept free for the prompt scaffolding around the history
+const PROMPT_OVERHEAD_TOKENS = 32;
+
+// Don't bother keeping a truncated turn smaller than this
+const MIN_TRUNCATED_MESSAGE_TOKENS = 64;
+
+// Marker placed where the start of a truncated turn was cut off
+const TRUNCATION_MARKER = "[earlier content truncated] ";
 
 /**
- * Format conversation history for LLM prompt
- * Preserves code blocks and applies minimal sanitization to history
+ * Options for building the context window
+ */
+export interface ContextWindowOptions {
+  // Total context size of the model in tokens
+  contextTokens: number;
+  // Tokens requested for the completion
+  maxTokens: number;
+  // Tokens already taken by other prompt content, such as a summary
+  reservedTokens?: number;
+}
+
+/**
+ * Messages selected for the prompt and what was left out
+ */
+export interface ContextWindow {
+  messages: ChatMessage[];
+  droppedCount: number;
+  truncatedCount: number;
+  estimatedTokens: number;
+  budgetTokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil((text || "").length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Author label put before a user turn in a shared room, empty elsewhere
+ */
+const authorPrefix = (message: ChatMessage): string =>
+  message.role === "user" && message.userId
+    ? `${message.userEmail || message.userId}: `
+    : "";
+
+/**
+ * Estimate the number of tokens a message takes up in the prompt
  */
-export const formatConversationHistory = (history: ChatMessage[]): string => {
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  return (
+    estimateTokens(authorPrefix(message) + message.content) +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+};
+
+/**
+ * Keep only the most recent part of a message so it fits in the given budget
+ */
+const truncateMessage = (
+  message: ChatMessage,
+  budgetTokens: number
+): ChatMessage => {
+  const contentTokens =
+    budgetTokens -
+    MESSAGE_OVERHEAD_TOKENS -
+    estimateTokens(authorPrefix(message) + TRUNCATION_MARKER);
+  const maxChars = Math.max(0, Math.floor(contentTokens * CHARS_PER_TOKEN));
+
+  return {
+    ...message,
+    content: `${TRUNCATION_MARKER}${message.content.slice(
+      message.content.length - maxChars
+    )}`,
+  };
+};
+
+/**
+ * Select the conversation turns that fit in the model context
+ * The last message (the latest user turn) is always kept, cut down to its
+ * most recent part if it alone is over the budget; older turns are added
+ * newest-first until the budget runs out, truncating the oldest turn that
+ * only partly fits and dropping everything before it
+ */
+export const buildContextWindow = (
+  history: ChatMessage[],
+  options: ContextWindowOptions
+): ContextWindow => {
+  const budgetTokens = Math.max(
+    0,
+    options.contextTokens -
+      options.maxTokens -
+      (options.reservedTokens || 0) -
+      PROMPT_OVERHEAD_TOKENS
+  );
+
   if (!history || history.length === 0) {
-    return "";
+    return {
+      messages: [],
+      droppedCount: 0,
+      truncatedCount: 0,
+      estimatedTokens: 0,
+      budgetTokens,
+    };
   }
 
-  // Exclude the most recent message since it will be added separately in the prompt
-  const historyWithoutLatest = history.slice(0, -1);
-
-  if (historyWithoutLatest.length === 0) {
-    return "";
+  let latest = history[history.length - 1];
+  let truncatedCount = 0;
+  if (estimateMessageTokens(latest) > budgetTokens) {
+    latest = truncateMessage(latest, budgetTokens);
+    truncatedCount++;
   }
+  const selected: ChatMessage[] = [latest];
+  let estimatedTokens = estimateMessageTokens(latest);
 
-  // Maximum allowed messages in history to prevent excessive token usage
-  const MAX_HISTORY_MESSAGES = 50; // Allow more context for code discussions
+  for (let index = history.length - 2; index >= 0; index--) {
+    const message = history[index];
+    const messageTokens = estimateMessageTokens(message);
+    const remainingTokens = budgetTokens - estimatedTokens;
 
-  // Limit the number of messages to prevent token explosion
-  const limitedHistory = historyWithoutLatest.slice(-MAX_HISTORY_MESSAGES);
+    if (messageTokens <= remainingTokens) {
+      selected.unshift(message);
+      estimatedTokens += messageTokens;
+      continue;
+    }
 
-  return limitedHistory
-    .map((msg) => {
-      const role = msg.role === "user" ? "Human" : "Assistant";
+    // Keep the tail of the turn that crosses the budget, then stop
+    if (remainingTokens >= MIN_TRUNCATED_MESSAGE_TOKENS) {
+      const truncated = truncateMessage(message, remainingTokens);
+      selected.unshift(truncated);
+      estimatedTokens += estimateMessageTokens(truncated);
+      truncatedCount++;
+    }
+    break;
+  }
 
-      // Use light sanitization for history to preserve code formatting
-      // For assistant messages, also clean any <think> blocks
-      const content =
-        msg.role === "user"
-          ? lightlySanitizeInput(msg.content)
-          : cleanAssistantResponse(lightlySanitizeInput(msg.content));
+  return {
+    messages: selected,
+    droppedCount: history.length - selected.length,
+    truncatedCount,
+    estimatedTokens,
+    budgetTokens,
+  };
+};
+
+/**
+ * Convert conversation history into prompt messages
+ * Preserves code blocks and applies minimal sanitization to history
+ * Expects history already limited by buildContextWindow
+ */
+export const toPromptMessages = (history: ChatMessage[]): PromptMessage[] => {
+  if (!history || history.length === 0) {
+    return [];
+  }
 
-      return `${role}: ${content}`;
-    })
-    .join("\n\n");
+  return history.map((msg) => ({
+    role: msg.role,
+    // Use light sanitization for history to preserve code formatting
+    // For assistant messages, also clean any <think> blocks
+    // User turns in a shared room say who wrote them
+    content:
+      msg.role === "assistant"
+        ? cleanAssistantResponse(lightlySanitizeInput(msg.content))
+        : authorPrefix(msg) + lightlySanitizeInput(msg.content),
+  }));
 };
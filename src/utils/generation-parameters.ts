@@ -0,0 +1,65 @@
+/**
+ * Generation parameters shared by the client protocol, sanitization and the
+ * LLM service
+ */
+import { config } from "../config/config";
+
+/**
+ * Settings for one generation, as sent to the model
+ */
+export interface GenerationParameters {
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  topK: number;
+  repetitionPenalty: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+  // Sequences that end the generation when produced
+  stop: string[];
+  // Fixed seed for reproducible sampling; random when unset
+  seed?: number;
+}
+
+// Upper bounds for client-requested values
+export const GENERATION_PARAMETER_LIMITS = {
+  maxTokens: 4096,
+  temperature: 2.0,
+  topP: 1.0,
+  topK: 100,
+  repetitionPenalty: 2.0,
+  presencePenalty: 2.0,
+  frequencyPenalty: 2.0,
+  stopSequences: 5,
+  stopSequenceLength: 64,
+};
+
+/**
+ * Parameters used when the client doesn't ask for anything else
+ */
+export const getDefaultGenerationParameters = (): GenerationParameters => ({
+  maxTokens: config.llm.defaultMaxTokens,
+  temperature: config.llm.defaultTemperature,
+  topP: config.llm.defaultTopP,
+  topK: config.llm.defaultTopK,
+  repetitionPenalty: config.llm.defaultRepetitionPenalty,
+  presencePenalty: config.llm.defaultPresencePenalty,
+  frequencyPenalty: config.llm.defaultFrequencyPenalty,
+  stop: [],
+});
+
+/**
+ * Map parameters to the Parameters message of llm.proto
+ */
+export const toGrpcParameters = (parameters: GenerationParameters) => ({
+  temperature: parameters.temperature,
+  max_tokens: parameters.maxTokens,
+  top_p: parameters.topP,
+  top_k: parameters.topK,
+  repetition_penalty: parameters.repetitionPenalty,
+  presence_penalty: parameters.presencePenalty,
+  frequency_penalty: parameters.frequencyPenalty,
+  stop: parameters.stop,
+  // Left out entirely so the proto3 optional field stays unset
+  ...(parameters.seed !== undefined ? { seed: parameters.seed } : {}),
+});
@@ -0,0 +1,154 @@
+/**
+ * Prompt templates for turning chat messages into a model prompt
+ * Each template renders role boundaries the way its model family was trained
+ * on, and neutralizes those boundaries inside message content
+ */
+
+export type PromptRole = "system" | "user" | "assistant";
+
+export interface PromptMessage {
+  role: PromptRole;
+  content: string;
+}
+
+export type PromptTemplateName = "deepseek" | "chatml" | "legacy";
+
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  // Render the messages and open an assistant turn for the model to complete
+  format: (messages: PromptMessage[]) => string;
+}
+
+// Invisible character used to break up role markers in message content
+export const ZERO_WIDTH_SPACE = "\u200b";
+
+// DeepSeek special tokens use fullwidth bars, e.g. <｜User｜>
+const DEEPSEEK_BOS = "<｜begin▁of▁sentence｜>";
+const DEEPSEEK_EOS = "<｜end▁of▁sentence｜>";
+const DEEPSEEK_USER = "<｜User｜>";
+const DEEPSEEK_ASSISTANT = "<｜Assistant｜>";
+
+/**
+ * Break up anything that looks like a DeepSeek special token
+ */
+const escapeDeepSeekContent = (content: string): string => {
+  return content.replace(/<｜/g, `<${ZERO_WIDTH_SPACE}｜`);
+};
+
+/**
+ * Break up anything that looks like a ChatML special token
+ */
+const escapeChatMLContent = (content: string): string => {
+  return content.replace(/<\|/g, `<${ZERO_WIDTH_SPACE}|`);
+};
+
+/**
+ * Break up "Human:", "Assistant:" and "System:" labels at the start of a line
+ * so user content can't open a fake turn in the legacy format
+ */
+const escapeLegacyContent = (content: string): string => {
+  return content.replace(
+    /^([ \t]*)(Human|Assistant|System)([ \t]*):/gim,
+    `$1$2${ZERO_WIDTH_SPACE}$3:`
+  );
+};
+
+/**
+ * DeepSeek chat template
+ * System prompts go right after the BOS token, and each assistant turn is
+ * closed with the EOS token
+ */
+const deepseekTemplate: PromptTemplate = {
+  name: "deepseek",
+  format: (messages) => {
+    const systemPrompt = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => escapeDeepSeekContent(msg.content))
+      .join("\n\n");
+
+    const turns = messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => {
+        const content = escapeDeepSeekContent(msg.content);
+
+        return msg.role === "user"
+          ? `${DEEPSEEK_USER}${content}`
+          : `${DEEPSEEK_ASSISTANT}${content}${DEEPSEEK_EOS}`;
+      })
+      .join("");
+
+    return `${DEEPSEEK_BOS}${systemPrompt}${turns}${DEEPSEEK_ASSISTANT}`;
+  },
+};
+
+/**
+ * ChatML template used by many open models (Qwen, Hermes, ...)
+ */
+const chatmlTemplate: PromptTemplate = {
+  name: "chatml",
+  format: (messages) => {
+    const turns = messages
+      .map((msg) => {
+        const content = escapeChatMLContent(msg.content);
+
+        return `<|im_start|>${msg.role}\n${content}<|im_end|>\n`;
+      })
+      .join("");
+
+    return `${turns}<|im_start|>assistant\n`;
+  },
+};
+
+/**
+ * The original "Human:/Assistant:" plain-text format
+ * System content is placed as plain paragraphs before the turns
+ */
+const legacyTemplate: PromptTemplate = {
+  name: "legacy",
+  format: (messages) => {
+    const parts = messages.map((msg) => {
+      const content = escapeLegacyContent(msg.content);
+
+      if (msg.role === "system") {
+        return content;
+      }
+
+      return `${msg.role === "user" ? "Human" : "Assistant"}: ${content}`;
+    });
+
+    return [...parts, "Assistant:"].join("\n\n");
+  },
+};
+
+const PROMPT_TEMPLATES: Record<PromptTemplateName, PromptTemplate> = {
+  deepseek: deepseekTemplate,
+  chatml: chatmlTemplate,
+  legacy: legacyTemplate,
+};
+
+/**
+ * Get a prompt template by name
+ * Unknown names fall back to the DeepSeek template
+ */
+export const getPromptTemplate = (name: string): PromptTemplate => {
+  const template = PROMPT_TEMPLATES[name as PromptTemplateName];
+
+  if (!template) {
+    console.warn(
+      `Unknown prompt template "${name}", falling back to "deepseek"`
+    );
+    return deepseekTemplate;
+  }
+
+  return template;
+};
+
+/**
+ * Format messages into a prompt using the named template
+ */
+export const formatPrompt = (
+  messages: PromptMessage[],
+  templateName: string
+): string => {
+  return getPromptTemplate(templateName).format(messages);
+};
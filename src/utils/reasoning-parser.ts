@@ -0,0 +1,94 @@
+/**
+ * Incremental parser separating <think> reasoning from the answer in a
+ * streamed response
+ * Tags may be split across chunks; text that could be the start of a tag is
+ * held back until the next chunk shows whether it is one.
+ */
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+export interface ReasoningSegment {
+  type: "reasoning" | "answer";
+  text: string;
+  // Set on the last segment of a reasoning block, when </think> was read
+  reasoningComplete?: boolean;
+}
+
+export interface ReasoningParser {
+  /**
+   * Parse the next chunk, returning the text that is certain so far
+   */
+  push(text: string): ReasoningSegment[];
+  /**
+   * Return anything still held back at the end of the stream
+   */
+  end(): ReasoningSegment[];
+}
+
+/**
+ * Length of the longest suffix of text that is a prefix of tag
+ */
+const partialTagLength = (text: string, tag: string): number => {
+  for (
+    let length = Math.min(tag.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (text.endsWith(tag.substring(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Create a parser for one streamed response
+ */
+export const createReasoningParser = (): ReasoningParser => {
+  let inReasoning = false;
+  // Text not yet returned because it may be part of a tag
+  let pending = "";
+
+  const push = (text: string): ReasoningSegment[] => {
+    const segments: ReasoningSegment[] = [];
+    pending += text;
+
+    while (pending) {
+      const type = inReasoning ? "reasoning" : "answer";
+      const tag = inReasoning ? CLOSE_TAG : OPEN_TAG;
+      const tagIndex = pending.indexOf(tag);
+
+      if (tagIndex === -1) {
+        const heldBack = partialTagLength(pending, tag);
+        const certain = pending.substring(0, pending.length - heldBack);
+        if (certain) {
+          segments.push({ type, text: certain });
+        }
+        pending = pending.substring(certain.length);
+        break;
+      }
+
+      const before = pending.substring(0, tagIndex);
+      if (before || inReasoning) {
+        segments.push({
+          type,
+          text: before,
+          ...(inReasoning ? { reasoningComplete: true } : {}),
+        });
+      }
+      pending = pending.substring(tagIndex + tag.length);
+      inReasoning = !inReasoning;
+    }
+
+    return segments;
+  };
+
+  const end = (): ReasoningSegment[] => {
+    const text = pending;
+    pending = "";
+    return text ? [{ type: inReasoning ? "reasoning" : "answer", text }] : [];
+  };
+
+  return { push, end };
+};
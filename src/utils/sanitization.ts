@@ -1,29 +1,20 @@
 /**
  * Sanitization utilities for user input and LLM parameters
  */
+import {
+  validateInboundMessage,
+  ValidationResult,
+} from "../protocol/validation";
+import {
+  GenerationParameters,
+  GENERATION_PARAMETER_LIMITS,
+  getDefaultGenerationParameters,
+} from "./generation-parameters";
 
 // Maximum allowed message length (characters)
 // Set high enough to allow code samples
 export const MAX_MESSAGE_LENGTH = 100000;
 
-// Default and maximum parameter values for safety
-export const DEFAULT_PARAMS = {
-  max_tokens: 1024,
-  temperature: 0.7,
-  top_p: 1.0,
-  top_k: 40,
-  repetition_penalty: 1.0,
-  stop: [],
-};
-
-export const MAX_PARAMS = {
-  max_tokens: 4096,
-  temperature: 2.0,
-  top_p: 1.0,
-  top_k: 100,
-  repetition_penalty: 2.0,
-};
-
 /**
  * Result of input sanitization
  */
@@ -156,56 +147,83 @@ export const sanitizeUserInput = (input: string): SanitizationResult => {
 
 /**
  * Sanitize LLM parameters to ensure they're within acceptable bounds
- * @param params - The parameters to sanitize
- * @returns Sanitized parameters
+ * Values that are missing or unusable fall back to the defaults; values above
+ * a limit are clamped to it
+ * @param params - The parameters requested by the client
+ * @param defaults - Defaults of the model, the configured ones if not given
+ * @returns The parameters the generation will use
  */
-export const sanitizeLLMParameters = (params: any = {}): any => {
+export const sanitizeLLMParameters = (
+  params: Partial<Record<keyof GenerationParameters, unknown>> = {},
+  defaults: GenerationParameters = getDefaultGenerationParameters()
+): GenerationParameters => {
   // Start with default parameters
-  const sanitizedParams = { ...DEFAULT_PARAMS };
+  const sanitizedParams = { ...defaults, stop: [...defaults.stop] };
+  const limits = GENERATION_PARAMETER_LIMITS;
+
+  const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
 
   // Process and validate each parameter
-  if (typeof params.max_tokens === "number" && params.max_tokens > 0) {
-    sanitizedParams.max_tokens = Math.min(
-      params.max_tokens,
-      MAX_PARAMS.max_tokens
+  if (Number.isInteger(params.maxTokens) && (params.maxTokens as number) > 0) {
+    sanitizedParams.maxTokens = Math.min(
+      params.maxTokens as number,
+      limits.maxTokens
     );
   }
 
-  if (typeof params.temperature === "number" && params.temperature >= 0) {
+  // 0 is a valid temperature and means greedy decoding
+  if (isNumber(params.temperature) && params.temperature >= 0) {
     sanitizedParams.temperature = Math.min(
       params.temperature,
-      MAX_PARAMS.temperature
+      limits.temperature
     );
   }
 
-  if (
-    typeof params.top_p === "number" &&
-    params.top_p > 0 &&
-    params.top_p <= MAX_PARAMS.top_p
-  ) {
-    sanitizedParams.top_p = params.top_p;
+  if (isNumber(params.topP) && params.topP > 0 && params.topP <= limits.topP) {
+    sanitizedParams.topP = params.topP;
+  }
+
+  if (Number.isInteger(params.topK) && (params.topK as number) > 0) {
+    sanitizedParams.topK = Math.min(params.topK as number, limits.topK);
+  }
+
+  if (isNumber(params.repetitionPenalty) && params.repetitionPenalty > 0) {
+    sanitizedParams.repetitionPenalty = Math.min(
+      params.repetitionPenalty,
+      limits.repetitionPenalty
+    );
   }
 
-  if (typeof params.top_k === "number" && params.top_k > 0) {
-    sanitizedParams.top_k = Math.min(params.top_k, MAX_PARAMS.top_k);
+  // Penalties may be negative to encourage repetition
+  if (isNumber(params.presencePenalty)) {
+    sanitizedParams.presencePenalty = Math.max(
+      -limits.presencePenalty,
+      Math.min(params.presencePenalty, limits.presencePenalty)
+    );
   }
 
-  if (
-    typeof params.repetition_penalty === "number" &&
-    params.repetition_penalty > 0
-  ) {
-    sanitizedParams.repetition_penalty = Math.min(
-      params.repetition_penalty,
-      MAX_PARAMS.repetition_penalty
+  if (isNumber(params.frequencyPenalty)) {
+    sanitizedParams.frequencyPenalty = Math.max(
+      -limits.frequencyPenalty,
+      Math.min(params.frequencyPenalty, limits.frequencyPenalty)
     );
   }
 
-  // Handle stop tokens (if provided)
+  // Handle stop sequences (if provided)
   if (Array.isArray(params.stop)) {
-    // Only accept string stop tokens and limit their number
+    // Only accept non-empty strings and limit their number and length
     sanitizedParams.stop = params.stop
-      .filter((token: any) => typeof token === "string")
-      .slice(0, 5); // Limit to 5 stop tokens
+      .filter(
+        (sequence): sequence is string =>
+          typeof sequence === "string" && sequence.length > 0
+      )
+      .map((sequence) => sequence.substring(0, limits.stopSequenceLength))
+      .slice(0, limits.stopSequences);
+  }
+
+  if (Number.isSafeInteger(params.seed) && (params.seed as number) >= 0) {
+    sanitizedParams.seed = params.seed as number;
   }
 
   return sanitizedParams;
@@ -232,13 +250,16 @@ export const safelySanitizeInput = (input: any): SanitizationResult => {
  * Safely sanitize LLM parameters with error handling
  * @param params - Parameters to sanitize
  */
-export const safelySanitizeParameters = (params: any): any => {
+export const safelySanitizeParameters = (
+  params: any,
+  defaults: GenerationParameters = getDefaultGenerationParameters()
+): GenerationParameters => {
   try {
-    return sanitizeLLMParameters(params);
+    return sanitizeLLMParameters(params, defaults);
   } catch (error) {
     console.error("Error in sanitizeLLMParameters:", error);
     // Return default parameters if there's an error
-    return { ...DEFAULT_PARAMS };
+    return defaults;
   }
 };
 
@@ -265,54 +286,12 @@ export const lightlySanitizeInput = (input: string): string => {
 };
 
 /**
- * Validate the overall message structure
+ * Validate the overall message structure against the protocol schema
  * @param message - The WebSocket message to validate
  * @returns Whether the message is valid
  */
-export const validateMessageStructure = (
-  message: any
-): { valid: boolean; errorMessage?: string } => {
-  // Validate action
-  if (!message || typeof message.action !== "string") {
-    return {
-      valid: false,
-      errorMessage: "Invalid message format: missing or invalid action",
-    };
-  }
-
-  // For message actions, validate data structure
-  if (message.action === "message") {
-    // Check if data exists
-    if (!message.data) {
-      return {
-        valid: false,
-        errorMessage: "Invalid message format: missing data",
-      };
-    }
-
-    // Validate message content
-    if (message.data.message === undefined) {
-      return {
-        valid: false,
-        errorMessage: "Invalid message format: missing message content",
-      };
-    }
-
-    // Validate parameters if present
-    if (
-      message.data.parameters !== undefined &&
-      (typeof message.data.parameters !== "object" ||
-        Array.isArray(message.data.parameters))
-    ) {
-      return {
-        valid: false,
-        errorMessage: "Invalid message format: parameters must be an object",
-      };
-    }
-  }
-
-  return { valid: true };
-};
+export const validateMessageStructure = (message: any): ValidationResult =>
+  validateInboundMessage(message);
 
 /**
  * Clean assistant response to remove any <think> blocks
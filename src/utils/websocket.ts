@@ -1,9 +1,11 @@
 import {
   ApiGatewayManagementApiClient,
   PostToConnectionCommand,
+  GetConnectionCommand,
   DeleteConnectionCommand,
 } from "@aws-sdk/client-apigatewaymanagementapi";
 import { config } from "../config/config";
+import { cleanupConnection } from "../services/connection-cleanup.service";
 
 /**
  * Get the WebSocket API endpoint based on domain name, API ID, and stage
@@ -65,6 +67,14 @@ export const createApiGatewayClient = (
   });
 };
 
+/**
+ * Whether an error from the Management API means the connection is closed
+ */
+export const isGoneError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === "GoneException" ||
+  (error as { $metadata?: { httpStatusCode?: number } } | null)?.$metadata
+    ?.httpStatusCode === 410;
+
 /**
  * Send message to WebSocket client
  */
@@ -89,16 +99,37 @@ export const sendMessageToClient = async (
       error
     );
 
-    // If the connection is gone, we can delete it
-    if (
-      (error as { name?: string }).name === "GoneException" ||
-      (error as { $metadata?: { httpStatusCode?: number } }).$metadata
-        ?.httpStatusCode === 410
-    ) {
-      console.log(
-        `Connection ${connectionId} is gone, would delete from database here`
+    // The client left without a $disconnect reaching us; forget it now
+    // A failed cleanup must not hide the original error
+    if (isGoneError(error)) {
+      await cleanupConnection(connectionId, "gone").catch((cleanupError) =>
+        console.error(
+          `Error cleaning up gone connection ${connectionId}:`,
+          cleanupError
+        )
       );
-      // Implementation to delete connection from database would go here
+    }
+    throw error;
+  }
+};
+
+/**
+ * Check with the Management API whether a connection is still open
+ */
+export const isConnectionOpen = async (
+  apiGatewayClient: ApiGatewayManagementApiClient,
+  connectionId: string
+): Promise<boolean> => {
+  try {
+    await apiGatewayClient.send(
+      new GetConnectionCommand({
+        ConnectionId: connectionId,
+      })
+    );
+    return true;
+  } catch (error) {
+    if (isGoneError(error)) {
+      return false;
     }
     throw error;
   }
@@ -0,0 +1,74 @@
+import { getConnectionsByUserId } from "../../src/services/connection.service";
+import {
+  broadcastToConnections,
+  broadcastToUser,
+} from "../../src/services/broadcast.service";
+import { createEvent } from "../../src/protocol/events";
+import { config } from "../../src/config/config";
+
+jest.mock("../../src/services/connection.service", () => ({
+  getConnectionsByUserId: jest.fn(),
+  getConnectionsByRoomId: jest.fn(),
+  getAllConnections: jest.fn(),
+}));
+
+describe("Broadcast service", () => {
+  const outbound = createEvent("conversation_deleted", {
+    conversationId: "conv-1",
+    timestamp: 1,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("keeps at most the configured number of sends in flight", async () => {
+    const connectionIds = Array.from({ length: 25 }, (_, i) => `conn-${i}`);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const post = jest.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+    });
+
+    const result = await broadcastToConnections(post, connectionIds, outbound);
+
+    expect(result).toEqual({ sent: 25, gone: [], failed: 0 });
+    expect(post).toHaveBeenCalledTimes(25);
+    expect(maxInFlight).toBe(config.webSocket.broadcastConcurrency);
+  });
+
+  test("reports gone connections apart from other failures", async () => {
+    const post = jest.fn(async (connectionId: string) => {
+      if (connectionId === "gone") {
+        throw Object.assign(new Error("Gone"), { name: "GoneException" });
+      }
+      if (connectionId === "broken") {
+        throw new Error("Throttled");
+      }
+    });
+
+    expect(
+      await broadcastToConnections(post, ["ok", "gone", "broken"], outbound)
+    ).toEqual({ sent: 1, gone: ["gone"], failed: 1 });
+  });
+
+  test("sends to the user's other connections", async () => {
+    jest.mocked(getConnectionsByUserId).mockResolvedValue([
+      { connectionId: "tab-1", timestamp: 1 },
+      { connectionId: "tab-2", timestamp: 1 },
+    ]);
+    const post = jest.fn(async () => undefined);
+
+    await broadcastToUser(post, "user-1", outbound, "tab-1");
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledWith("tab-2", outbound);
+  });
+});
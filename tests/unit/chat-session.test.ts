@@ -0,0 +1,65 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  claimClientMessage,
+  ChatSession,
+} from "../../src/services/chat-session.service";
+import { config } from "../../src/config/config";
+
+describe("Client message ids", () => {
+  const chatSession = (
+    processedMessages?: ChatSession["processedMessages"]
+  ): ChatSession => ({
+    conversationId: "conv-1",
+    userId: "user-1",
+    createdAt: 1,
+    updatedAt: 1,
+    messages: {},
+    processedMessages,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("claims an id once", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({} as never)
+      .mockRejectedValueOnce(
+        Object.assign(new Error("Condition failed"), {
+          name: "ConditionalCheckFailedException",
+        }) as never
+      );
+
+    expect(await claimClientMessage(chatSession({}), "client-1")).toBe(true);
+    expect(await claimClientMessage(chatSession({}), "client-1")).toBe(false);
+    expect((send.mock.calls[0][0] as any).input.ConditionExpression).toContain(
+      "attribute_not_exists(processedMessages.#clientMessageId)"
+    );
+  });
+
+  test("forgets the oldest ids to stay under the limit", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValue({} as never);
+    const processedMessages = Object.fromEntries(
+      Array.from({ length: config.processedMessageIdLimit }, (_, index) => [
+        `client-${index}`,
+        { status: "completed" as const, processedAt: index },
+      ])
+    );
+
+    await claimClientMessage(chatSession(processedMessages), "client-new");
+
+    const { input } = send.mock.calls[0][0] as any;
+    expect(input.UpdateExpression).toContain(
+      "REMOVE processedMessages.#stale0"
+    );
+    expect(input.ExpressionAttributeNames["#stale0"]).toBe("client-0");
+    expect(input.ExpressionAttributeNames).not.toHaveProperty("#stale1");
+  });
+});
@@ -0,0 +1,95 @@
+import { createChunkBatcher } from "../../src/utils/chunk-batcher";
+
+describe("Chunk batcher", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createRecorder = () => {
+    const sent: [string, boolean][] = [];
+    const send = jest.fn(async (text: string, isComplete: boolean) => {
+      sent.push([text, isComplete]);
+    });
+    return { sent, send };
+  };
+
+  test("coalesces chunks until the window passes", async () => {
+    const { sent, send } = createRecorder();
+    const batcher = createChunkBatcher(send, { windowMs: 50, maxBytes: 1024 });
+
+    await batcher.push("Hel");
+    await batcher.push("lo");
+    expect(sent).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(50);
+    await batcher.push(" world");
+    await batcher.flush(true);
+
+    expect(sent).toEqual([
+      ["Hello", false],
+      [" world", true],
+    ]);
+  });
+
+  test("tells send how many chunks each batch holds", async () => {
+    const send = jest.fn(async () => undefined);
+    const batcher = createChunkBatcher(send, { windowMs: 50, maxBytes: 1024 });
+
+    await batcher.push("Hel");
+    await batcher.push("lo");
+    await batcher.flush();
+    await batcher.flush(true);
+
+    expect(send.mock.calls).toEqual([
+      ["Hello", false, 2],
+      ["", true, 0],
+    ]);
+  });
+
+  test("sends as soon as the byte threshold is reached", async () => {
+    const { sent, send } = createRecorder();
+    const batcher = createChunkBatcher(send, { windowMs: 50, maxBytes: 4 });
+
+    await batcher.push("ab");
+    await batcher.push("cd");
+    await batcher.push("e");
+
+    expect(sent).toEqual([["abcd", false]]);
+    batcher.discard();
+    await jest.advanceTimersByTimeAsync(50);
+    expect(sent).toEqual([["abcd", false]]);
+  });
+
+  test("marks completion even with nothing buffered", async () => {
+    const { sent, send } = createRecorder();
+    const batcher = createChunkBatcher(send, { windowMs: 0, maxBytes: 1024 });
+
+    await batcher.push("a");
+    await batcher.flush(true);
+
+    expect(sent).toEqual([
+      ["a", false],
+      ["", true],
+    ]);
+  });
+
+  test("refuses more text after a batch failed to send", async () => {
+    const goneError = new Error("GoneException");
+    const batcher = createChunkBatcher(
+      async () => {
+        throw goneError;
+      },
+      { windowMs: 50, maxBytes: 1024 }
+    );
+
+    await batcher.push("a");
+    await jest.advanceTimersByTimeAsync(50);
+
+    await expect(batcher.push("b")).rejects.toBe(goneError);
+    await expect(batcher.flush(true)).rejects.toBe(goneError);
+  });
+});
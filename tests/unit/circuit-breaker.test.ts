@@ -0,0 +1,116 @@
+import { status } from "@grpc/grpc-js";
+import {
+  getCircuitState,
+  getRetryAfterMs,
+  tryAcquire,
+  recordSuccess,
+  recordFailure,
+} from "../../src/services/circuit-breaker.service";
+import { LLMUnavailableError } from "../../src/services/llm-errors";
+import { grpcProvider } from "../../src/services/providers/grpc.provider";
+import { streamResponse } from "../../src/services/llm.service";
+import { modelRegistry } from "../../src/config/models";
+import { config } from "../../src/config/config";
+import { getDefaultGenerationParameters } from "../../src/utils/generation-parameters";
+
+jest.mock("../../src/services/providers/grpc.provider", () => ({
+  grpcProvider: { stream: jest.fn(), generate: jest.fn() },
+}));
+
+describe("Circuit breaker", () => {
+  const unavailable = () =>
+    Object.assign(new Error("Failed to connect"), {
+      code: status.UNAVAILABLE,
+    });
+  const { failureThreshold, openDurationMs } = config.llm.circuitBreaker;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const tripBreaker = (endpoint: string) => {
+    for (let i = 0; i < failureThreshold; i++) {
+      expect(tryAcquire(endpoint)).toBe(true);
+      recordFailure(endpoint);
+    }
+  };
+
+  test("opens after consecutive failures and lets one trial through later", () => {
+    tripBreaker("a.internal");
+    expect(getCircuitState("a.internal")).toBe("open");
+    expect(tryAcquire("a.internal")).toBe(false);
+    expect(getRetryAfterMs("a.internal")).toBe(openDurationMs);
+
+    now += openDurationMs;
+    expect(tryAcquire("a.internal")).toBe(true);
+    expect(getCircuitState("a.internal")).toBe("half_open");
+    expect(tryAcquire("a.internal")).toBe(false);
+
+    recordSuccess("a.internal");
+    expect(getCircuitState("a.internal")).toBe("closed");
+    expect(tryAcquire("a.internal")).toBe(true);
+  });
+
+  test("reopens when the half-open trial fails", () => {
+    tripBreaker("b.internal");
+    now += openDurationMs;
+    expect(tryAcquire("b.internal")).toBe(true);
+
+    recordFailure("b.internal");
+    expect(getCircuitState("b.internal")).toBe("open");
+    expect(tryAcquire("b.internal")).toBe(false);
+  });
+
+  test("fails over to the fallback endpoint, then fails fast", async () => {
+    const stream = grpcProvider.stream as jest.Mock;
+    stream.mockImplementation(async (request) => {
+      if (request.model.endpoint === "primary.internal") {
+        throw unavailable();
+      }
+      return { cancelled: false };
+    });
+    modelRegistry["failover-test"] = {
+      ...modelRegistry[config.llm.defaultModel],
+      id: "failover-test",
+      endpoint: "primary.internal",
+      fallbackEndpoint: "secondary.internal",
+    };
+
+    const request = {
+      messages: [{ role: "user" as const, content: "Hi" }],
+      model: "failover-test",
+      parameters: getDefaultGenerationParameters(),
+    };
+
+    for (let i = 0; i < failureThreshold; i++) {
+      await expect(
+        streamResponse(request, async () => undefined)
+      ).resolves.toEqual({ cancelled: false });
+    }
+    expect(getCircuitState("primary.internal")).toBe("open");
+
+    // The open primary is skipped without being called
+    stream.mockClear();
+    await streamResponse(request, async () => undefined);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(stream.mock.calls[0][0].model.endpoint).toBe("secondary.internal");
+
+    // With both endpoints down the request fails fast
+    stream.mockRejectedValue(unavailable());
+    for (let i = 0; i < failureThreshold; i++) {
+      await expect(
+        streamResponse(request, async () => undefined)
+      ).rejects.toThrow("Failed to connect");
+    }
+    await expect(
+      streamResponse(request, async () => undefined)
+    ).rejects.toBeInstanceOf(LLMUnavailableError);
+  });
+});
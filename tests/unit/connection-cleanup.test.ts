@@ -0,0 +1,144 @@
+import {
+  getConnection,
+  deleteConnection,
+  getAllConnections,
+  Connection,
+} from "../../src/services/connection.service";
+import { markGenerationStreamDetached } from "../../src/services/generation-stream.service";
+import { removeRoomConnection } from "../../src/services/room.service";
+import { cleanupConnection } from "../../src/services/connection-cleanup.service";
+import { sweepStaleConnections } from "../../src/services/connection-sweeper.service";
+import { sendMessageToClient } from "../../src/utils/websocket";
+
+jest.mock("../../src/services/connection.service", () => ({
+  getConnection: jest.fn(),
+  deleteConnection: jest.fn(),
+  getAllConnections: jest.fn(),
+}));
+
+jest.mock("../../src/services/generation-stream.service", () => ({
+  markGenerationStreamDetached: jest.fn(),
+}));
+
+jest.mock("../../src/services/room.service", () => ({
+  removeRoomConnection: jest.fn(),
+}));
+
+const mockApiSend = jest.fn();
+
+jest.mock("@aws-sdk/client-apigatewaymanagementapi", () => ({
+  ApiGatewayManagementApiClient: jest.fn().mockImplementation(() => ({
+    send: mockApiSend,
+  })),
+  PostToConnectionCommand: jest.fn().mockImplementation((input) => ({ input })),
+  GetConnectionCommand: jest.fn().mockImplementation((input) => ({ input })),
+  DeleteConnectionCommand: jest.fn(),
+}));
+
+describe("Stale connection cleanup", () => {
+  const gone = () =>
+    Object.assign(new Error("Gone"), {
+      name: "GoneException",
+      $metadata: { httpStatusCode: 410 },
+    });
+
+  const connection = (connectionId: string): Connection => ({
+    connectionId,
+    timestamp: 1,
+    domainName: "ws.example.com",
+    stage: "Prod",
+    userId: "user-1",
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("deletes the record and detaches its generation", async () => {
+    jest.mocked(getConnection).mockResolvedValue({
+      ...connection("conn-1"),
+      activeGenerationId: "gen-1",
+    });
+
+    await cleanupConnection("conn-1", "gone");
+
+    expect(deleteConnection).toHaveBeenCalledWith("conn-1");
+    expect(markGenerationStreamDetached).toHaveBeenCalledWith(
+      "gen-1",
+      "conn-1"
+    );
+  });
+
+  test("takes the connection out of its room", async () => {
+    jest.mocked(getConnection).mockResolvedValue({
+      ...connection("conn-1"),
+      roomId: "room-1",
+    });
+
+    await cleanupConnection("conn-1", "disconnect");
+
+    expect(removeRoomConnection).toHaveBeenCalledWith(
+      "room-1",
+      "user-1",
+      "conn-1"
+    );
+  });
+
+  test("cleans up when a message can't be delivered", async () => {
+    jest.mocked(getConnection).mockResolvedValue(connection("conn-1"));
+    mockApiSend.mockRejectedValueOnce(gone());
+    const { ApiGatewayManagementApiClient } = jest.requireMock(
+      "@aws-sdk/client-apigatewaymanagementapi"
+    );
+
+    await expect(
+      sendMessageToClient(new ApiGatewayManagementApiClient(), "conn-1", {})
+    ).rejects.toMatchObject({ name: "GoneException" });
+    expect(deleteConnection).toHaveBeenCalledWith("conn-1");
+    expect(markGenerationStreamDetached).not.toHaveBeenCalled();
+  });
+
+  test("sweeps only the connections that are gone", async () => {
+    jest
+      .mocked(getAllConnections)
+      .mockResolvedValue([connection("open"), connection("zombie")]);
+    jest.mocked(getConnection).mockResolvedValue(connection("zombie"));
+    mockApiSend.mockImplementation(async (command) => {
+      if (command.input.ConnectionId === "zombie") {
+        throw gone();
+      }
+      return {};
+    });
+
+    expect(await sweepStaleConnections()).toEqual({
+      checked: 2,
+      removed: 1,
+      failed: 0,
+    });
+    expect(deleteConnection).toHaveBeenCalledTimes(1);
+    expect(deleteConnection).toHaveBeenCalledWith("zombie");
+  });
+
+  test("removes records that can't be probed", async () => {
+    jest
+      .mocked(getAllConnections)
+      .mockResolvedValue([
+        { connectionId: "orphan", timestamp: 1, conversationId: "conv-1" },
+      ]);
+    jest.mocked(getConnection).mockResolvedValue(null);
+
+    expect(await sweepStaleConnections()).toEqual({
+      checked: 0,
+      removed: 1,
+      failed: 0,
+    });
+    expect(deleteConnection).toHaveBeenCalledWith("orphan");
+    expect(mockApiSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  setActiveGeneration,
+  setConnectionConversation,
+  setConnectionRoom,
+} from "../../src/services/connection.service";
+
+describe("Connection records", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("updates never bring back a connection that is gone", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockRejectedValue(
+        Object.assign(new Error("Condition failed"), {
+          name: "ConditionalCheckFailedException",
+        }) as never
+      );
+
+    await setConnectionConversation("conn-1", "conv-1");
+    await setConnectionConversation("conn-1", null);
+    await setConnectionRoom("conn-1", {
+      roomId: "room-1",
+      conversationId: "conv-1",
+    });
+    await setActiveGeneration("conn-1", "gen-1");
+
+    expect(send).toHaveBeenCalledTimes(4);
+    for (const [command] of send.mock.calls) {
+      expect((command as any).input.ConditionExpression).toBe(
+        "attribute_exists(connectionId)"
+      );
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  getActivePath,
+  getSiblings,
+  findLatestLeaf,
+  getSummaryForPath,
+  ChatMessageNode,
+  ChatSession,
+} from "../../src/services/chat-session.service";
+
+describe("Conversation tree", () => {
+  const node = (
+    id: string,
+    parentId: string | null,
+    role: ChatMessageNode["role"],
+    timestamp: number
+  ): ChatMessageNode => ({
+    id,
+    parentId,
+    role,
+    content: id,
+    timestamp,
+  });
+
+  // u1 -> a1 -> u2 -> a2, with a1b regenerated for u1 and u2b an edit of u2
+  const chatSession: ChatSession = {
+    conversationId: "conversation",
+    userId: "user",
+    connectionId: "connection",
+    createdAt: 0,
+    updatedAt: 0,
+    messages: {
+      u1: node("u1", null, "user", 1),
+      a1: node("a1", "u1", "assistant", 2),
+      u2: node("u2", "a1", "user", 3),
+      a2: node("a2", "u2", "assistant", 4),
+      u2b: node("u2b", "a1", "user", 5),
+      a1b: node("a1b", "u1", "assistant", 6),
+    },
+    activeLeafId: "a2",
+    summary: "Earlier turns",
+    summaryThroughId: "a1",
+    summarizedCount: 2,
+  };
+
+  test("walks the active branch from the root", () => {
+    expect(getActivePath(chatSession).map((message) => message.id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "a2",
+    ]);
+    expect(getActivePath({ ...chatSession, activeLeafId: undefined })).toEqual(
+      []
+    );
+  });
+
+  test("lists alternatives oldest first and follows the latest reply", () => {
+    expect(
+      getSiblings(chatSession, "u2b").map((message) => message.id)
+    ).toEqual(["u2", "u2b"]);
+    expect(findLatestLeaf(chatSession, "u1")).toBe("a1b");
+    expect(findLatestLeaf(chatSession, "u2")).toBe("a2");
+  });
+
+  test("only uses the summary on the branch it was made from", () => {
+    expect(getSummaryForPath(chatSession, getActivePath(chatSession))).toEqual({
+      summary: "Earlier turns",
+      summarizedCount: 2,
+    });
+    expect(
+      getSummaryForPath(chatSession, [
+        chatSession.messages.u1,
+        chatSession.messages.a1b,
+      ])
+    ).toEqual({ summarizedCount: 0 });
+  });
+});
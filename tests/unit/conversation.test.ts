@@ -0,0 +1,145 @@
+import {
+  buildContextWindow,
+  estimateMessageTokens,
+  estimateTokens,
+  toPromptMessages,
+} from "../../src/utils/conversation";
+import { ChatMessage } from "../../src/services/chat-session.service";
+
+describe("Context window", () => {
+  const message = (
+    role: ChatMessage["role"],
+    characters: number,
+    timestamp: number
+  ): ChatMessage => ({
+    role,
+    content: `${timestamp}`.padEnd(characters, "x"),
+    timestamp,
+  });
+
+  // 1000 tokens of context, minus 200 for the answer and 32 of overhead
+  const options = { contextTokens: 1000, maxTokens: 200 };
+
+  test("keeps the whole history when it fits", () => {
+    const history = [
+      message("user", 350, 1),
+      message("assistant", 350, 2),
+      message("user", 350, 3),
+    ];
+
+    const window = buildContextWindow(history, options);
+
+    expect(window.messages).toEqual(history);
+    expect(window).toMatchObject({
+      droppedCount: 0,
+      truncatedCount: 0,
+      estimatedTokens: 312,
+      budgetTokens: 768,
+    });
+  });
+
+  test("truncates the oldest turn that crosses the budget and drops the rest", () => {
+    const history = [
+      message("user", 700, 1),
+      message("assistant", 1400, 2),
+      message("user", 700, 3),
+      message("assistant", 700, 4),
+      message("user", 350, 5),
+    ];
+
+    const window = buildContextWindow(history, options);
+
+    expect(window.messages.slice(1)).toEqual(history.slice(2));
+    expect(window.messages[0].content).toMatch(
+      /^\[earlier content truncated\] x+$/
+    );
+    expect(window).toMatchObject({ droppedCount: 1, truncatedCount: 1 });
+    expect(window.estimatedTokens).toBeLessThanOrEqual(window.budgetTokens);
+  });
+
+  test("drops a turn that would only keep a sliver", () => {
+    const history = [message("assistant", 700, 1), message("user", 2520, 2)];
+
+    const window = buildContextWindow(history, options);
+
+    expect(window.messages).toEqual([history[1]]);
+    expect(window).toMatchObject({ droppedCount: 1, truncatedCount: 0 });
+  });
+
+  test("truncates a latest turn that is over the budget on its own", () => {
+    const history = [message("assistant", 350, 1), message("user", 10000, 2)];
+
+    const window = buildContextWindow(history, options);
+
+    expect(window.messages).toHaveLength(1);
+    expect(window.messages[0].content).toMatch(
+      /^\[earlier content truncated\] x+$/
+    );
+    expect(window).toMatchObject({ droppedCount: 1, truncatedCount: 1 });
+    expect(estimateMessageTokens(window.messages[0])).toBeLessThanOrEqual(
+      window.budgetTokens
+    );
+  });
+
+  test("leaves room for prompt content reserved ahead of the history", () => {
+    const history = [
+      message("user", 350, 1),
+      message("assistant", 350, 2),
+      message("user", 350, 3),
+    ];
+
+    const window = buildContextWindow(history, {
+      ...options,
+      reservedTokens: 600,
+    });
+
+    expect(window.messages[1]).toEqual(history[2]);
+    expect(window).toMatchObject({
+      budgetTokens: 168,
+      droppedCount: 1,
+      truncatedCount: 1,
+    });
+  });
+
+  test("returns an empty window for an empty history", () => {
+    expect(buildContextWindow([], options)).toEqual({
+      messages: [],
+      droppedCount: 0,
+      truncatedCount: 0,
+      estimatedTokens: 0,
+      budgetTokens: 768,
+    });
+  });
+
+  test("counts a room author's label against the budget", () => {
+    const history: ChatMessage[] = [
+      message("assistant", 350, 1),
+      {
+        ...message("user", 2300, 2),
+        userId: "user-2",
+        userEmail: "someone.with.a.long.address@example.com",
+      },
+    ];
+
+    const window = buildContextWindow(history, options);
+
+    // The answer alone would fit next to the unlabelled turn
+    expect(window.truncatedCount).toBe(1);
+    const promptTokens = toPromptMessages(window.messages).reduce(
+      (total, prompt) => total + estimateTokens(prompt.content) + 4,
+      0
+    );
+    expect(promptTokens).toBeLessThanOrEqual(window.budgetTokens);
+  });
+
+  test("keeps no content when the answer takes up the whole context", () => {
+    const window = buildContextWindow([message("user", 350, 1)], {
+      contextTokens: 1000,
+      maxTokens: 1000,
+    });
+
+    expect(window.budgetTokens).toBe(0);
+    expect(window.messages[0].content).toBe("[earlier content truncated] ");
+    expect(window.truncatedCount).toBe(1);
+  });
+});
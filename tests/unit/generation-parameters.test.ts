@@ -0,0 +1,55 @@
+import { sanitizeLLMParameters } from "../../src/utils/sanitization";
+import {
+  getDefaultGenerationParameters,
+  toGrpcParameters,
+} from "../../src/utils/generation-parameters";
+
+describe("Generation parameters", () => {
+  test("honors requested values, including zero temperature", () => {
+    const parameters = sanitizeLLMParameters({
+      temperature: 0,
+      maxTokens: 300,
+      topK: 5,
+      stop: ["\n\n", 42, ""],
+      seed: 7,
+    });
+
+    expect(parameters).toEqual({
+      ...getDefaultGenerationParameters(),
+      temperature: 0,
+      maxTokens: 300,
+      topK: 5,
+      stop: ["\n\n"],
+      seed: 7,
+    });
+  });
+
+  test("clamps values above the limits and ignores unusable ones", () => {
+    const parameters = sanitizeLLMParameters({
+      temperature: 5,
+      maxTokens: 100000,
+      topP: 1.5,
+      presencePenalty: -3,
+      seed: -1,
+    });
+
+    expect(parameters.temperature).toBe(2);
+    expect(parameters.maxTokens).toBe(4096);
+    expect(parameters.topP).toBe(getDefaultGenerationParameters().topP);
+    expect(parameters.presencePenalty).toBe(-2);
+    expect(parameters.seed).toBeUndefined();
+  });
+
+  test("maps to the snake_case fields of llm.proto", () => {
+    const grpcParameters = toGrpcParameters(
+      sanitizeLLMParameters({ maxTokens: 64, repetitionPenalty: 1.1 })
+    );
+
+    expect(grpcParameters).toMatchObject({
+      max_tokens: 64,
+      repetition_penalty: 1.1,
+      stop: [],
+    });
+    expect(grpcParameters).not.toHaveProperty("seed");
+  });
+});
@@ -0,0 +1,134 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  fairOrder,
+  renewBackendSlot,
+  waitForBackendSlot,
+} from "../../src/services/generation-queue.service";
+
+describe("Generation queue", () => {
+  const lease = (userId: string) => ({ userId, expiresAt: Date.now() + 60000 });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("serves waiting users round-robin", () => {
+    const waiting = [
+      { entryId: "a1", userId: "alice", enqueuedAt: 1 },
+      { entryId: "a2", userId: "alice", enqueuedAt: 2 },
+      { entryId: "a3", userId: "alice", enqueuedAt: 3 },
+      { entryId: "b1", userId: "bob", enqueuedAt: 4 },
+      { entryId: "c1", userId: "carol", enqueuedAt: 5 },
+    ];
+
+    // Carol already has a generation running, so her next one waits a round
+    expect(
+      fairOrder(waiting, { carol: 1 }).map((entry) => entry.entryId)
+    ).toEqual(["a1", "b1", "a2", "c1", "a3"]);
+  });
+
+  test("takes a free slot without queueing", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({ Items: [] } as never)
+      .mockResolvedValueOnce({} as never);
+
+    const result = await waitForBackendSlot("gen-1", "alice", "conn-1");
+
+    expect(result).toMatchObject({ acquired: true, initialPosition: 0 });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(
+      (send.mock.calls[1][0] as any).input.ExpressionAttributeValues[":leases"]
+    ).toHaveProperty("gen-1");
+  });
+
+  test("waits behind a busy backend until it is stopped", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockImplementation(async (command: any) =>
+        command.input.KeyConditionExpression
+          ? {
+              Items: [
+                {
+                  queueName: "llm",
+                  entryId: "#slots",
+                  leases: Object.fromEntries(
+                    ["g1", "g2", "g3", "g4"].map((id) => [id, lease("bob")])
+                  ),
+                  revision: 7,
+                },
+              ],
+            }
+          : {}
+      );
+    const abortController = new AbortController();
+    const positions: number[] = [];
+
+    const result = await waitForBackendSlot("gen-1", "alice", "conn-1", {
+      signal: abortController.signal,
+      onPosition: async (position) => {
+        positions.push(position);
+        abortController.abort();
+      },
+    });
+
+    expect(result).toMatchObject({
+      acquired: false,
+      queueDepth: 5,
+      initialPosition: 1,
+    });
+    expect(positions).toEqual([1]);
+    // The entry was added to the queue and removed when the wait ended
+    const commands = send.mock.calls.map(
+      ([command]) => (command as any).constructor.name
+    );
+    expect(commands).toEqual(["QueryCommand", "PutCommand", "DeleteCommand"]);
+  });
+
+  test("gives up once it has waited for the longest allowed", async () => {
+    jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockImplementation(async (command: any) =>
+        command.input.KeyConditionExpression
+          ? {
+              Items: [
+                {
+                  queueName: "llm",
+                  entryId: "#slots",
+                  leases: Object.fromEntries(
+                    ["g1", "g2", "g3", "g4"].map((id) => [id, lease("bob")])
+                  ),
+                  revision: 7,
+                },
+              ],
+            }
+          : {}
+      );
+
+    const result = await waitForBackendSlot("gen-1", "alice", "conn-1", {
+      maxWaitMs: 0,
+    });
+
+    expect(result).toMatchObject({ acquired: false, timedOut: true });
+  });
+
+  test("extends the lease of a running generation", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({} as never)
+      .mockRejectedValueOnce(
+        Object.assign(new Error("Condition failed"), {
+          name: "ConditionalCheckFailedException",
+        }) as never
+      );
+
+    expect(await renewBackendSlot("gen-1", "alice")).toBe(true);
+    // The lease already ran out and the slot went to someone else
+    expect(await renewBackendSlot("gen-1", "alice")).toBe(false);
+    const { input } = send.mock.calls[0][0] as any;
+    expect(input.ExpressionAttributeValues[":lease"]).toMatchObject({
+      userId: "alice",
+      expiresAt: expect.any(Number),
+    });
+  });
+});
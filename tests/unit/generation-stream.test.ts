@@ -0,0 +1,130 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  createGenerationRelay,
+  GenerationStream,
+} from "../../src/services/generation-stream.service";
+import { createEvent } from "../../src/protocol/events";
+import { OutboundEvent } from "../../src/protocol/messages";
+
+describe("Generation relay", () => {
+  let stored: OutboundEvent[];
+
+  beforeEach(() => {
+    stored = [];
+    jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockImplementation(async (command: any) => {
+        stored.push(command.input.Item.event);
+        return {};
+      });
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const chunk = (sequence: number) =>
+    createEvent(
+      "llm_response_chunk",
+      {
+        text: `chunk ${sequence}`,
+        isComplete: false,
+        index: sequence,
+        generationId: "gen-1",
+        timestamp: 1,
+      },
+      "req-1",
+      sequence
+    );
+
+  const createRecorder = (goneConnections: string[] = []) => {
+    const sent: [string, number][] = [];
+    const post = jest.fn(
+      async (connectionId: string, outbound: OutboundEvent) => {
+        if (goneConnections.includes(connectionId)) {
+          throw Object.assign(new Error("Gone"), { name: "GoneException" });
+        }
+        sent.push([connectionId, outbound.sequence]);
+      }
+    );
+    return { sent, post };
+  };
+
+  const resumed = (
+    connectionId: string,
+    resumeCount: number,
+    resumeFromSequence: number
+  ): GenerationStream => ({
+    generationId: "gen-1",
+    userId: "user-1",
+    conversationId: "conv-1",
+    connectionId,
+    status: "streaming",
+    resumeCount,
+    resumeFromSequence,
+    createdAt: 1,
+    ttl: 1,
+  });
+
+  test("keeps storing events after the client is gone", async () => {
+    const { sent, post } = createRecorder(["conn-1"]);
+    const relay = createGenerationRelay("gen-1", "conn-1", post);
+
+    await relay.deliver(chunk(0));
+    await relay.deliver(chunk(1));
+
+    expect(stored.map((outbound) => outbound.sequence)).toEqual([0, 1]);
+    expect(sent).toEqual([]);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(relay.connectionId).toBeNull();
+    expect(relay.detachedAt).not.toBeNull();
+  });
+
+  test("replays missed events to the resuming connection", async () => {
+    const { sent, post } = createRecorder(["conn-1"]);
+    const relay = createGenerationRelay("gen-1", "conn-1", post);
+
+    for (const sequence of [0, 1, 2]) {
+      await relay.deliver(chunk(sequence));
+    }
+    await relay.sync(resumed("conn-2", 1, 1));
+    // The same resume seen again by a later poll is not replayed twice
+    await relay.sync(resumed("conn-2", 1, 1));
+    await relay.deliver(chunk(3));
+
+    expect(sent).toEqual([
+      ["conn-2", 1],
+      ["conn-2", 2],
+      ["conn-2", 3],
+    ]);
+    expect(relay.connectionId).toBe("conn-2");
+    expect(relay.detachedAt).toBeNull();
+  });
+
+  test("stops sending to a connection found gone elsewhere", async () => {
+    const { sent, post } = createRecorder();
+    const relay = createGenerationRelay("gen-1", "conn-1", post);
+
+    await relay.sync({ ...resumed("conn-1", 0, 0), detachedAt: 5 });
+    await relay.deliver(chunk(0));
+
+    expect(sent).toEqual([]);
+    expect(stored).toHaveLength(1);
+    expect(relay.detachedAt).toBe(5);
+  });
+
+  test("fails delivery when the event can't be stored", async () => {
+    const { post } = createRecorder();
+    const relay = createGenerationRelay("gen-1", "conn-1", post);
+    const storageError = new Error("ProvisionedThroughputExceeded");
+    jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockRejectedValueOnce(storageError as never);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(relay.deliver(chunk(0))).rejects.toBe(storageError);
+    expect(post).not.toHaveBeenCalled();
+  });
+});
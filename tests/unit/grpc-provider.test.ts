@@ -0,0 +1,130 @@
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import * as path from "path";
+import { grpcProvider } from "../../src/services/providers/grpc.provider";
+import { ProviderRequest } from "../../src/services/providers/provider";
+import { modelRegistry } from "../../src/config/models";
+import { config } from "../../src/config/config";
+import { getDefaultGenerationParameters } from "../../src/utils/generation-parameters";
+import { LLMUnavailableError } from "../../src/services/llm-errors";
+
+describe("gRPC provider streaming", () => {
+  let server: grpc.Server;
+  // Text chunks the stub service streams for the next call
+  let chunks: string[];
+  // Resolves with whether the stub saw the next call cancelled
+  let callCancelled: Promise<boolean>;
+
+  beforeAll(async () => {
+    const definition = protoLoader.loadSync(
+      path.resolve(__dirname, "../../src/proto/llm.proto"),
+      { keepCase: true }
+    );
+    const { llm } = grpc.loadPackageDefinition(definition) as any;
+
+    server = new grpc.Server();
+    server.addService(llm.LLMService.service, {
+      GenerateStream: (call: grpc.ServerWritableStream<any, any>) => {
+        callCancelled = new Promise((resolve) => {
+          call.on("cancelled", () => resolve(true));
+          call.on("finish", () => resolve(false));
+        });
+
+        const write = (index: number) => {
+          if (call.cancelled) {
+            return;
+          }
+          if (index === chunks.length) {
+            call.write({ text: "", is_complete: true });
+            call.end();
+            return;
+          }
+          call.write({ text: chunks[index], is_complete: false });
+          setTimeout(() => write(index + 1), 5);
+        };
+        write(0);
+      },
+    });
+
+    // Outside Lambda the client connects to port 50051 of the endpoint
+    await new Promise<void>((resolve, reject) =>
+      server.bindAsync(
+        "127.0.0.1:50051",
+        grpc.ServerCredentials.createInsecure(),
+        (error) => (error ? reject(error) : resolve())
+      )
+    );
+  });
+
+  afterAll(() => {
+    server.forceShutdown();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const request: ProviderRequest = {
+    messages: [{ role: "user", content: "Count" }],
+    model: {
+      ...modelRegistry[config.llm.defaultModel],
+      endpoint: "127.0.0.1",
+    },
+    parameters: getDefaultGenerationParameters(),
+  };
+
+  test("delivers chunks one at a time and in order before resolving", async () => {
+    chunks = ["one ", "two ", "three ", "four"];
+    const delivered: string[] = [];
+    let inFlight = 0;
+
+    const result = await grpcProvider.stream(request, async (chunk) => {
+      inFlight++;
+      expect(inFlight).toBe(1);
+      // Slower than the service produces chunks
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      delivered.push(chunk.text);
+      inFlight--;
+    });
+
+    expect(result).toEqual({ cancelled: false });
+    expect(delivered).toEqual(["one ", "two ", "three ", "four", ""]);
+  });
+
+  test("cancels the upstream call when a chunk can't be delivered", async () => {
+    chunks = Array.from({ length: 100 }, (_, index) => `${index} `);
+    const goneError = new Error("GoneException");
+    let calls = 0;
+
+    await expect(
+      grpcProvider.stream(request, async () => {
+        calls++;
+        if (calls === 2) {
+          throw goneError;
+        }
+      })
+    ).rejects.toBe(goneError);
+
+    expect(calls).toBe(2);
+    await expect(callCancelled).resolves.toBe(true);
+  });
+
+  test("gives up on an unreachable endpoint after one short attempt", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const startedAt = Date.now();
+
+    // Nothing listens on this address
+    await expect(
+      grpcProvider.stream(
+        { ...request, model: { ...request.model, endpoint: "127.0.0.2" } },
+        async () => undefined
+      )
+    ).rejects.toBeInstanceOf(LLMUnavailableError);
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,51 @@
+import { status } from "@grpc/grpc-js";
+import {
+  LLMError,
+  LLMOverloadedError,
+  LLMUnavailableError,
+  fromHttpStatus,
+  toLLMError,
+} from "../../src/services/llm-errors";
+
+describe("LLM errors", () => {
+  const grpcError = (code: number) =>
+    Object.assign(new Error(`${code} status`), { code });
+
+  test.each([
+    [status.UNAVAILABLE, "llm_unavailable", true],
+    [status.DEADLINE_EXCEEDED, "llm_timeout", true],
+    [status.RESOURCE_EXHAUSTED, "llm_overloaded", true],
+    [status.INVALID_ARGUMENT, "llm_invalid_request", false],
+    [status.CANCELLED, "llm_cancelled", true],
+    [status.INTERNAL, "llm_internal", false],
+  ])("maps gRPC status %i to %s", (code, errorCode, retryable) => {
+    const error = toLLMError(grpcError(code), "deepseek");
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ errorCode, retryable, modelId: "deepseek" });
+    expect(error.retryAfterMs === undefined).toBe(!retryable);
+  });
+
+  test("classifies network errors and keeps errors already classified", () => {
+    const refused = Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    });
+    expect(toLLMError(refused)).toBeInstanceOf(LLMUnavailableError);
+    expect(toLLMError(new Error("socket hang up")).errorCode).toBe(
+      "llm_internal"
+    );
+
+    const overloaded = new LLMOverloadedError("busy", { retryAfterMs: 2000 });
+    expect(toLLMError(overloaded, "deepseek")).toBe(overloaded);
+    expect(overloaded.modelId).toBe("deepseek");
+    expect(overloaded.retryAfterMs).toBe(2000);
+  });
+
+  test("maps HTTP statuses of OpenAI-compatible APIs", () => {
+    expect(new (fromHttpStatus(429))("").errorCode).toBe("llm_overloaded");
+    expect(new (fromHttpStatus(503))("").errorCode).toBe("llm_unavailable");
+    expect(new (fromHttpStatus(504))("").errorCode).toBe("llm_timeout");
+    expect(new (fromHttpStatus(400))("").errorCode).toBe("llm_invalid_request");
+    expect(new (fromHttpStatus(500))("").errorCode).toBe("llm_internal");
+  });
+});
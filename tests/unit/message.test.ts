@@ -0,0 +1,952 @@
+import {
+  getConnection,
+  setConnectionConversation,
+  setConnectionRoom,
+  isGenerationCancelRequested,
+  requestGenerationCancel,
+} from "../../src/services/connection.service";
+import {
+  addBranchMessageToChatSession,
+  addMessageToChatSession,
+  claimClientMessage,
+  completeClientMessage,
+  createChatSession,
+  deleteChatSession,
+  failClientMessage,
+  getChatSession,
+  getChatSessionsByUserId,
+  releaseClientMessage,
+  updateChatSessionSystemPrompt,
+  setActiveLeaf,
+  ChatMessageNode,
+  ChatSession,
+} from "../../src/services/chat-session.service";
+import { streamResponse } from "../../src/services/llm.service";
+import { waitForBackendSlot } from "../../src/services/generation-queue.service";
+import { consumeMessageTokens } from "../../src/services/rate-limit.service";
+import { recordUsage } from "../../src/services/usage.service";
+import {
+  addRoomMember,
+  claimOrQueueRoomTurn,
+  finishRoomTurn,
+  getRoom,
+  parkRoomQueue,
+  removeRoomConnection,
+} from "../../src/services/room.service";
+import { sendMessageToClient } from "../../src/utils/websocket";
+import { handleMessage } from "../../src/services/message.service";
+import { OutboundEvent } from "../../src/protocol/messages";
+import { config } from "../../src/config/config";
+
+jest.mock("../../src/services/connection.service");
+jest.mock("../../src/services/llm.service", () => ({
+  streamResponse: jest.fn(),
+}));
+jest.mock("../../src/services/generation-queue.service");
+jest.mock("../../src/services/rate-limit.service");
+jest.mock("../../src/services/usage.service");
+jest.mock("../../src/services/summarization.service");
+jest.mock("../../src/services/broadcast.service");
+jest.mock("../../src/services/room.service");
+jest.mock("../../src/services/generation-stream.service", () => ({
+  createGenerationStream: jest.fn(),
+  finishGenerationStream: jest.fn().mockResolvedValue(undefined),
+  getGenerationStream: jest.fn(),
+  createGenerationRelay: jest.fn(
+    (
+      generationId: string,
+      connectionId: string,
+      post: (target: string, outbound: unknown) => Promise<void>
+    ) => ({
+      connectionId,
+      detachedAt: null,
+      deliver: (outbound: unknown) => post(connectionId, outbound),
+      sync: jest.fn(),
+    })
+  ),
+}));
+jest.mock("../../src/services/chat-session.service", () => ({
+  ...jest.requireActual("../../src/services/chat-session.service"),
+  getChatSession: jest.fn(),
+  getChatSessionsByUserId: jest.fn(),
+  createChatSession: jest.fn(),
+  deleteChatSession: jest.fn(),
+  updateChatSessionSystemPrompt: jest.fn(),
+  addMessageToChatSession: jest.fn(),
+  addBranchMessageToChatSession: jest.fn(),
+  setActiveLeaf: jest.fn(),
+  claimClientMessage: jest.fn().mockResolvedValue(true),
+  completeClientMessage: jest.fn(),
+  failClientMessage: jest.fn(),
+  releaseClientMessage: jest.fn(),
+}));
+jest.mock("../../src/utils/websocket", () => ({
+  getWebSocketEndpoint: jest.fn(() => "https://example.com/dev"),
+  createApiGatewayClient: jest.fn(() => ({})),
+  sendMessageToClient: jest.fn(),
+}));
+
+describe("Message service", () => {
+  const node = (
+    id: string,
+    parentId: string | null,
+    role: ChatMessageNode["role"]
+  ): ChatMessageNode => ({ id, parentId, role, content: id, timestamp: 1 });
+
+  // u1 -> a1 -> u2 -> a2
+  const chatSession = (): ChatSession => ({
+    conversationId: "conv-1",
+    userId: "user-1",
+    createdAt: 1,
+    updatedAt: 1,
+    messages: {
+      u1: node("u1", null, "user"),
+      a1: node("a1", "u1", "assistant"),
+      u2: node("u2", "a1", "user"),
+      a2: node("a2", "u2", "assistant"),
+    },
+    activeLeafId: "a2",
+  });
+
+  const sentEvents = () =>
+    jest
+      .mocked(sendMessageToClient)
+      .mock.calls.map(([, , outbound]) => outbound as OutboundEvent);
+
+  const send = (message: unknown) =>
+    handleMessage(message, "conn-1", "example.com", "dev");
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.mocked(getConnection).mockResolvedValue({
+      connectionId: "conn-1",
+      userId: "user-1",
+      conversationId: "conv-1",
+      timestamp: 1,
+    });
+    jest.mocked(getChatSession).mockResolvedValue(chatSession());
+    jest.mocked(waitForBackendSlot).mockResolvedValue({
+      acquired: true,
+      waitedMs: 0,
+      queueDepth: 1,
+      initialPosition: 0,
+      timedOut: false,
+    });
+    jest
+      .mocked(addMessageToChatSession)
+      .mockImplementation(async (conversationId, message, parentId) => ({
+        ...message,
+        id: `${message.role}-new`,
+        parentId,
+      }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  test("regenerate answers the last user turn as a sibling of the old answer", async () => {
+    jest.mocked(streamResponse).mockImplementation(async (request, onChunk) => {
+      await onChunk({ text: "Another answer", isComplete: true });
+      return { cancelled: false };
+    });
+
+    const response = await send({ action: "regenerate", data: {} });
+
+    expect(response).toMatchObject({
+      event: "llm_response_complete",
+      data: { messageId: "assistant-new", parentMessageId: "u2" },
+    });
+    // The old answer was the active leaf until the new one replaced it
+    expect(addMessageToChatSession).toHaveBeenCalledWith(
+      "conv-1",
+      expect.objectContaining({ role: "assistant", content: "Another answer" }),
+      "u2",
+      "a2"
+    );
+    const [request] = jest.mocked(streamResponse).mock.calls[0];
+    expect(request.messages.map((message) => message.content)).toEqual([
+      expect.any(String),
+      "u1",
+      "a1",
+      "u2",
+    ]);
+  });
+
+  test("regenerate leaves the old answer active when the generation fails", async () => {
+    jest
+      .mocked(streamResponse)
+      .mockRejectedValue(new Error("Backend went away"));
+
+    const response = await send({ action: "regenerate", data: {} });
+
+    expect(response.event).toBe("error");
+    expect(setActiveLeaf).not.toHaveBeenCalled();
+    expect(addMessageToChatSession).not.toHaveBeenCalled();
+    expect(addBranchMessageToChatSession).not.toHaveBeenCalled();
+  });
+
+  test("leaves out the oldest turns that don't fit in the model context", async () => {
+    const session = chatSession();
+    session.messages.a1.content = "x".repeat(200000);
+    jest.mocked(getChatSession).mockResolvedValue(session);
+    jest.mocked(streamResponse).mockResolvedValue({ cancelled: false });
+
+    await send({ action: "message", data: { message: "Third question" } });
+
+    const [request] = jest.mocked(streamResponse).mock.calls[0];
+    expect(request.messages.slice(1).map((message) => message.content)).toEqual(
+      [
+        expect.stringMatching(/^\[earlier content truncated\] x+$/),
+        "u2",
+        "a2",
+        "Third question",
+      ]
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "prompt_created",
+        droppedTurns: 1,
+        truncatedTurns: 1,
+      })
+    );
+  });
+
+  test("puts the summary in place of the turns it covers", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(),
+      summary: "The user asked two questions.",
+      summaryThroughId: "a1",
+      summarizedCount: 2,
+    });
+    jest.mocked(streamResponse).mockResolvedValue({ cancelled: false });
+
+    await send({ action: "message", data: { message: "Third question" } });
+
+    const [request] = jest.mocked(streamResponse).mock.calls[0];
+    expect(request.messages.map((message) => message.content)).toEqual([
+      expect.any(String),
+      "Summary of the earlier conversation:\nThe user asked two questions.",
+      "u2",
+      "a2",
+      "Third question",
+    ]);
+  });
+
+  test("keeps the summary out of the history the client is sent", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(),
+      summary: "The user asked two questions.",
+      summaryThroughId: "a1",
+      summarizedCount: 2,
+    });
+
+    const response = await send({
+      action: "resume_conversation",
+      data: { conversationId: "conv-1" },
+    });
+
+    expect(JSON.stringify(response.data)).not.toContain(
+      "The user asked two questions."
+    );
+    expect(
+      (response.data as { history: { content: string }[] }).history.map(
+        (message) => message.content
+      )
+    ).toEqual(["u1", "a1", "u2", "a2"]);
+  });
+
+  test("regenerate answers with the parameters it was sent", async () => {
+    jest.mocked(streamResponse).mockResolvedValue({ cancelled: false });
+
+    await send({
+      action: "regenerate",
+      data: { parameters: { temperature: 0.3 } },
+    });
+
+    const [request] = jest.mocked(streamResponse).mock.calls[0];
+    expect(request.parameters.temperature).toBe(0.3);
+  });
+
+  test("regenerate refuses a conversation without a user turn", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(),
+      messages: {},
+      activeLeafId: undefined,
+    });
+
+    const response = await send({ action: "regenerate", data: {} });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "nothing_to_regenerate" },
+    });
+    expect(streamResponse).not.toHaveBeenCalled();
+  });
+
+  test("regenerate waits for the answer still being generated", async () => {
+    jest.mocked(getConnection).mockResolvedValue({
+      connectionId: "conn-1",
+      userId: "user-1",
+      conversationId: "conv-1",
+      activeGenerationId: "gen-1",
+      timestamp: 1,
+    });
+
+    const response = await send({ action: "regenerate", data: {} });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "generation_in_progress" },
+    });
+    expect(streamResponse).not.toHaveBeenCalled();
+  });
+
+  test("edit_message of the first turn starts a branch from the root", async () => {
+    jest.mocked(streamResponse).mockResolvedValue({ cancelled: false });
+
+    await send({
+      action: "edit_message",
+      data: { messageId: "u1", message: "First question, reworded" },
+    });
+
+    expect(jest.mocked(addMessageToChatSession).mock.calls[0]).toEqual([
+      "conv-1",
+      expect.objectContaining({ content: "First question, reworded" }),
+      null,
+      "a2",
+    ]);
+    const [request] = jest.mocked(streamResponse).mock.calls[0];
+    expect(request.messages.slice(1).map((message) => message.content)).toEqual(
+      ["First question, reworded"]
+    );
+  });
+
+  test("edit_message refuses a message from outside the conversation", async () => {
+    const response = await send({
+      action: "edit_message",
+      data: { messageId: "elsewhere", message: "Reworded" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "invalid_message_id" },
+    });
+    expect(addMessageToChatSession).not.toHaveBeenCalled();
+  });
+
+  test("edit_message adds the new text next to the edited turn", async () => {
+    jest.mocked(streamResponse).mockImplementation(async (request, onChunk) => {
+      await onChunk({ text: "Edited answer", isComplete: true });
+      return { cancelled: false };
+    });
+
+    const response = await send({
+      action: "edit_message",
+      data: { messageId: "u2", message: "Second question, reworded" },
+    });
+
+    expect(response).toMatchObject({
+      event: "llm_response_complete",
+      data: { parentMessageId: "user-new" },
+    });
+    expect(jest.mocked(addMessageToChatSession).mock.calls[0]).toEqual([
+      "conv-1",
+      expect.objectContaining({
+        role: "user",
+        content: "Second question, reworded",
+      }),
+      "a1",
+      "a2",
+    ]);
+    expect(sentEvents().map((outbound) => outbound.event)).toContain(
+      "llm_response_chunk"
+    );
+  });
+
+  test("edit_message refuses to edit an assistant turn", async () => {
+    const response = await send({
+      action: "edit_message",
+      data: { messageId: "a1", message: "Not mine to edit" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "invalid_message_id" },
+    });
+    expect(streamResponse).not.toHaveBeenCalled();
+  });
+
+  test("answers a retried message without charging its rate limits again", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(),
+      processedMessages: {
+        "client-1": {
+          status: "completed",
+          generationId: "gen-1",
+          processedAt: 1,
+        },
+      },
+      messages: {
+        ...chatSession().messages,
+        a2: { ...node("a2", "u2", "assistant"), clientMessageId: "client-1" },
+      },
+    });
+    jest.mocked(claimClientMessage).mockResolvedValueOnce(false);
+
+    const response = await send({
+      action: "message",
+      data: { message: "Second question", clientMessageId: "client-1" },
+    });
+
+    expect(response).toMatchObject({
+      event: "llm_response_complete",
+      data: { replayed: true, messageId: "a2", generationId: "gen-1" },
+    });
+    expect(consumeMessageTokens).not.toHaveBeenCalled();
+    expect(streamResponse).not.toHaveBeenCalled();
+  });
+
+  test("echoes the client message id and records the answer under it", async () => {
+    jest.mocked(streamResponse).mockImplementation(async (request, onChunk) => {
+      await onChunk({ text: "An answer", isComplete: true });
+      return { cancelled: false };
+    });
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question", clientMessageId: "client-2" },
+    });
+
+    expect(response).toMatchObject({
+      event: "llm_response_complete",
+      data: { clientMessageId: "client-2" },
+    });
+    for (const outbound of sentEvents()) {
+      expect(outbound.data).toMatchObject({ clientMessageId: "client-2" });
+    }
+    expect(completeClientMessage).toHaveBeenCalledWith(
+      "conv-1",
+      "client-2",
+      expect.any(String),
+      false
+    );
+    expect(releaseClientMessage).not.toHaveBeenCalled();
+  });
+
+  test("acknowledges a retry while the first run is still answering", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(),
+      processedMessages: {
+        "client-2": { status: "processing", processedAt: 1 },
+      },
+    });
+    jest.mocked(claimClientMessage).mockResolvedValueOnce(false);
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question", clientMessageId: "client-2" },
+    });
+
+    expect(response).toMatchObject({
+      event: "duplicate_message",
+      data: { clientMessageId: "client-2", status: "processing" },
+    });
+    expect(streamResponse).not.toHaveBeenCalled();
+    expect(addMessageToChatSession).not.toHaveBeenCalled();
+  });
+
+  test("forgets the client message id of a failed run so a retry runs again", async () => {
+    jest
+      .mocked(addMessageToChatSession)
+      .mockRejectedValue(new Error("Table went away"));
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question", clientMessageId: "client-2" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { clientMessageId: "client-2" },
+    });
+    expect(releaseClientMessage).toHaveBeenCalledWith("conv-1", "client-2");
+    expect(completeClientMessage).not.toHaveBeenCalled();
+    expect(failClientMessage).not.toHaveBeenCalled();
+  });
+
+  test("a retry from a new connection finds the conversation its first attempt started", async () => {
+    jest.mocked(getConnection).mockResolvedValue({
+      connectionId: "conn-1",
+      userId: "user-1",
+      timestamp: 1,
+    });
+    jest.mocked(createChatSession).mockResolvedValueOnce(chatSession());
+    jest.mocked(streamResponse).mockImplementation(async (request, onChunk) => {
+      await onChunk({ text: "An answer", isComplete: true });
+      return { cancelled: false };
+    });
+    const message = {
+      action: "message",
+      data: { message: "First question", clientMessageId: "client-1" },
+    };
+
+    await send(message);
+    const conversationId = jest.mocked(createChatSession).mock.calls[0][3];
+    expect(conversationId).toEqual(expect.any(String));
+
+    jest.clearAllMocks();
+    jest.mocked(createChatSession).mockRejectedValueOnce(
+      Object.assign(new Error("exists"), {
+        name: "ConditionalCheckFailedException",
+      })
+    );
+    jest.mocked(claimClientMessage).mockResolvedValueOnce(false);
+
+    const response = await send(message);
+
+    expect(createChatSession).toHaveBeenCalledWith(
+      "user-1",
+      "conn-1",
+      undefined,
+      conversationId
+    );
+    expect(setConnectionConversation).toHaveBeenCalledWith("conn-1", "conv-1");
+    expect(response.event).toBe("duplicate_message");
+    expect(addMessageToChatSession).not.toHaveBeenCalled();
+  });
+
+  test("keeps the client message id once its user turn is stored", async () => {
+    jest
+      .mocked(streamResponse)
+      .mockRejectedValue(new Error("Backend went away"));
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question", clientMessageId: "client-2" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { clientMessageId: "client-2" },
+    });
+    expect(failClientMessage).toHaveBeenCalledWith("conv-1", "client-2");
+    expect(releaseClientMessage).not.toHaveBeenCalled();
+  });
+
+  test("stop_generation asks the connection's generation to stop", async () => {
+    jest.mocked(requestGenerationCancel).mockResolvedValue("gen-1");
+
+    const response = await send({ action: "stop_generation" });
+
+    expect(requestGenerationCancel).toHaveBeenCalledWith("conn-1");
+    expect(response).toMatchObject({
+      event: "generation_stop_requested",
+      data: { generationId: "gen-1", stopping: true },
+    });
+  });
+
+  test("a stopped generation ends its stream and keeps the partial answer", async () => {
+    const { cancellationPollIntervalMs } = config.llm;
+    config.llm.cancellationPollIntervalMs = 10;
+    // The stop request is seen by polling, as it comes from another invocation
+    jest.mocked(isGenerationCancelRequested).mockResolvedValue(true);
+    jest
+      .mocked(streamResponse)
+      .mockImplementation(async (request, onChunk, options) => {
+        await onChunk({ text: "Half an answer", isComplete: false });
+        await new Promise((resolve) =>
+          options?.signal?.addEventListener("abort", resolve)
+        );
+        return { cancelled: true };
+      });
+
+    try {
+      const response = await send({
+        action: "message",
+        data: { message: "Third question" },
+      });
+
+      expect(response).toMatchObject({
+        event: "llm_response_complete",
+        data: { message: "Half an answer", cancelled: true },
+      });
+      expect(sentEvents()).toContainEqual(
+        expect.objectContaining({
+          event: "llm_response_chunk",
+          data: expect.objectContaining({ isComplete: true, cancelled: true }),
+        })
+      );
+      expect(addMessageToChatSession).toHaveBeenCalledWith(
+        "conv-1",
+        expect.objectContaining({
+          role: "assistant",
+          content: "Half an answer",
+        }),
+        "user-new",
+        undefined
+      );
+    } finally {
+      config.llm.cancellationPollIntervalMs = cancellationPollIntervalMs;
+    }
+  });
+
+  test("tells the client when the backend stayed busy too long", async () => {
+    jest.mocked(waitForBackendSlot).mockResolvedValue({
+      acquired: false,
+      timedOut: true,
+      waitedMs: 300000,
+      queueDepth: 9,
+      initialPosition: 5,
+    });
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "queue_timeout", retryable: true },
+    });
+    expect(streamResponse).not.toHaveBeenCalled();
+  });
+
+  test("records the tokens of a generation that failed mid-stream", async () => {
+    jest.mocked(streamResponse).mockImplementation(async (request, onChunk) => {
+      await onChunk({ text: "Half an answer", isComplete: false });
+      throw new Error("Backend went away");
+    });
+
+    const response = await send({
+      action: "message",
+      data: { message: "Third question" },
+    });
+
+    expect(response.event).toBe("error");
+    expect(recordUsage).toHaveBeenCalledWith(
+      "user-1",
+      "deepseek",
+      expect.objectContaining({ completionTokens: 4, estimated: true })
+    );
+  });
+
+  test("refuses a message the conversation has no room left for", async () => {
+    const full = chatSession();
+    full.messages.a2.content = "x".repeat(330000);
+    jest.mocked(getChatSession).mockResolvedValue(full);
+
+    const response = await send({
+      action: "message",
+      data: { message: "One more question" },
+    });
+
+    expect(response).toMatchObject({
+      event: "error",
+      data: { code: "conversation_full", conversationId: "conv-1" },
+    });
+    expect(consumeMessageTokens).not.toHaveBeenCalled();
+    expect(addMessageToChatSession).not.toHaveBeenCalled();
+  });
+
+  describe("conversations", () => {
+    test("resume_conversation reattaches a new connection to its history", async () => {
+      jest.mocked(getConnection).mockResolvedValue({
+        connectionId: "conn-1",
+        userId: "user-1",
+        timestamp: 1,
+      });
+
+      const response = await send({
+        action: "resume_conversation",
+        data: { conversationId: "conv-1" },
+      });
+
+      expect(setConnectionConversation).toHaveBeenCalledWith(
+        "conn-1",
+        "conv-1"
+      );
+      expect(response).toMatchObject({
+        event: "conversation_resumed",
+        data: { conversationId: "conv-1" },
+      });
+      expect(
+        (response.data as { history: { content: string }[] }).history.map(
+          (message) => message.content
+        )
+      ).toEqual(["u1", "a1", "u2", "a2"]);
+    });
+
+    test("treats another user's conversation as not found", async () => {
+      jest.mocked(getChatSession).mockResolvedValue({
+        ...chatSession(),
+        userId: "user-2",
+      });
+
+      for (const action of ["resume_conversation", "delete_conversation"]) {
+        const response = await send({
+          action,
+          data: { conversationId: "conv-1" },
+        });
+
+        expect(response).toMatchObject({
+          event: "error",
+          data: { code: "conversation_not_found" },
+        });
+      }
+      expect(setConnectionConversation).not.toHaveBeenCalled();
+      expect(deleteChatSession).not.toHaveBeenCalled();
+    });
+
+    test("list_conversations lists the user's conversations", async () => {
+      jest
+        .mocked(getChatSessionsByUserId)
+        .mockResolvedValue([
+          chatSession(),
+          { ...chatSession(), conversationId: "conv-2", title: "Older" },
+        ]);
+
+      const response = await send({ action: "list_conversations" });
+
+      expect(getChatSessionsByUserId).toHaveBeenCalledWith("user-1");
+      expect(response).toMatchObject({
+        event: "conversation_list",
+        data: {
+          conversations: [
+            { conversationId: "conv-1", messageCount: 4, isActive: true },
+            { conversationId: "conv-2", title: "Older", isActive: false },
+          ],
+        },
+      });
+    });
+
+    test("delete_conversation detaches the connection it was open on", async () => {
+      const response = await send({
+        action: "delete_conversation",
+        data: { conversationId: "conv-1" },
+      });
+
+      expect(response.event).toBe("conversation_deleted");
+      expect(deleteChatSession).toHaveBeenCalledWith("conv-1");
+      expect(setConnectionConversation).toHaveBeenCalledWith("conn-1", null);
+    });
+  });
+
+  describe("system prompts", () => {
+    test("set_system_prompt attaches a preset to the conversation", async () => {
+      const response = await send({
+        action: "set_system_prompt",
+        data: { presetId: "sql-helper" },
+      });
+
+      expect(updateChatSessionSystemPrompt).toHaveBeenCalledWith(
+        "conv-1",
+        expect.stringContaining("SQL"),
+        "sql-helper"
+      );
+      expect(response).toMatchObject({
+        event: "system_prompt_updated",
+        data: { conversationId: "conv-1", presetId: "sql-helper" },
+      });
+    });
+
+    test("set_system_prompt refuses an unknown preset", async () => {
+      const response = await send({
+        action: "set_system_prompt",
+        data: { presetId: "pirate" },
+      });
+
+      expect(response).toMatchObject({
+        event: "error",
+        data: { code: "unknown_preset" },
+      });
+      expect(updateChatSessionSystemPrompt).not.toHaveBeenCalled();
+    });
+
+    test("the conversation's prompt opens the request to the model", async () => {
+      jest.mocked(getChatSession).mockResolvedValue({
+        ...chatSession(),
+        systemPrompt: "Answer like a pirate.",
+      });
+      jest
+        .mocked(streamResponse)
+        .mockImplementation(async (request, onChunk) => {
+          await onChunk({ text: "Arr", isComplete: true });
+          return { cancelled: false };
+        });
+
+      await send({ action: "message", data: { message: "Third question" } });
+
+      const [request] = jest.mocked(streamResponse).mock.calls[0];
+      expect(request.messages[0]).toEqual({
+        role: "system",
+        content: "Answer like a pirate.",
+      });
+    });
+  });
+
+  describe("in a room", () => {
+    beforeEach(() => {
+      jest.mocked(getConnection).mockResolvedValue({
+        connectionId: "conn-1",
+        userId: "user-2",
+        conversationId: "conv-1",
+        roomId: "room-1",
+        timestamp: 1,
+      });
+      jest.mocked(getChatSession).mockResolvedValue({
+        ...chatSession(),
+        roomId: "room-1",
+      });
+      jest.mocked(getRoom).mockResolvedValue({
+        roomId: "room-1",
+        name: "Planning",
+        createdBy: "user-1",
+        conversationId: "conv-1",
+        members: {
+          "user-1": { userId: "user-1", joinedAt: 1 },
+          "user-2": { userId: "user-2", joinedAt: 2 },
+        },
+        queue: [],
+        queueVersion: 0,
+        createdAt: 1,
+        updatedAt: 1,
+        ttl: 1,
+      });
+    });
+
+    test("lets a member who didn't create the room read its branches", async () => {
+      const response = await send({
+        action: "list_siblings",
+        data: { messageId: "a2" },
+      });
+
+      expect(response).toMatchObject({
+        event: "sibling_list",
+        data: { messageId: "a2" },
+      });
+    });
+
+    test("refuses to rewrite the room's conversation outside its turns", async () => {
+      const response = await send({ action: "regenerate", data: {} });
+
+      expect(response).toMatchObject({
+        event: "error",
+        data: { code: "not_available_in_room" },
+      });
+      expect(streamResponse).not.toHaveBeenCalled();
+    });
+
+    test("tells the senders of a queue it leaves waiting", async () => {
+      jest.mocked(claimOrQueueRoomTurn).mockResolvedValue({
+        turn: null,
+        position: null,
+        full: false,
+      });
+      jest.mocked(parkRoomQueue).mockResolvedValue([
+        {
+          turnId: "turn-3",
+          message: "Next question",
+          userId: "user-1",
+          userGroups: [],
+          sender: "Anonymous",
+          connectionId: "conn-3",
+          requestId: "req-3",
+          nextSequence: 2,
+          clientMessageId: "client-3",
+          model: "deepseek-r1",
+          parameters: {},
+          hideReasoning: false,
+          queuedAt: 1,
+        },
+      ]);
+      jest
+        .mocked(streamResponse)
+        .mockImplementation(async (request, onChunk) => {
+          await onChunk({ text: "An answer", isComplete: true });
+          return { cancelled: false };
+        });
+
+      await handleMessage(
+        { action: "message", data: { message: "A question" } },
+        "conn-1",
+        "example.com",
+        "dev",
+        undefined,
+        undefined,
+        () => 1000
+      );
+
+      expect(finishRoomTurn).not.toHaveBeenCalled();
+      expect(sendMessageToClient).toHaveBeenCalledWith(
+        expect.anything(),
+        "conn-3",
+        expect.objectContaining({
+          event: "message_queued",
+          requestId: "req-3",
+          sequence: 2,
+          data: expect.objectContaining({
+            position: 1,
+            clientMessageId: "client-3",
+            paused: true,
+          }),
+        })
+      );
+    });
+
+    test("refuses /clear in a room", async () => {
+      const response = await send({
+        action: "message",
+        data: { message: "/clear" },
+      });
+
+      expect(response).toMatchObject({
+        event: "error",
+        data: { code: "not_available_in_room" },
+      });
+      expect(claimOrQueueRoomTurn).not.toHaveBeenCalled();
+    });
+
+    test("keeps the room's conversation out of the member's own", async () => {
+      const response = await send({
+        action: "delete_conversation",
+        data: { conversationId: "conv-1" },
+      });
+
+      expect(response).toMatchObject({
+        event: "error",
+        data: { code: "conversation_not_found" },
+      });
+    });
+
+    test("doesn't join a room whose conversation is gone", async () => {
+      jest.mocked(getChatSession).mockResolvedValue(null);
+
+      const response = await send({
+        action: "join_room",
+        data: { roomId: "room-1" },
+      });
+
+      expect(response).toMatchObject({
+        event: "error",
+        data: { code: "room_not_found" },
+      });
+      expect(addRoomMember).not.toHaveBeenCalled();
+    });
+
+    test("leave_room detaches the connection from the room", async () => {
+      const response = await send({ action: "leave_room" });
+
+      expect(response.event).toBe("room_left");
+      expect(removeRoomConnection).toHaveBeenCalledWith(
+        "room-1",
+        "user-2",
+        "conn-1"
+      );
+      expect(setConnectionRoom).toHaveBeenCalledWith("conn-1", null);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+describe("Model registry", () => {
+  const loadRegistry = (models: unknown) => {
+    process.env.LLM_MODELS = JSON.stringify(models);
+    let registry: typeof import("../../src/config/models") | undefined;
+    jest.isolateModules(() => {
+      registry = require("../../src/config/models");
+    });
+    delete process.env.LLM_MODELS;
+    return registry!;
+  };
+
+  test("adds admin models and skips ones without an endpoint", () => {
+    const { getModel, getDefaultModel, getModelDefaultParameters } =
+      loadRegistry({
+        "qwen-coder": {
+          name: "Qwen Coder",
+          endpoint: "qwen.internal",
+          promptTemplate: "chatml",
+          defaultParameters: { temperature: 0.2 },
+        },
+        broken: { name: "No endpoint" },
+        "just-a-name": "qwen.internal",
+        deepseek: null,
+      });
+
+    expect(getModel("qwen-coder")).toMatchObject({
+      name: "Qwen Coder",
+      endpoint: "qwen.internal",
+      promptTemplate: "chatml",
+      allowedGroups: [],
+    });
+    expect(getModel("broken")).toBeNull();
+    expect(getModel("just-a-name")).toBeNull();
+    expect(getModel("toString")).toBeNull();
+    expect(getDefaultModel().id).toBe("deepseek");
+    expect(getDefaultModel().name).toBe("DeepSeek");
+    expect(getModelDefaultParameters(getModel("qwen-coder")!).temperature).toBe(
+      0.2
+    );
+  });
+
+  test("reads the provider and skips unknown ones", () => {
+    const { getModel } = loadRegistry({
+      "local-llama": {
+        provider: "openai",
+        endpoint: "http://vllm.internal:8000/v1",
+        upstreamModel: "llama-3-8b-instruct",
+        apiKey: "secret",
+      },
+      "qwen-coder": { endpoint: "qwen.internal" },
+      "bad-provider": { provider: "carrier-pigeon", endpoint: "coop" },
+    });
+
+    expect(getModel("local-llama")).toMatchObject({
+      provider: "openai",
+      upstreamModel: "llama-3-8b-instruct",
+      apiKey: "secret",
+    });
+    expect(getModel("qwen-coder")).toMatchObject({
+      provider: "grpc",
+      upstreamModel: "qwen-coder",
+    });
+    expect(getModel("bad-provider")).toBeNull();
+  });
+
+  test("only lists models the user's groups may use", () => {
+    const { getModelsForUser } = loadRegistry({
+      internal: { endpoint: "internal.llm", allowedGroups: ["staff"] },
+    });
+
+    expect(getModelsForUser([]).map((model) => model.id)).toEqual(["deepseek"]);
+    expect(getModelsForUser(["staff"]).map((model) => model.id)).toEqual([
+      "deepseek",
+      "internal",
+    ]);
+  });
+
+  test("clamps admin default parameters and skips unusable ones", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { getModel, getModelDefaultParameters } = loadRegistry({
+      "qwen-coder": {
+        endpoint: "qwen.internal",
+        defaultParameters: {
+          temperature: 9,
+          maxTokens: -1,
+          stop: "</s>",
+          topK: 20,
+          beamWidth: 4,
+        },
+      },
+    });
+
+    const model = getModel("qwen-coder")!;
+    expect(model.defaultParameters).toEqual({ temperature: 2, topK: 20 });
+    expect(getModelDefaultParameters(model).stop).toEqual([]);
+    jest.restoreAllMocks();
+  });
+});
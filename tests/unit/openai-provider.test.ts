@@ -0,0 +1,154 @@
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  openAIProvider,
+  readServerSentEvents,
+} from "../../src/services/providers/openai.provider";
+import { ProviderRequest } from "../../src/services/providers/provider";
+import { ModelDefinition } from "../../src/config/models";
+import { getDefaultGenerationParameters } from "../../src/utils/generation-parameters";
+
+describe("OpenAI-compatible provider", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: { headers: http.IncomingHttpHeaders; body: any };
+  let reply: (res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        lastRequest = { headers: req.headers, body: JSON.parse(body) };
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const buildRequest = (): ProviderRequest => {
+    const model: ModelDefinition = {
+      id: "local-llama",
+      name: "Local Llama",
+      provider: "openai",
+      endpoint: `${baseUrl}/`,
+      upstreamModel: "llama-3-8b-instruct",
+      apiKey: "secret",
+      contextWindowTokens: 8192,
+      promptTemplate: "chatml",
+      defaultParameters: {},
+      allowedGroups: [],
+    };
+
+    return {
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+      model,
+      parameters: { ...getDefaultGenerationParameters(), temperature: 0 },
+    };
+  };
+
+  const sseEvent = (data: unknown) =>
+    `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+
+  test("streams content deltas and ends with a complete chunk", async () => {
+    reply = (res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(sseEvent({ choices: [{ delta: { role: "assistant" } }] }));
+      res.write(sseEvent({ choices: [{ delta: { content: "Hel" } }] }));
+      res.write(sseEvent({ choices: [{ delta: { content: "lo" } }] }));
+      res.write(
+        sseEvent({
+          choices: [],
+          usage: { prompt_tokens: 12, completion_tokens: 2 },
+        })
+      );
+      res.end(sseEvent("[DONE]"));
+    };
+
+    const chunks: { text: string; isComplete: boolean }[] = [];
+    const result = await openAIProvider.stream(
+      buildRequest(),
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(result).toEqual({ cancelled: false });
+    expect(chunks).toEqual([
+      { text: "Hel", isComplete: false },
+      { text: "lo", isComplete: false },
+      {
+        text: "",
+        isComplete: true,
+        usage: { promptTokens: 12, completionTokens: 2 },
+      },
+    ]);
+    expect(lastRequest.headers.authorization).toBe("Bearer secret");
+    expect(lastRequest.body).toMatchObject({
+      model: "llama-3-8b-instruct",
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: 0,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+    expect(lastRequest.body.max_tokens).toBe(
+      getDefaultGenerationParameters().maxTokens
+    );
+  });
+
+  test("generates a full response", async () => {
+    reply = (res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          choices: [{ message: { content: "A summary" } }],
+          usage: { prompt_tokens: 40, completion_tokens: 3 },
+        })
+      );
+    };
+
+    await expect(openAIProvider.generate(buildRequest())).resolves.toEqual({
+      text: "A summary",
+      isComplete: true,
+      usage: { promptTokens: 40, completionTokens: 3 },
+    });
+    expect(lastRequest.body.stream).toBe(false);
+  });
+
+  test("rejects with the status and body of a failed request", async () => {
+    reply = (res) => {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "model is loading" } }));
+    };
+
+    await expect(
+      openAIProvider.stream(buildRequest(), async () => undefined)
+    ).rejects.toThrow(/status 503.*model is loading/);
+  });
+
+  test("parses events split across network chunks", async () => {
+    async function* body() {
+      yield 'data: {"a"';
+      yield ":1}\r\n\r\ndata: line one\ndata: line two\n\n: comment\n\n";
+      yield "data: last";
+    }
+
+    const events: string[] = [];
+    for await (const data of readServerSentEvents(body())) {
+      events.push(data);
+    }
+
+    expect(events).toEqual(['{"a":1}', "line one\nline two", "last"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { validateInboundMessage } from "../../src/protocol/validation";
+import { createEvent, resolveRequestId } from "../../src/protocol/events";
+import { PROTOCOL_VERSION } from "../../src/protocol/messages";
+
+describe("Message protocol", () => {
+  test("accepts well-formed requests", () => {
+    expect(
+      validateInboundMessage({
+        action: "message",
+        requestId: "req-1",
+        data: { message: "Hello", parameters: { temperature: 0.2 } },
+      })
+    ).toEqual({ valid: true });
+    expect(validateInboundMessage({ action: "stop_generation" })).toEqual({
+      valid: true,
+    });
+  });
+
+  test("names the field at fault", () => {
+    expect(
+      validateInboundMessage({ action: "message", data: {} }).errorMessage
+    ).toBe("Invalid message format: data.message is required");
+    expect(
+      validateInboundMessage({
+        action: "resume_conversation",
+        data: { conversationId: 42 },
+      }).errorMessage
+    ).toBe("Invalid message format: data.conversationId must be string");
+    expect(
+      validateInboundMessage({
+        action: "delete_conversation",
+        data: { conversationId: "abc", force: true },
+      }).errorMessage
+    ).toBe("Invalid message format: data.force is not allowed");
+  });
+
+  test("rejects unknown actions and newer protocol versions", () => {
+    expect(validateInboundMessage({ action: "nope" }).valid).toBe(false);
+    expect(validateInboundMessage({ action: "message" }).valid).toBe(false);
+    expect(
+      validateInboundMessage({
+        action: "list_conversations",
+        version: PROTOCOL_VERSION + 1,
+      }).valid
+    ).toBe(false);
+    expect(validateInboundMessage("message").valid).toBe(false);
+  });
+
+  test("wraps events in the versioned envelope", () => {
+    expect(
+      createEvent(
+        "conversation_deleted",
+        { conversationId: "abc", timestamp: 1 },
+        "req-1",
+        2
+      )
+    ).toEqual({
+      version: PROTOCOL_VERSION,
+      event: "conversation_deleted",
+      requestId: "req-1",
+      sequence: 2,
+      data: { conversationId: "abc", timestamp: 1 },
+    });
+  });
+
+  test("echoes client request ids and generates missing ones", () => {
+    expect(resolveRequestId({ requestId: "req-1" })).toBe("req-1");
+    expect(resolveRequestId({ requestId: 7 })).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveRequestId(null)).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,125 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  consumeMessageTokens,
+  acquireGenerationSlot,
+} from "../../src/services/rate-limit.service";
+import { RateLimits } from "../../src/config/rate-limits";
+
+describe("Rate limits", () => {
+  const limits: RateLimits = {
+    messagesPerMinute: 6,
+    concurrentGenerations: 1,
+    promptCharactersPerHour: 3600,
+    dailyTokens: 0,
+    monthlyTokens: 0,
+  };
+
+  // One user's item, updated the way DynamoDB would apply the SET expression
+  let stored: Record<string, any> | undefined;
+  let send: jest.SpyInstance;
+
+  beforeEach(() => {
+    stored = undefined;
+    send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockImplementation(async (command: any) => {
+        const input = command.input;
+        if (!input.UpdateExpression) {
+          return { Item: stored };
+        }
+        stored = {
+          ...stored,
+          revision: input.ExpressionAttributeValues[":revision"],
+        };
+        for (const [name, value] of Object.entries<any>(
+          input.ExpressionAttributeValues
+        )) {
+          if (!["revision", "readRevision", "ttl"].includes(name.slice(1))) {
+            stored[name.slice(1)] = value;
+          }
+        }
+        return {};
+      });
+    jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("refuses messages once the bucket is empty, until it refills", async () => {
+    for (let i = 0; i < 6; i++) {
+      expect(await consumeMessageTokens("user-1", limits, 10)).toBeNull();
+    }
+
+    expect(await consumeMessageTokens("user-1", limits, 10)).toEqual({
+      limit: "messages_per_minute",
+      retryAfterMs: 10000,
+    });
+
+    jest.spyOn(Date, "now").mockReturnValue(1_010_000);
+    expect(await consumeMessageTokens("user-1", limits, 10)).toBeNull();
+  });
+
+  test("counts prompt characters over the hour", async () => {
+    expect(await consumeMessageTokens("user-1", limits, 3000)).toBeNull();
+
+    expect(await consumeMessageTokens("user-1", limits, 1000)).toEqual({
+      limit: "prompt_characters_per_hour",
+      retryAfterMs: 400000,
+    });
+    // The refused message cost nothing
+    expect(stored?.messageTokens).toBe(5);
+  });
+
+  test("takes a generation slot after losing a race for it", async () => {
+    const conflict = Object.assign(new Error("Condition failed"), {
+      name: "ConditionalCheckFailedException",
+    });
+    // Another invocation writes the item between our read and our write
+    send
+      .mockImplementationOnce(async () => ({ Item: undefined }))
+      .mockRejectedValueOnce(conflict as never);
+
+    expect(await acquireGenerationSlot("user-1", limits, "lease-1")).toBeNull();
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(Object.keys(stored?.leases)).toEqual(["lease-1"]);
+
+    expect(await acquireGenerationSlot("user-1", limits, "lease-2")).toEqual({
+      limit: "concurrent_generations",
+      retryAfterMs: 5000,
+    });
+  });
+});
+
+describe("Rate limits per group", () => {
+  const loadRateLimits = (groups: unknown) => {
+    process.env.RATE_LIMITS = JSON.stringify(groups);
+    let rateLimits: typeof import("../../src/config/rate-limits") | undefined;
+    jest.isolateModules(() => {
+      rateLimits = require("../../src/config/rate-limits");
+    });
+    delete process.env.RATE_LIMITS;
+    return rateLimits!;
+  };
+
+  test("gives the most generous limit of the user's groups", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const { getRateLimits } = loadRateLimits({
+      premium: { messagesPerMinute: 60, concurrentGenerations: 3 },
+      staff: { messagesPerMinute: 30, promptCharactersPerHour: 0 },
+      broken: { messagesPerMinute: "lots" },
+      unlimited: true,
+    });
+
+    expect(getRateLimits(["premium", "staff"])).toEqual({
+      messagesPerMinute: 60,
+      concurrentGenerations: 3,
+      promptCharactersPerHour: 0,
+      dailyTokens: 0,
+      monthlyTokens: 0,
+    });
+    expect(getRateLimits(["broken"])).toEqual(getRateLimits([]));
+    expect(getRateLimits(["unlimited"])).toEqual(getRateLimits([]));
+  });
+});
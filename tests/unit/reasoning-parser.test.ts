@@ -0,0 +1,59 @@
+import {
+  createReasoningParser,
+  ReasoningSegment,
+} from "../../src/utils/reasoning-parser";
+
+describe("Reasoning parser", () => {
+  const parse = (chunks: string[]): ReasoningSegment[] => {
+    const parser = createReasoningParser();
+    return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.end()];
+  };
+
+  // Join consecutive segments of the same type to compare the outcome
+  const merge = (segments: ReasoningSegment[]) =>
+    segments.reduce<{ type: string; text: string }[]>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last?.type === segment.type) {
+        last.text += segment.text;
+      } else {
+        merged.push({ type: segment.type, text: segment.text });
+      }
+      return merged;
+    }, []);
+
+  test("separates reasoning from the answer", () => {
+    const segments = parse(["<think>Check units.</think>It is 5 km."]);
+
+    expect(segments).toEqual([
+      { type: "reasoning", text: "Check units.", reasoningComplete: true },
+      { type: "answer", text: "It is 5 km." },
+    ]);
+  });
+
+  test("handles tags split across chunks", () => {
+    const segments = parse(["<th", "ink>Hmm", "m.</thi", "nk>", "Yes <", "b>"]);
+
+    expect(merge(segments)).toEqual([
+      { type: "reasoning", text: "Hmmm." },
+      { type: "answer", text: "Yes <b>" },
+    ]);
+    expect(
+      segments.filter((segment) => segment.reasoningComplete)
+    ).toHaveLength(1);
+  });
+
+  test("holds back only what could still be a tag", () => {
+    const parser = createReasoningParser();
+
+    expect(parser.push("a < b <t")).toEqual([
+      { type: "answer", text: "a < b " },
+    ]);
+    expect(parser.push("able>")).toEqual([{ type: "answer", text: "<table>" }]);
+  });
+
+  test("returns unterminated reasoning at the end", () => {
+    expect(parse(["<think>Still thinking"])).toEqual([
+      { type: "reasoning", text: "Still thinking" },
+    ]);
+  });
+});
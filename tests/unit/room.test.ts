@@ -0,0 +1,246 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  claimOrQueueRoomTurn,
+  finishRoomTurn,
+  parkRoomQueue,
+  removeRoomConnection,
+  resumeRoomQueue,
+  QueuedRoomMessage,
+  Room,
+} from "../../src/services/room.service";
+import { toPromptMessages } from "../../src/utils/conversation";
+
+describe("Shared rooms", () => {
+  const conditionFailed = () =>
+    Object.assign(new Error("Condition failed"), {
+      name: "ConditionalCheckFailedException",
+    });
+
+  const queued = (turnId: string): QueuedRoomMessage => ({
+    turnId,
+    message: "Hello",
+    userId: "user-1",
+    userGroups: [],
+    sender: "Anonymous",
+    connectionId: "conn-1",
+    nextSequence: 2,
+    model: "deepseek-r1",
+    parameters: {},
+    hideReasoning: false,
+    queuedAt: 1,
+  });
+
+  const room = (overrides: Partial<Room>): Room => ({
+    roomId: "room-1",
+    name: "Room",
+    createdBy: "user-1",
+    conversationId: "conv-1",
+    members: {},
+    queue: [],
+    queueVersion: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    ttl: 1,
+    ...overrides,
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("starts a turn in an idle room", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({ Item: room({}) } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await claimOrQueueRoomTurn("room-1", queued("turn-1"))).toEqual({
+      turn: queued("turn-1"),
+      position: null,
+      full: false,
+    });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test("queues a message behind the running turn", async () => {
+    jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({ activeTurnId: "turn-1", activeTurnStartedAt: Date.now() }),
+      } as never)
+      .mockResolvedValueOnce({
+        Attributes: room({
+          activeTurnId: "turn-1",
+          queue: [queued("turn-2"), queued("turn-3")],
+        }),
+      } as never);
+
+    expect(await claimOrQueueRoomTurn("room-1", queued("turn-3"))).toEqual({
+      turn: null,
+      position: 2,
+      full: false,
+    });
+  });
+
+  test("refuses a message the queue has no room for", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({
+          activeTurnId: "turn-1",
+          activeTurnStartedAt: Date.now(),
+          queue: [{ ...queued("turn-2"), message: "x".repeat(200000) }],
+        }),
+      } as never);
+
+    expect(
+      await claimOrQueueRoomTurn("room-1", {
+        ...queued("turn-3"),
+        message: "x".repeat(200000),
+      })
+    ).toEqual({ turn: null, position: null, full: true });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  test("still runs the messages left waiting when the caller's doesn't fit", async () => {
+    const waiting = Array.from({ length: 20 }, (_, index) =>
+      queued(`turn-${index + 2}`)
+    );
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({ queue: waiting, queueVersion: 20 }),
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(
+      await claimOrQueueRoomTurn("room-1", {
+        ...queued("turn-99"),
+        message: "x".repeat(400000),
+      })
+    ).toEqual({ turn: queued("turn-2"), position: null, full: true });
+    const { ExpressionAttributeValues } = (send.mock.calls[1][0] as any).input;
+    expect(ExpressionAttributeValues[":rest"]).toEqual(waiting.slice(1));
+  });
+
+  test("answers the messages left waiting in an idle room first", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({ queue: [queued("turn-2")], queueVersion: 1 }),
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await claimOrQueueRoomTurn("room-1", queued("turn-3"))).toEqual({
+      turn: queued("turn-2"),
+      position: 1,
+      full: false,
+    });
+    const { ExpressionAttributeValues } = (send.mock.calls[1][0] as any).input;
+    expect(ExpressionAttributeValues).toMatchObject({
+      ":turnId": "turn-2",
+      ":rest": [queued("turn-3")],
+      ":queueVersion": 1,
+    });
+  });
+
+  test("reads the queue again when a message arrives while finishing", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({ activeTurnId: "turn-1" }),
+      } as never)
+      .mockRejectedValueOnce(conditionFailed() as never)
+      .mockResolvedValueOnce({
+        Item: room({
+          activeTurnId: "turn-1",
+          queue: [queued("turn-2")],
+          queueVersion: 1,
+        }),
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await finishRoomTurn("room-1", "turn-1")).toMatchObject({
+      turnId: "turn-2",
+    });
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  test("leaves the queue waiting past the event that tells its senders", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({
+          activeTurnId: "turn-1",
+          queue: [queued("turn-2")],
+          queueVersion: 1,
+        }),
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await parkRoomQueue("room-1", "turn-1")).toEqual([queued("turn-2")]);
+    const { input } = send.mock.calls[1][0] as any;
+    expect(input.UpdateExpression).toBe(
+      "SET #queue = :parked REMOVE activeTurnId, activeTurnStartedAt"
+    );
+    expect(input.ExpressionAttributeValues[":parked"]).toEqual([
+      { ...queued("turn-2"), nextSequence: 3 },
+    ]);
+  });
+
+  test("takes up a waiting queue only in an idle room", async () => {
+    jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Item: room({
+          activeTurnId: "turn-1",
+          activeTurnStartedAt: Date.now(),
+          queue: [queued("turn-2")],
+        }),
+      } as never)
+      .mockResolvedValueOnce({
+        Item: room({ queue: [queued("turn-2")], queueVersion: 1 }),
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await resumeRoomQueue("room-1")).toBeNull();
+    expect(await resumeRoomQueue("room-1")).toEqual(queued("turn-2"));
+  });
+
+  test("keeps a member while another of their tabs is in the room", async () => {
+    const send = jest
+      .spyOn(DynamoDBDocumentClient.prototype, "send")
+      .mockResolvedValueOnce({
+        Items: [
+          { connectionId: "conn-1", userId: "user-1", timestamp: 1 },
+          { connectionId: "conn-2", userId: "user-1", timestamp: 1 },
+        ],
+      } as never)
+      .mockResolvedValueOnce({
+        Items: [{ connectionId: "conn-2", userId: "user-1", timestamp: 1 }],
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await removeRoomConnection("room-1", "user-1", "conn-1")).toBe(true);
+    expect(await removeRoomConnection("room-1", "user-1", "conn-2")).toBe(
+      false
+    );
+    expect((send.mock.calls[2][0] as any).input.UpdateExpression).toContain(
+      "REMOVE members.#userId"
+    );
+  });
+
+  test("tells the model who wrote each room message", () => {
+    const [prompt] = toPromptMessages([
+      {
+        role: "user",
+        content: "Ship it?",
+        timestamp: 1,
+        userId: "user-2",
+        userEmail: "ana@example.com",
+      },
+    ]);
+
+    expect(prompt.content).toBe("ana@example.com: Ship it?");
+  });
+});
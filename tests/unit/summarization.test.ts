@@ -0,0 +1,232 @@
+import {
+  getChatSession,
+  updateChatSessionSummary,
+  ChatMessageNode,
+  ChatSession,
+} from "../../src/services/chat-session.service";
+import { generateResponse } from "../../src/services/llm.service";
+import {
+  releaseBackendSlot,
+  waitForBackendSlot,
+} from "../../src/services/generation-queue.service";
+import { recordUsage } from "../../src/services/usage.service";
+import { summarizeConversationIfNeeded } from "../../src/services/summarization.service";
+import { config } from "../../src/config/config";
+
+jest.mock("../../src/services/llm.service", () => ({
+  generateResponse: jest.fn(),
+}));
+jest.mock("../../src/services/generation-queue.service");
+jest.mock("../../src/services/usage.service");
+jest.mock("../../src/services/chat-session.service", () => ({
+  ...jest.requireActual("../../src/services/chat-session.service"),
+  getChatSession: jest.fn(),
+  updateChatSessionSummary: jest.fn(),
+}));
+
+describe("Conversation summarization", () => {
+  const summarization = { ...config.llm.summarization };
+
+  // A straight conversation of count turns, m1 first
+  const chatSession = (count: number, content = "Hello"): ChatSession => {
+    const messages: Record<string, ChatMessageNode> = {};
+    for (let index = 1; index <= count; index++) {
+      messages[`m${index}`] = {
+        id: `m${index}`,
+        parentId: index > 1 ? `m${index - 1}` : null,
+        role: index % 2 ? "user" : "assistant",
+        content: `${content} ${index}`,
+        timestamp: index,
+      };
+    }
+    return {
+      conversationId: "conv-1",
+      userId: "user-1",
+      createdAt: 1,
+      updatedAt: 1,
+      messages,
+      activeLeafId: `m${count}`,
+    };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    Object.assign(config.llm.summarization, {
+      enabled: true,
+      thresholdMessages: 6,
+      keepRecentMessages: 2,
+    });
+    jest.mocked(waitForBackendSlot).mockResolvedValue({
+      acquired: true,
+      waitedMs: 0,
+      queueDepth: 1,
+      initialPosition: 0,
+      timedOut: false,
+    });
+    jest.mocked(generateResponse).mockResolvedValue({
+      text: "The user said hello several times.",
+      isComplete: true,
+      usage: { promptTokens: 120, completionTokens: 9 },
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(config.llm.summarization, summarization);
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  test("leaves short conversations alone", async () => {
+    jest.mocked(getChatSession).mockResolvedValue(chatSession(6));
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    expect(generateResponse).not.toHaveBeenCalled();
+  });
+
+  test("folds all but the recent turns into the summary through the queue", async () => {
+    jest.mocked(getChatSession).mockResolvedValue(chatSession(8));
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    const [request] = jest.mocked(generateResponse).mock.calls[0];
+    expect(request.messages[0].content).toContain("User: Hello 5");
+    expect(request.messages[0].content).toContain("Assistant: Hello 6");
+    expect(request.messages[0].content).not.toContain("Hello 7");
+    expect(updateChatSessionSummary).toHaveBeenCalledWith(
+      "conv-1",
+      "The user said hello several times.",
+      "m6",
+      6,
+      undefined
+    );
+
+    const [summaryId] = jest.mocked(waitForBackendSlot).mock.calls[0];
+    expect(releaseBackendSlot).toHaveBeenCalledWith(summaryId);
+    expect(recordUsage).toHaveBeenCalledWith("user-1", "deepseek", {
+      promptTokens: 120,
+      completionTokens: 9,
+      estimated: false,
+    });
+  });
+
+  test("does nothing while summarization is off", async () => {
+    config.llm.summarization.enabled = false;
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    expect(getChatSession).not.toHaveBeenCalled();
+    expect(generateResponse).not.toHaveBeenCalled();
+  });
+
+  test("folds only the turns since the last summary into it", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(12),
+      summary: "The user greeted the assistant.",
+      summaryThroughId: "m4",
+      summarizedCount: 4,
+    });
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    const [request] = jest.mocked(generateResponse).mock.calls[0];
+    expect(request.messages[0].content).toContain(
+      "Existing summary of earlier turns:\nThe user greeted the assistant."
+    );
+    expect(request.messages[0].content).toContain("User: Hello 5");
+    expect(request.messages[0].content).not.toContain("Hello 4");
+    expect(updateChatSessionSummary).toHaveBeenCalledWith(
+      "conv-1",
+      "The user said hello several times.",
+      "m10",
+      10,
+      "m4"
+    );
+  });
+
+  test("starts over on a branch the summary doesn't describe", async () => {
+    jest.mocked(getChatSession).mockResolvedValue({
+      ...chatSession(8),
+      summary: "A summary of another branch.",
+      summaryThroughId: "elsewhere",
+      summarizedCount: 4,
+    });
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    const [request] = jest.mocked(generateResponse).mock.calls[0];
+    expect(request.messages[0].content).not.toContain("another branch");
+    expect(request.messages[0].content).toContain("User: Hello 1");
+    expect(updateChatSessionSummary).toHaveBeenCalledWith(
+      "conv-1",
+      expect.any(String),
+      "m6",
+      6,
+      "elsewhere"
+    );
+  });
+
+  test("skips the summary when no backend slot frees up in time", async () => {
+    jest.mocked(getChatSession).mockResolvedValue(chatSession(8));
+    jest.mocked(waitForBackendSlot).mockResolvedValue({
+      acquired: false,
+      timedOut: true,
+      waitedMs: 30000,
+      queueDepth: 6,
+      initialPosition: 3,
+    });
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    expect(waitForBackendSlot).toHaveBeenCalledWith(
+      expect.any(String),
+      "user-1",
+      "conn-1",
+      { maxWaitMs: 30000 }
+    );
+    expect(generateResponse).not.toHaveBeenCalled();
+    expect(releaseBackendSlot).not.toHaveBeenCalled();
+    expect(updateChatSessionSummary).not.toHaveBeenCalled();
+  });
+
+  test("summarizes only the oldest turns that fit in the model context", async () => {
+    // About 11,000 tokens a turn, so two fit in the default 32k context
+    jest
+      .mocked(getChatSession)
+      .mockResolvedValue(chatSession(8, "x".repeat(40000)));
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    const [request] = jest.mocked(generateResponse).mock.calls[0];
+    expect(request.messages[0].content).toContain(" 2");
+    expect(request.messages[0].content).not.toContain(" 3");
+    expect(updateChatSessionSummary).toHaveBeenCalledWith(
+      "conv-1",
+      expect.any(String),
+      "m2",
+      2,
+      undefined
+    );
+  });
+
+  test("cuts down a turn too long to summarize whole", async () => {
+    jest
+      .mocked(getChatSession)
+      .mockResolvedValue(chatSession(8, "x".repeat(200000)));
+
+    await summarizeConversationIfNeeded("conv-1", "user-1", "conn-1");
+
+    const [request] = jest.mocked(generateResponse).mock.calls[0];
+    expect(request.messages[0].content.length).toBeLessThan(32768 * 3.5);
+    expect(request.messages[0].content).toContain(
+      "[earlier content truncated]"
+    );
+    expect(updateChatSessionSummary).toHaveBeenCalledWith(
+      "conv-1",
+      expect.any(String),
+      "m1",
+      1,
+      undefined
+    );
+  });
+});
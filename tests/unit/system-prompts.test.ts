@@ -0,0 +1,44 @@
+describe("System prompt presets", () => {
+  const loadPresets = (presets: unknown) => {
+    process.env.LLM_SYSTEM_PROMPT_PRESETS = JSON.stringify(presets);
+    let module: typeof import("../../src/config/system-prompts") | undefined;
+    jest.isolateModules(() => {
+      module = require("../../src/config/system-prompts");
+    });
+    delete process.env.LLM_SYSTEM_PROMPT_PRESETS;
+    return module!;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("adds admin presets next to the built-in ones", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const { getSystemPromptPreset } = loadPresets({
+      "release-notes": {
+        name: "Release notes",
+        prompt: "Write release notes.",
+      },
+      concise: { prompt: "One sentence at most." },
+      empty: { name: "Empty", prompt: " " },
+      "not-an-object": "Write haiku.",
+      "no-entry": null,
+    });
+
+    expect(getSystemPromptPreset("release-notes")).toEqual({
+      name: "Release notes",
+      prompt: "Write release notes.",
+    });
+    expect(getSystemPromptPreset("concise")).toEqual({
+      name: "concise",
+      prompt: "One sentence at most.",
+    });
+    expect(getSystemPromptPreset("sql-helper")?.name).toBe("SQL helper");
+    expect(getSystemPromptPreset("empty")).toBeNull();
+    expect(getSystemPromptPreset("not-an-object")).toBeNull();
+    expect(getSystemPromptPreset("no-entry")).toBeNull();
+    expect(getSystemPromptPreset("constructor")).toBeNull();
+  });
+});
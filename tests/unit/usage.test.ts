@@ -0,0 +1,74 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { checkTokenQuotas, UsageItem } from "../../src/services/usage.service";
+import { RateLimits } from "../../src/config/rate-limits";
+
+describe("Token quotas", () => {
+  const limits: RateLimits = {
+    messagesPerMinute: 0,
+    concurrentGenerations: 0,
+    promptCharactersPerHour: 0,
+    dailyTokens: 1000,
+    monthlyTokens: 5000,
+  };
+
+  const item = (day: string, model: string, tokens: number): UsageItem => ({
+    userId: "user-1",
+    usageKey: `${day}#${model}`,
+    day,
+    model,
+    promptTokens: tokens / 2,
+    completionTokens: tokens / 2,
+    generations: 1,
+    estimatedGenerations: 0,
+    updatedAt: 1,
+    ttl: 1,
+  });
+
+  let send: jest.SpyInstance;
+
+  beforeEach(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, "send");
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.UTC(2024, 4, 14, 18) as number);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("refuses a user over the daily quota until midnight UTC", async () => {
+    send.mockResolvedValue({
+      Items: [
+        item("2024-05-13", "deepseek-r1", 900),
+        item("2024-05-14", "deepseek-r1", 600),
+        item("2024-05-14", "llama-3-8b-instruct", 400),
+      ],
+    } as never);
+
+    expect(await checkTokenQuotas("user-1", limits)).toEqual({
+      limit: "daily_tokens",
+      retryAfterMs: 6 * 60 * 60 * 1000,
+    });
+    expect(send.mock.calls[0][0].input.ExpressionAttributeValues).toEqual({
+      ":userId": "user-1",
+      ":prefix": "2024-05",
+    });
+  });
+
+  test("counts the whole month against the monthly quota", async () => {
+    send.mockResolvedValue({
+      Items: [
+        item("2024-05-01", "deepseek-r1", 3000),
+        item("2024-05-13", "deepseek-r1", 2000),
+      ],
+    } as never);
+
+    expect(await checkTokenQuotas("user-1", limits)).toMatchObject({
+      limit: "monthly_tokens",
+    });
+    expect(
+      await checkTokenQuotas("user-1", { ...limits, monthlyTokens: 0 })
+    ).toBeNull();
+  });
+});